@@ -0,0 +1,68 @@
+import React, { useRef } from 'react';
+import { BUILT_IN_TRACKS } from '../services/builtinTracks.ts';
+import { AudioSettings, CUSTOM_TRACK_ID } from '../hooks/useAudio.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- MUSIC & VOLUME ---
+
+const UPLOAD_OPTION = '__upload__';
+
+export const AudioControls: React.FC<{
+    settings: AudioSettings;
+    customTrackName: string | null;
+    trackError: string | null;
+    onToggleMute: () => void;
+    onVolumeChange: (volume: number) => void;
+    onTrackSelect: (trackId: string) => void;
+    onTrackFile: (file: File) => void;
+}> = ({ settings, customTrackName, trackError, onToggleMute, onVolumeChange, onTrackSelect, onTrackFile }) => {
+    const { t } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const silent = settings.muted || settings.volume === 0;
+
+    const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (e.target.value === UPLOAD_OPTION) fileInputRef.current?.click();
+        else onTrackSelect(e.target.value);
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow picking the same file again later
+        e.target.value = '';
+        if (file) onTrackFile(file);
+    };
+
+    return (
+        <div className="pointer-events-auto absolute top-16 left-6 flex flex-col gap-1 text-xs">
+            <div className="flex items-center gap-2 bg-black/40 border border-white/20 rounded-full px-2 py-1 backdrop-blur-sm">
+                <button onClick={onToggleMute} className="px-1 text-base leading-none" title={silent ? t.audio.unmute : t.audio.mute}>
+                    {silent ? '🔇' : '🔊'}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={settings.muted ? 0 : settings.volume}
+                    onChange={(e) => onVolumeChange(Number(e.target.value))}
+                    className="w-20 accent-yellow-400"
+                    title={t.audio.volume}
+                />
+                <select
+                    value={settings.trackId}
+                    onChange={handleSelect}
+                    className="bg-transparent text-white/80 outline-none max-w-[8rem]"
+                    title={t.audio.music}
+                >
+                    {BUILT_IN_TRACKS.map(track => (
+                        <option key={track.id} value={track.id} className="bg-gray-900">🎵 {t.audio.tracks[track.id]}</option>
+                    ))}
+                    {customTrackName !== null && <option value={CUSTOM_TRACK_ID} className="bg-gray-900">🎵 {customTrackName || t.audio.greetingTrack}</option>}
+                    <option value={UPLOAD_OPTION} className="bg-gray-900">{t.audio.pickFile}</option>
+                </select>
+                <input type="file" accept="audio/*" ref={fileInputRef} className="hidden" onChange={handleFile} />
+            </div>
+            {trackError && <p className="max-w-[16rem] text-red-300 bg-black/60 rounded-lg px-2 py-1">⚠️ {trackError}</p>}
+        </div>
+    );
+};
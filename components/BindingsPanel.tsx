@@ -0,0 +1,66 @@
+import React from 'react';
+import { ActionName } from '../types.ts';
+import {
+  ACTION_CATALOG,
+  BINDABLE_GESTURES,
+  BINDING_PRESETS,
+  BindingMap,
+  bindingKey,
+  findAction,
+} from '../utils/bindings.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- GESTURE BINDINGS SETTINGS ---
+
+export const BindingsPanel: React.FC<{
+    bindings: BindingMap;
+    availableActions: ActionName[];
+    onChange: (bindings: BindingMap) => void;
+    onClose: () => void;
+}> = ({ bindings, availableActions, onChange, onClose }) => {
+    const { t } = useI18n();
+    const actions = ACTION_CATALOG.filter(a => availableActions.includes(a.binding.action));
+
+    const handleSelect = (gesture: string, key: string) => {
+        onChange({ ...bindings, [gesture]: findAction(key)?.binding ?? null });
+    };
+
+    return (
+        <div className="pointer-events-auto absolute top-24 right-6 z-50 w-80 max-h-[70vh] overflow-y-auto bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-festive text-amber-200">{t.bindings.title}</h2>
+                <button onClick={onClose} className="text-white/60 hover:text-white text-lg px-2">✕</button>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+                {BINDING_PRESETS.map(preset => (
+                    <button
+                        key={preset.id}
+                        onClick={() => onChange(preset.bindings)}
+                        className="flex-1 text-sm py-1 rounded-full border border-white/20 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+                    >
+                        {t.bindings.presets[preset.id]}
+                    </button>
+                ))}
+            </div>
+
+            <div className="space-y-2">
+                {BINDABLE_GESTURES.map(g => (
+                    <label key={g.id} className="flex items-center justify-between text-sm">
+                        <span className="text-white/80">{g.icon} {t.bindings.gestures[g.id]}</span>
+                        <select
+                            value={bindingKey(bindings[g.id] ?? null)}
+                            onChange={(e) => handleSelect(g.id, e.target.value)}
+                            className="bg-black/60 border border-white/20 rounded-md px-2 py-1 text-white/90 focus:outline-none focus:border-yellow-400"
+                        >
+                            <option value="">{t.bindings.unbound}</option>
+                            {actions.map(a => (
+                                <option key={a.key} value={a.key}>{t.bindings.actions[a.key]}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { PhotoItem } from '../types.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- CAPTION & DATE EDITOR ---
+
+// <input type="date"> works with local YYYY-MM-DD strings
+const toInputDate = (time: number | null) => {
+    if (time === null) return '';
+    const d = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const fromInputDate = (value: string): number | null => {
+    if (!value) return null;
+    const [y, m, d] = value.split('-').map(Number);
+    return new Date(y, m - 1, d).getTime();
+};
+
+export const CaptionEditor: React.FC<{
+    photos: PhotoItem[];
+    onSave: (id: string, changes: Pick<PhotoItem, 'caption' | 'date'>) => void;
+    onClose: () => void;
+}> = ({ photos, onSave, onClose }) => {
+    const { t } = useI18n();
+    const [drafts, setDrafts] = useState(() =>
+        photos.map(p => ({ id: p.id, url: p.thumbUrl, caption: p.caption, date: toInputDate(p.date) }))
+    );
+
+    const update = (id: string, changes: Partial<{ caption: string; date: string }>) => {
+        setDrafts(prev => prev.map(d => (d.id === id ? { ...d, ...changes } : d)));
+    };
+
+    const handleSave = () => {
+        drafts.forEach(d => onSave(d.id, { caption: d.caption.trim(), date: fromInputDate(d.date) }));
+        onClose();
+    };
+
+    return (
+        <div className="pointer-events-auto fixed inset-0 z-[70] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+            <div className="w-full max-w-md max-h-[80vh] flex flex-col bg-black/80 border border-yellow-500/30 rounded-2xl p-5 text-white shadow-[0_0_40px_rgba(0,0,0,0.7)]">
+                <h2 className="text-2xl font-festive text-amber-200 mb-4">{t.captions.title}</h2>
+
+                <ul className="space-y-3 overflow-y-auto pr-1">
+                    {drafts.map(d => (
+                        <li key={d.id} className="flex gap-3 items-start">
+                            <img src={d.url} alt="" className="w-16 h-16 object-cover rounded-md border border-yellow-500/40 shrink-0" />
+                            <div className="flex-1 space-y-2">
+                                <input
+                                    type="text"
+                                    value={d.caption}
+                                    maxLength={60}
+                                    placeholder={t.captions.placeholder}
+                                    onChange={(e) => update(d.id, { caption: e.target.value })}
+                                    className="w-full bg-white/10 border border-white/20 rounded-md px-2 py-1 text-sm font-festive focus:outline-none focus:border-yellow-400"
+                                />
+                                <input
+                                    type="date"
+                                    value={d.date}
+                                    onChange={(e) => update(d.id, { date: e.target.value })}
+                                    className="bg-white/10 border border-white/20 rounded-md px-2 py-1 text-xs text-white/80 focus:outline-none focus:border-yellow-400 [color-scheme:dark]"
+                                />
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex justify-end gap-3 mt-5">
+                    <button onClick={onClose} className="px-4 py-2 text-white/60 hover:text-white">{t.captions.skip}</button>
+                    <button
+                        onClick={handleSave}
+                        className="px-6 py-2 rounded-full font-bold bg-gradient-to-r from-red-700 to-red-500 hover:from-red-600 hover:to-red-400 border border-yellow-500/30"
+                    >
+                        {t.captions.save}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { CARD_SIZES, SnapshotOptions } from '../services/sceneCapture.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- GREETING CARD EXPORT ---
+
+export const CardExportPanel: React.FC<{
+    defaultText: string;
+    recording: boolean;
+    recordingSupported: boolean;
+    recordingSeconds: number;
+    onSave: (options: SnapshotOptions) => Promise<void>;
+    onRecord: () => Promise<void>;
+    onClose: () => void;
+}> = ({ defaultText, recording, recordingSupported, recordingSeconds, onSave, onRecord, onClose }) => {
+    const { t, format } = useI18n();
+    const [sizeId, setSizeId] = useState(CARD_SIZES[0].id);
+    const [text, setText] = useState(defaultText);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (task: () => Promise<void>) => {
+        setError(null);
+        try {
+            await task();
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleSave = () => run(async () => {
+        const size = CARD_SIZES.find(s => s.id === sizeId) ?? CARD_SIZES[0];
+        setSaving(true);
+        try {
+            await onSave({ width: size.width, height: size.height, overlayText: text });
+        } finally {
+            setSaving(false);
+        }
+    });
+
+    const busy = saving || recording;
+
+    return (
+        <div className="pointer-events-auto absolute top-20 right-6 z-50 w-80 bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-festive text-amber-200">{t.card.title}</h2>
+                <button onClick={onClose} className="text-white/60 hover:text-white text-lg px-2">✕</button>
+            </div>
+
+            <label className="block text-sm text-white/70 mb-1">{t.card.size}</label>
+            <select
+                value={sizeId}
+                onChange={(e) => setSizeId(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-md px-2 py-1 text-sm mb-3 focus:outline-none focus:border-yellow-400"
+            >
+                {CARD_SIZES.map(s => (
+                    <option key={s.id} value={s.id} className="bg-gray-900">{t.card.sizes[s.id]}</option>
+                ))}
+            </select>
+
+            <label className="block text-sm text-white/70 mb-1">{t.card.text}</label>
+            <input
+                type="text"
+                value={text}
+                maxLength={30}
+                onChange={(e) => setText(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-md px-2 py-1 text-sm mb-4 font-festive focus:outline-none focus:border-yellow-400"
+            />
+
+            <div className="flex gap-2">
+                <button
+                    onClick={handleSave}
+                    disabled={busy}
+                    className="flex-1 py-2 rounded-full font-bold bg-gradient-to-r from-red-700 to-red-500 hover:from-red-600 hover:to-red-400 border border-yellow-500/30 disabled:opacity-40"
+                >
+                    {saving ? t.card.saving : t.card.save}
+                </button>
+                <button
+                    onClick={() => run(onRecord)}
+                    disabled={busy || !recordingSupported}
+                    className="flex-1 py-2 rounded-full font-bold bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400 disabled:opacity-40"
+                    title={recordingSupported ? t.card.recordHint : t.card.recordUnsupported}
+                >
+                    {recording ? <span className="text-red-400 animate-pulse">{t.card.recording}</span> : format(t.card.record, { seconds: recordingSeconds })}
+                </button>
+            </div>
+
+            {error && <p className="mt-3 text-xs text-red-300">⚠️ {error}</p>}
+            <p className="mt-3 text-xs text-white/40">{t.card.videoHint}</p>
+        </div>
+    );
+};
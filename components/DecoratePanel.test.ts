@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ornamentKindAt } from './DecoratePanel.tsx';
+
+// jsdom does no layout, so stand in for the browser's hit test
+const pointAt = (element: Element | null) => {
+  document.elementFromPoint = vi.fn(() => element);
+};
+
+const paletteButton = (kind: string, disabled = false) => {
+  const button = document.createElement('button');
+  button.dataset.ornament = kind;
+  button.disabled = disabled;
+  // A hit test can land on something inside the button
+  button.append(document.createElement('span'));
+  document.body.append(button);
+  return button;
+};
+
+describe('ornamentKindAt', () => {
+  afterEach(() => {
+    document.body.replaceChildren();
+  });
+
+  it('picks the palette ornament under the hand cursor', () => {
+    const bell = paletteButton('bell');
+    pointAt(bell.firstElementChild);
+    expect(ornamentKindAt({ x: 0.05, y: 0.5 })).toBe('bell');
+    // Normalized position, scaled to the viewport
+    expect(document.elementFromPoint).toHaveBeenCalledWith(0.05 * window.innerWidth, 0.5 * window.innerHeight);
+  });
+
+  it('ignores disabled ornaments and everything outside the palette', () => {
+    pointAt(paletteButton('photo', true));
+    expect(ornamentKindAt({ x: 0.05, y: 0.6 })).toBeNull();
+
+    pointAt(document.body);
+    expect(ornamentKindAt({ x: 0.5, y: 0.5 })).toBeNull();
+
+    // Over the canvas edge, nothing at all
+    pointAt(null);
+    expect(ornamentKindAt({ x: 1, y: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { MAX_ORNAMENTS, ORNAMENT_KINDS, OrnamentKind } from '../utils/ornaments.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- DECORATING ---
+
+export interface DecorateControls {
+    handCursor: { x: number; y: number } | null; // Normalized, while a hand is in view
+    ornaments: number;
+    canUndo: boolean;
+    held: OrnamentKind | null;
+    hasPhotos: boolean;
+    onPick: (kind: OrnamentKind) => void;
+    onUndo: () => void;
+    onClear: () => void;
+    // Throws the parser's user-facing message
+    onImport: (json: string) => void;
+    onExport: () => void;
+}
+
+// The palette ornament under a normalized screen position, if it can be picked
+export const ornamentKindAt = (position: { x: number; y: number }): OrnamentKind | null => {
+    const target = document.elementFromPoint(position.x * window.innerWidth, position.y * window.innerHeight);
+    const button = target?.closest<HTMLElement>('[data-ornament]:not(:disabled)');
+    return (button?.dataset.ornament as OrnamentKind | undefined) ?? null;
+};
+
+// Sits at the left edge, in easy reach of the hand cursor. The palette buttons
+// carry data-ornament so a pinch over one can find it on screen.
+export const DecoratePanel: React.FC<DecorateControls & { onDone: () => void }> = ({
+    handCursor, ornaments, canUndo, held, hasPhotos, onPick, onUndo, onClear, onImport, onExport, onDone
+}) => {
+    const { t, format } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Re-read on every cursor move; the app re-renders with each one anyway
+    const hovered = handCursor ? ornamentKindAt(handCursor) : null;
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow picking the same file again later
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            onImport(await file.text());
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <>
+            <div className="pointer-events-auto absolute top-1/2 left-6 -translate-y-1/2 z-50 w-60 bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+                <h2 className="text-xl font-festive text-amber-200 mb-1">{t.decorate.title}</h2>
+                <p className="text-xs text-white/50 mb-3">{t.decorate.hint}</p>
+
+                <div className="grid grid-cols-3 gap-2 mb-3">
+                    {ORNAMENT_KINDS.map(({ kind, icon }) => {
+                        const disabled = kind === 'photo' && !hasPhotos;
+                        return (
+                            <button
+                                key={kind}
+                                data-ornament={kind}
+                                disabled={disabled}
+                                onClick={() => onPick(kind)}
+                                title={disabled ? t.decorate.noPhotos : t.decorate.kinds[kind]}
+                                className={`h-14 rounded-xl text-2xl border transition disabled:opacity-30 ${
+                                    held === kind ? 'border-yellow-400 bg-yellow-500/20' : 'border-white/10 bg-white/5 hover:border-yellow-400/60'
+                                } ${hovered === kind ? 'scale-110 ring-2 ring-white/70' : ''}`}
+                            >
+                                {icon}
+                            </button>
+                        );
+                    })}
+                </div>
+                <p className="text-xs text-white/60 mb-3">{format(t.decorate.count, { count: ornaments, max: MAX_ORNAMENTS })}</p>
+
+                <input type="file" accept=".json,application/json" ref={fileInputRef} className="hidden" onChange={handleFile} />
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                    <button
+                        onClick={onUndo}
+                        disabled={!canUndo}
+                        className="py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400 disabled:opacity-40"
+                    >
+                        {t.decorate.undo}
+                    </button>
+                    <button
+                        onClick={onClear}
+                        disabled={ornaments === 0}
+                        className="py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400 disabled:opacity-40"
+                    >
+                        {t.decorate.clear}
+                    </button>
+                    <button
+                        onClick={onExport}
+                        className="py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400"
+                    >
+                        {t.decorate.export}
+                    </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400"
+                    >
+                        {t.decorate.import}
+                    </button>
+                </div>
+                {error && <p className="text-xs text-red-300 mb-2">⚠️ {error}</p>}
+                <button
+                    onClick={onDone}
+                    className="w-full py-2 rounded-full text-sm font-bold bg-gradient-to-r from-red-800 to-red-600 hover:from-red-600 hover:to-red-400 border border-yellow-500/30"
+                >
+                    {t.decorate.done}
+                </button>
+            </div>
+            {handCursor && (
+                // The hand has no pointer of its own; this is what it aims the palette with
+                <div
+                    className="pointer-events-none fixed z-[60] w-10 h-10 -ml-5 -mt-5 rounded-full border-2 border-yellow-300 bg-yellow-300/20 shadow-[0_0_12px_rgba(253,224,71,0.6)] flex items-center justify-center text-xl"
+                    style={{ left: `${handCursor.x * 100}%`, top: `${handCursor.y * 100}%` }}
+                >
+                    {held && ORNAMENT_KINDS.find(k => k.kind === held)!.icon}
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,243 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import ReactThreeTestRenderer from '@react-three/test-renderer';
+import * as THREE from 'three';
+import { AppMode, PhotoItem } from '../types.ts';
+import { BUILT_IN_SHAPES, TREE_HEIGHT, TREE_RADIUS } from '../utils/shapeLayouts.ts';
+import { BUILT_IN_THEMES } from '../utils/themes.ts';
+import { QUALITY_PRESETS } from '../utils/quality.ts';
+import { HandForce } from '../utils/handField.ts';
+import { MOSAIC_POSITION, MOSAIC_SIZE } from '../utils/mosaic.ts';
+import { Ornament } from '../utils/ornaments.ts';
+import { Experience, INSPECT_POSITION } from './Experience.tsx';
+
+// No WebGL, network or DOM overlay in the test renderer: keep the particles and photos, drop the dressing
+vi.mock('@react-three/drei', () => ({
+  Environment: () => null,
+  Html: () => null,
+  Sparkles: () => null,
+  Stars: () => null,
+  PerformanceMonitor: () => null,
+}));
+vi.mock('@react-three/postprocessing', async () => {
+  const { forwardRef } = await import('react');
+  const Empty = forwardRef(() => null);
+  return { EffectComposer: Empty, Vignette: Empty, ToneMapping: Empty };
+});
+vi.mock('../hooks/usePhotoAtlas.ts', () => ({ usePhotoAtlas: () => null }));
+
+// Lets React flush renderer.update() inside act() without warnings
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const photo = (id: string): PhotoItem => ({
+  id,
+  url: `blob:${id}`,
+  thumbUrl: `blob:${id}-thumb`,
+  width: 1024,
+  height: 768,
+  name: `${id}.jpg`,
+  caption: '',
+  date: null,
+  dateAdded: 0,
+  capturedAt: null,
+});
+
+const PHOTOS = [photo('a'), photo('b'), photo('c')];
+
+const ORNAMENTS: Ornament[] = [
+  { kind: 'bauble', position: [3, 0, 3], color: '#d42426' },
+  { kind: 'bell', position: [-2, 2, 1], color: '#ffd700' },
+];
+
+const scene = (mode: AppMode, seed = 1, handForce: HandForce | null = null, shakes = 0) => (
+  <Experience
+    mode={mode}
+    photos={PHOTOS}
+    activePhoto={0}
+    handPos={{ x: 0.5, y: 0.5 }}
+    handCursor={handForce ? { x: 0.5, y: 0.5 } : null}
+    handSize={null}
+    handForce={handForce}
+    zoom={1}
+    onPhotoSelect={() => {}}
+    onPhotoHover={() => {}}
+    captureRef={{ current: null }}
+    quality={QUALITY_PRESETS.low}
+    shape={BUILT_IN_SHAPES[0]}
+    theme={BUILT_IN_THEMES[0]}
+    locale="en"
+    seed={seed}
+    snowing
+    shakes={shakes}
+    ornaments={ORNAMENTS}
+    heldOrnament={mode === AppMode.DECORATE ? 'bauble' : null}
+    onTreeHover={() => {}}
+    onTreeClick={() => {}}
+    getAudioLevel={() => 0}
+  />
+);
+
+type Renderer = Awaited<ReturnType<typeof ReactThreeTestRenderer.create>>;
+
+// Five seconds at 60 fps: every transition has settled by then. advanceFrames runs
+// each frame callback through all of its frames before the next one starts, so step
+// in short bursts to let values one component hands another keep up.
+const settle = (renderer: Renderer) => ReactThreeTestRenderer.act(async () => {
+  for (let i = 0; i < 60; i++) await renderer.advanceFrames(5, 1 / 60);
+});
+
+const photoGroups = (renderer: Renderer) =>
+  renderer.scene.findAll(node => typeof node.props.userData?.photoIndex === 'number').map(node => node.instance as THREE.Group);
+
+// Live uniforms of the instanced particle groups whose shader reads `name`
+const particleUniforms = (renderer: Renderer, name: string) =>
+  renderer.scene.findAllByType('Mesh')
+    .map(node => node.instance as THREE.InstancedMesh)
+    .filter(mesh => mesh.isInstancedMesh && (mesh.material as THREE.Material).userData.uniforms?.[name])
+    .map(mesh => (mesh.material as THREE.Material).userData.uniforms);
+
+// The falling and the settled snow share theirs
+const snowUniforms = (renderer: Renderer) => particleUniforms(renderer, 'uDepth')[0];
+
+// Foliage and ribbons
+const morphUniforms = (renderer: Renderer) => {
+  const groups = particleUniforms(renderer, 'uMorph');
+  expect(groups).toHaveLength(2);
+  return groups;
+};
+
+describe('Experience', () => {
+  let renderer: Renderer;
+
+  beforeEach(async () => {
+    renderer = await ReactThreeTestRenderer.create(scene(AppMode.TREE));
+    await settle(renderer);
+    return () => renderer.unmount();
+  });
+
+  it('hangs every photo on the tree', () => {
+    const groups = photoGroups(renderer);
+    expect(groups).toHaveLength(PHOTOS.length);
+    for (const group of groups) {
+      // Photo layout is the cone scaled by 1.3
+      expect(Math.abs(group.position.y)).toBeLessThanOrEqual((TREE_HEIGHT / 2) * 1.3);
+      expect(Math.hypot(group.position.x, group.position.z)).toBeLessThanOrEqual(TREE_RADIUS * 1.3);
+    }
+  });
+
+  it('gathers the particles in TREE and releases them in SCATTER', async () => {
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uMorph.value).toBeCloseTo(0, 3);
+
+    await renderer.update(scene(AppMode.SCATTER));
+    await settle(renderer);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uMorph.value).toBeCloseTo(1, 3);
+  });
+
+  it('scatters the photos away from the tree', async () => {
+    const onTree = photoGroups(renderer).map(group => group.position.clone());
+
+    await renderer.update(scene(AppMode.SCATTER));
+    await settle(renderer);
+    photoGroups(renderer).forEach((group, i) => {
+      expect(group.position.distanceTo(onTree[i])).toBeGreaterThan(1);
+      // Scatter box plus the drifting bob
+      expect(Math.abs(group.position.x)).toBeLessThanOrEqual(25.5);
+      expect(Math.abs(group.position.y)).toBeLessThanOrEqual(20.5);
+      expect(Math.abs(group.position.z)).toBeLessThanOrEqual(15);
+    });
+  });
+
+  it('brings the active photo forward in INSPECT and pushes the others out', async () => {
+    await renderer.update(scene(AppMode.SCATTER));
+    await settle(renderer);
+    const scattered = photoGroups(renderer).map(group => group.position.clone());
+
+    await renderer.update(scene(AppMode.INSPECT));
+    await settle(renderer);
+    const [active, ...others] = photoGroups(renderer);
+    expect(active.position.distanceTo(INSPECT_POSITION)).toBeLessThan(0.01);
+    expect(active.scale.x).toBeCloseTo(6, 1);
+    others.forEach((group, i) => {
+      // Twice the scatter position, give or take the bob it had there
+      expect(group.position.distanceTo(scattered[i + 1].clone().multiplyScalar(2))).toBeLessThan(1.5);
+    });
+  });
+
+  it('lines the particles up into the mosaic, then reveals the photo over them', async () => {
+    await renderer.update(scene(AppMode.MOSAIC));
+    await settle(renderer);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uMosaic.value).toBeCloseTo(1, 3);
+
+    const [active, ...others] = photoGroups(renderer);
+    expect(active.position.distanceTo(MOSAIC_POSITION)).toBeLessThan(0.5);
+    expect(active.scale.x).toBeCloseTo(MOSAIC_SIZE, 1);
+    const photoMaterial = (active.children[0] as THREE.Mesh).material as THREE.MeshBasicMaterial;
+    expect(photoMaterial.opacity).toBeGreaterThan(0.9);
+    for (const group of others) expect(group.position.distanceTo(MOSAIC_POSITION)).toBeGreaterThan(MOSAIC_SIZE / 2);
+  });
+
+  it('hands the open palm to the particles in SCATTER only', async () => {
+    await renderer.update(scene(AppMode.SCATTER, 1, 'repel'));
+    await settle(renderer);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uHandForce.value).toBeCloseTo(1, 2);
+
+    await renderer.update(scene(AppMode.TREE, 1, 'repel'));
+    await settle(renderer);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uHandForce.value).toBeCloseTo(0, 2);
+  });
+
+  it('winds the particles around a pinch in SCATTER', async () => {
+    await renderer.update(scene(AppMode.SCATTER, 1, 'swirl'));
+    await settle(renderer);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uHandForce.value).toBeCloseTo(-1, 2);
+  });
+
+  it('settles snow on the tree and throws it off on SCATTER', async () => {
+    const snow = snowUniforms(renderer);
+    expect(snow.uDepth.value).toBeGreaterThan(0);
+
+    const settled = snow.uDepth.value;
+    await renderer.update(scene(AppMode.SCATTER));
+    await settle(renderer);
+    expect(snow.uDepth.value).toBe(0);
+    expect(snow.uBurst.value).toBeCloseTo(settled, 3);
+  });
+
+  it('shakes the snow off without breaking the tree up', async () => {
+    await renderer.update(scene(AppMode.TREE, 1, null, 1));
+    await ReactThreeTestRenderer.act(() => renderer.advanceFrames(6, 1 / 60));
+    const snow = snowUniforms(renderer);
+    expect(snow.uBurst.value).toBeGreaterThan(0);
+    expect(snow.uBurstAge.value).toBeLessThan(0.2);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uMorph.value).toBeCloseTo(0, 3);
+  });
+
+  it('keeps the tree standing in DECORATE, with the ornaments hung where they were placed', async () => {
+    await renderer.update(scene(AppMode.DECORATE));
+    await settle(renderer);
+    for (const uniforms of morphUniforms(renderer)) expect(uniforms.uMorph.value).toBeCloseTo(0, 3);
+    const hung = renderer.scene.findAll(node => node.props.name === 'ornament').map(node => node.instance as THREE.Group);
+    expect(hung.map(group => group.position.toArray())).toEqual(ORNAMENTS.map(o => o.position));
+    expect(hung[0].parent!.scale.x).toBeCloseTo(1, 2);
+
+    // Scattering the tree takes the ornaments with it
+    await renderer.update(scene(AppMode.SCATTER));
+    await settle(renderer);
+    expect(hung[0].parent!.visible).toBe(false);
+  });
+
+  it('lays out the same scene for the same seed', async () => {
+    const first = photoGroups(renderer).map(group => group.position.toArray());
+    const again = await ReactThreeTestRenderer.create(scene(AppMode.TREE));
+    await settle(again);
+    // The tree spins the photos around the trunk, so compare what the seed decides: height and radius
+    const shapeOf = (p: number[]) => [p[1], Math.hypot(p[0], p[2])];
+    photoGroups(again).forEach((group, i) => {
+      const [y, r] = shapeOf(group.position.toArray());
+      expect(y).toBeCloseTo(shapeOf(first[i])[0], 5);
+      expect(r).toBeCloseTo(shapeOf(first[i])[1], 3);
+    });
+    await again.unmount();
+  });
+});
@@ -0,0 +1,1120 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Environment, Sparkles, Stars, Html, PerformanceMonitor } from '@react-three/drei';
+import { EffectComposer, Vignette, ToneMapping } from '@react-three/postprocessing';
+import { BlendFunction, BloomEffect, type EffectComposer as PostComposer } from 'postprocessing';
+import * as THREE from 'three';
+import { AppMode, PhotoItem } from '../types.ts';
+import { advanceFlow, applyHandField, beginShapeTransition, createFoliageMaterial, createMorphUniforms, createRibbonMaterial, createSnowCoverMaterial, createSnowfallMaterial, createSnowUniforms, MorphUniforms, SnowUniforms, stepMorph } from '../utils/particleMaterials.ts';
+import { Locale, messages } from '../utils/i18n.ts';
+import { GlowColor, Theme } from '../utils/themes.ts';
+import { createRandom } from '../utils/random.ts';
+import { createOrbitController } from '../utils/cameraOrbit.ts';
+import { createHandField, HandField, HandFieldTarget, HandForce, handOffset, stepHandField } from '../utils/handField.ts';
+import { createMosaicGrid, easeInstanceColors, MOSAIC_POSITION, MOSAIC_SIZE, mosaicCellSize, mosaicColors, MosaicGrid, mosaicPositions } from '../utils/mosaic.ts';
+import { fillLayout, getRibbonSpiral, getScatterPos, getTreeData, ShapeDefinition, TREE_HEIGHT, TREE_RADIUS } from '../utils/shapeLayouts.ts';
+import { dropOnTree, Ornament, ornamentColor, OrnamentKind, ornamentPhoto } from '../utils/ornaments.ts';
+import { createSnowCover, createSnowfall, createWeather, shakeTree, shakeWobble, shedSnow, SNOW_BOX, stepWeather, WeatherState } from '../utils/weather.ts';
+import { QualityPreset } from '../utils/quality.ts';
+import { PhotoAtlas, sampleAtlas, usePhotoAtlas } from '../hooks/usePhotoAtlas.ts';
+import { canvasToBlob, composeCard, SceneCaptureHandle, SnapshotOptions } from '../services/sceneCapture.ts';
+
+// ==========================================
+// 3D SCENE
+// ==========================================
+// Everything inside the <Canvas>: particles, photos, camera and post-processing.
+// Context doesn't reach in here, so all state arrives as props.
+
+export const CAMERA_DISTANCE = 38;
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+export const INSPECT_POSITION = new THREE.Vector3(0, 0, 15); // Where the inspected photo sits, in tree-group coordinates
+const MOSAIC_REVEAL_SECONDS = 2.5; // The pixel-art version holds this long before the photo fades in
+const MAX_CAPTURE_DPR = 4;
+const BLOOM_INTENSITY = 2.5;
+
+// Theme colors scaled into HDR so they bloom
+const toGlow = ({ color, intensity }: GlowColor) => new THREE.Color(color).multiplyScalar(intensity);
+
+// --- PARTICLE SYSTEM ---
+
+// Shape layout buffers for one particle group; a shape change blends from the on-screen layout.
+// `stream` keeps groups sharing a seed from landing on the same points.
+const useShapeMorph = (shape: ShapeDefinition, count: number, uniforms: MorphUniforms, seed: number, stream: string) => {
+    const geometryRef = useRef<THREE.BufferGeometry>(null);
+    const shapeRef = useRef(shape);
+    const layoutRandom = (next: ShapeDefinition) => createRandom(seed, `${stream}:${next.id}`);
+
+    // A new particle count or seed starts out on the current shape, without a transition
+    const buffers = useMemo(() => {
+        const to = fillLayout(shape.layout, count, layoutRandom(shape));
+        return { from: to.slice(), to, shape };
+    }, [count, seed]);
+
+    // Before the first frame draws the new buffers
+    useLayoutEffect(() => {
+        shapeRef.current = buffers.shape;
+        uniforms.uShapeBlend.value = 1;
+        uniforms.uFlowFrom.value = uniforms.uFlowTo.value = buffers.shape.spiralRibbons ? 1 : 0;
+    }, [buffers]);
+
+    useEffect(() => {
+        if (shapeRef.current === shape) return;
+        shapeRef.current = shape;
+        beginShapeTransition(uniforms, buffers.from, buffers.to, fillLayout(shape.layout, count, layoutRandom(shape)), !!shape.spiralRibbons);
+        const attributes = geometryRef.current?.attributes;
+        if (attributes) {
+            attributes.aShapeFrom.needsUpdate = true;
+            attributes.aShapeTo.needsUpdate = true;
+        }
+    }, [shape]);
+
+    return { geometryRef, from: buffers.from, to: buffers.to };
+};
+
+// One particle group's share of the mosaic, from grid slot `first` on. The theme
+// fills `palette`; each frame the instance colors ease toward it, or toward the
+// photo's pixels as the group lines up in MOSAIC.
+const useMosaic = (
+    meshRef: React.RefObject<THREE.InstancedMesh>,
+    uniforms: MorphUniforms,
+    grid: MosaicGrid,
+    first: number,
+    count: number,
+    pixels: Uint8ClampedArray | null
+) => {
+    const positions = useMemo(() => {
+        uniforms.uMosaicCell.value = mosaicCellSize(grid);
+        return mosaicPositions(grid, first, count);
+    }, [grid, first, count]);
+    const palette = useMemo(() => new Float32Array(count * 3), [count]);
+    const photoColors = useMemo(() => pixels && mosaicColors(grid, pixels, first, count), [grid, pixels, first, count]);
+
+    useFrame((_, delta) => {
+        const shown = meshRef.current?.instanceColor;
+        if (shown && easeInstanceColors(shown.array as Float32Array, palette, photoColors, uniforms.uMosaic.value, Math.min(1, delta * 4))) {
+            shown.needsUpdate = true;
+        }
+    });
+
+    // Once the palette is filled: a new mesh starts out showing it
+    const showPalette = () => {
+        const mesh = meshRef.current;
+        if (mesh && !mesh.instanceColor) mesh.instanceColor = new THREE.InstancedBufferAttribute(palette.slice(), 3);
+    };
+
+    return { positions, palette, showPalette };
+};
+
+const TreeFoliage: React.FC<{ 
+    mode: AppMode; 
+    shape: ShapeDefinition; 
+    count: number; 
+    theme: Theme; 
+    seed: number; 
+    field: HandField; 
+    mosaic: MosaicGrid; 
+    pixels: Uint8ClampedArray | null 
+}> = ({ mode, shape, count, theme, seed, field, mosaic, pixels }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const uniforms = useMemo(createMorphUniforms, []);
+    const material = useMemo(() => createFoliageMaterial(uniforms), [uniforms]);
+    useEffect(() => () => material.dispose(), [material]);
+    const shapeBuffers = useShapeMorph(shape, count, uniforms, seed, 'foliage');
+    // Foliage takes the first mosaic slots
+    const mosaicBuffers = useMosaic(meshRef, uniforms, mosaic, 0, count, pixels);
+
+    // Per-instance attributes, consumed by the morph shader
+    const particles = useMemo(() => {
+        const random = createRandom(seed, 'foliage');
+        const scatterPos = new Float32Array(count * 3);
+        const phase = new Float32Array(count);
+        const scale = new Float32Array(count);
+        // Where each particle sits in the theme's palette, kept so theme changes don't reshuffle it
+        const shade = new Float32Array(count);
+        const midTone: boolean[] = [];
+        for (let i = 0; i < count; i++) {
+            scatterPos.set(getScatterPos(random), i * 3);
+            phase[i] = random() * Math.PI * 2;
+            scale[i] = 0.08 + random() * 0.06;
+            shade[i] = random();
+            midTone.push(random() > 0.8);
+        }
+        return { scatterPos, phase, scale, shade, midTone };
+    }, [count, seed]);
+
+    useFrame((state, delta) => {
+        stepMorph(uniforms, mode, state.clock.getElapsedTime(), delta, 3);
+        applyHandField(uniforms, field);
+    });
+
+    useEffect(() => {
+        const dark = new THREE.Color(theme.foliage.dark);
+        const light = new THREE.Color(theme.foliage.light);
+        const mid = new THREE.Color(theme.foliage.mid);
+        const color = new THREE.Color();
+        for (let i = 0; i < count; i++) {
+            color.lerpColors(dark, light, particles.shade[i]);
+            if (particles.midTone[i]) color.lerp(mid, 0.5);
+            color.multiplyScalar(theme.foliage.intensity).toArray(mosaicBuffers.palette, i * 3);
+        }
+        mosaicBuffers.showPalette();
+    }, [particles, mosaicBuffers.palette, theme.foliage]);
+
+    // Instance matrices stay identity; the shader places every particle, so skip culling
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, material, count]} frustumCulled={false}>
+            <sphereGeometry ref={shapeBuffers.geometryRef} args={[1, 8, 8]}>
+                <instancedBufferAttribute attach="attributes-aShapeFrom" args={[shapeBuffers.from, 3]} />
+                <instancedBufferAttribute attach="attributes-aShapeTo" args={[shapeBuffers.to, 3]} />
+                <instancedBufferAttribute attach="attributes-aScatterPos" args={[particles.scatterPos, 3]} />
+                <instancedBufferAttribute attach="attributes-aMosaicPos" args={[mosaicBuffers.positions, 3]} />
+                <instancedBufferAttribute attach="attributes-aPhase" args={[particles.phase, 1]} />
+                <instancedBufferAttribute attach="attributes-aScale" args={[particles.scale, 1]} />
+            </sphereGeometry>
+        </instancedMesh>
+    )
+}
+
+const TreeRibbons: React.FC<{ 
+    mode: AppMode; 
+    shape: ShapeDefinition; 
+    count: number; 
+    theme: Theme; 
+    seed: number; 
+    field: HandField; 
+    mosaic: MosaicGrid; 
+    // First mosaic slot, after the foliage
+    mosaicSlot: number; 
+    pixels: Uint8ClampedArray | null; 
+    getAudioLevel: () => number 
+}> = ({ mode, shape, count, theme, seed, field, mosaic, mosaicSlot, pixels, getAudioLevel }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const uniforms = useMemo(createMorphUniforms, []);
+    const material = useMemo(() => createRibbonMaterial(uniforms), [uniforms]);
+    useEffect(() => () => material.dispose(), [material]);
+    const shapeBuffers = useShapeMorph(shape, count, uniforms, seed, 'ribbons');
+    const mosaicBuffers = useMosaic(meshRef, uniforms, mosaic, mosaicSlot, count, pixels);
+
+    const particles = useMemo(() => {
+        const random = createRandom(seed, 'ribbons');
+        const spiral = new Float32Array(count * 3);
+        const scatterPos = new Float32Array(count * 3);
+        const phase = new Float32Array(count);
+        const trail = new Float32Array(count);
+        for (let i = 0; i < count; i++) {
+            spiral.set(getRibbonSpiral(i, count, random), i * 3);
+            scatterPos.set(getScatterPos(random), i * 3);
+            phase[i] = random() * Math.PI * 2;
+            trail[i] = 0.5 + random() * 0.5;
+        }
+        return { spiral, scatterPos, phase, trail };
+    }, [count, seed]);
+
+    // Ribbons only scatter, they never push back for INSPECT
+    useFrame((state, delta) => {
+        stepMorph(uniforms, mode, state.clock.getElapsedTime(), delta, 5, 1);
+        // Louder music spins the ribbons faster
+        advanceFlow(uniforms, delta, 1 + getAudioLevel() * 2);
+        applyHandField(uniforms, field);
+    });
+
+    useEffect(() => {
+        const strands = theme.ribbons.map(toGlow);
+        for (let i = 0; i < count; i++) strands[i % 2].toArray(mosaicBuffers.palette, i * 3);
+        mosaicBuffers.showPalette();
+    }, [particles, mosaicBuffers.palette, theme.ribbons]);
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, material, count]} frustumCulled={false}>
+            <boxGeometry ref={shapeBuffers.geometryRef} args={[1, 1, 1]}>
+                <instancedBufferAttribute attach="attributes-aSpiral" args={[particles.spiral, 3]} />
+                <instancedBufferAttribute attach="attributes-aShapeFrom" args={[shapeBuffers.from, 3]} />
+                <instancedBufferAttribute attach="attributes-aShapeTo" args={[shapeBuffers.to, 3]} />
+                <instancedBufferAttribute attach="attributes-aScatterPos" args={[particles.scatterPos, 3]} />
+                <instancedBufferAttribute attach="attributes-aMosaicPos" args={[mosaicBuffers.positions, 3]} />
+                <instancedBufferAttribute attach="attributes-aPhase" args={[particles.phase, 1]} />
+                <instancedBufferAttribute attach="attributes-aTrail" args={[particles.trail, 1]} />
+            </boxGeometry>
+        </instancedMesh>
+    )
+}
+
+// Loads the full-resolution texture for the inspected photo only, and frees it again afterwards
+const useFullResTexture = (url: string | null) => {
+    const [texture, setTexture] = useState<THREE.Texture | null>(null);
+
+    useEffect(() => {
+        if (!url) return;
+        let cancelled = false;
+        let loaded: THREE.Texture | null = null;
+
+        new THREE.TextureLoader().load(url, (tex) => {
+            loaded = tex;
+            if (cancelled) {
+                tex.dispose();
+                return;
+            }
+            tex.colorSpace = THREE.SRGBColorSpace;
+            // "Cover" fit into the square photo plane
+            const aspect = tex.image.width / tex.image.height;
+            if (aspect > 1) {
+                tex.repeat.set(1 / aspect, 1);
+                tex.offset.set((1 - 1 / aspect) / 2, 0);
+            } else {
+                tex.repeat.set(1, aspect);
+                tex.offset.set(0, (1 - aspect) / 2);
+            }
+            setTexture(tex);
+        });
+
+        return () => {
+            cancelled = true;
+            loaded?.dispose();
+            setTexture(null);
+        };
+    }, [url]);
+
+    return texture;
+};
+
+const formatPhotoDate = (photo: PhotoItem, locale: Locale) =>
+    new Date(photo.date ?? photo.dateAdded).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const SinglePhoto: React.FC<{ 
+    id: number; 
+    photo: PhotoItem; 
+    atlas: PhotoAtlas | null;
+    treePos: number[]; 
+    initialPos: number[]; 
+    mode: AppMode; 
+    isActive: boolean; 
+    isHovered: boolean;
+    frameColor: string;
+    // Context doesn't reach inside the r3f Canvas, so the locale is passed down
+    locale: Locale;
+    field: HandField;
+    onSelect: () => void;
+    onHover: (hovered: boolean) => void 
+}> = ({ 
+    id, photo, atlas, treePos, initialPos, mode, isActive, isHovered, frameColor, locale, field, onSelect, onHover 
+}) => {
+    const ref = useRef<THREE.Group>(null);
+    const targetPos = useRef(new THREE.Vector3());
+    const currentPos = useRef(new THREE.Vector3(...treePos as [number, number, number]));
+    const pushed = useMemo(() => new THREE.Vector3(), []);
+    const photoMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+    const frameMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+    const opacity = useRef(1);
+    const mosaicShown = useRef(0); // Seconds the particles have been rebuilding this photo
+    const inspected = isActive && mode === AppMode.INSPECT;
+    const mosaicked = isActive && mode === AppMode.MOSAIC;
+    const fullRes = useFullResTexture(inspected || mosaicked ? photo.url : null);
+
+    // This photo's cell of the shared thumbnail atlas (clones share the GPU upload)
+    const region = atlas?.regions[photo.id];
+    const thumbTexture = useMemo(() => {
+        if (!atlas || !region) return null;
+        const tex = atlas.texture.clone();
+        tex.offset.set(...region.offset);
+        tex.repeat.set(...region.repeat);
+        tex.needsUpdate = true;
+        return tex;
+    }, [atlas, region]);
+    useEffect(() => () => thumbTexture?.dispose(), [thumbTexture]);
+    
+    useFrame((state, delta) => {
+        if (!ref.current) return;
+        const time = state.clock.getElapsedTime();
+
+        if (mode === AppMode.TREE || mode === AppMode.DECORATE) {
+            targetPos.current.set(treePos[0], treePos[1], treePos[2]);
+            const angle = time * 0.2 + id;
+            const r = Math.sqrt(treePos[0]**2 + treePos[2]**2);
+            targetPos.current.x = Math.cos(angle) * r;
+            targetPos.current.z = Math.sin(angle) * r;
+        } else if (mode === AppMode.SCATTER) {
+            targetPos.current.set(initialPos[0], initialPos[1], initialPos[2]);
+            targetPos.current.x += Math.sin(time * 0.5 + id) * 0.5;
+            targetPos.current.y += Math.cos(time * 0.3 + id) * 0.5;
+            targetPos.current.add(handOffset(field, targetPos.current, pushed));
+        } else if (mode === AppMode.INSPECT || mode === AppMode.MOSAIC) {
+            if (inspected) {
+                targetPos.current.copy(INSPECT_POSITION);
+            } else if (mosaicked) {
+                // Just in front of the particle pixels
+                targetPos.current.copy(MOSAIC_POSITION);
+                targetPos.current.z += 0.3;
+            } else {
+                targetPos.current.set(initialPos[0], initialPos[1], initialPos[2]).multiplyScalar(2.0);
+            }
+        }
+
+        currentPos.current.lerp(targetPos.current, delta * 3);
+        ref.current.position.copy(currentPos.current);
+
+        // The mosaicked photo flies over unseen, then fades in once the pixel art has had its moment
+        mosaicShown.current = mosaicked ? mosaicShown.current + delta : 0;
+        const visible = !mosaicked || mosaicShown.current > MOSAIC_REVEAL_SECONDS;
+        opacity.current = THREE.MathUtils.lerp(opacity.current, visible ? 1 : 0, Math.min(1, delta * (visible ? 1.5 : 6)));
+        if (photoMaterialRef.current) photoMaterialRef.current.opacity = opacity.current;
+        if (frameMaterialRef.current) frameMaterialRef.current.opacity = opacity.current;
+
+        if (inspected || mosaicked) {
+            const size = inspected ? 6 : MOSAIC_SIZE;
+            ref.current.rotation.set(0, 0, 0);
+            ref.current.scale.lerp(new THREE.Vector3(size, size, 1), delta * 3);
+        } else {
+             const size = isHovered ? 2.5 : 2;
+             ref.current.lookAt(0, currentPos.current.y, 0); 
+             ref.current.scale.lerp(new THREE.Vector3(size, size, 1), delta * 6);
+        }
+    });
+
+    return (
+        <group 
+            ref={ref}
+            position={treePos as any}
+            userData={{ photoIndex: id }}
+            onClick={(e) => {
+                // Ignore clicks that end a drag (parallax) gesture; while decorating, the click hangs an ornament
+                if (e.delta > 6 || mode === AppMode.DECORATE) return;
+                e.stopPropagation();
+                onSelect();
+            }}
+            onPointerOver={(e) => { e.stopPropagation(); onHover(true); }}
+            onPointerOut={() => onHover(false)}
+        >
+             {/* Thumbnail until the full-resolution texture has arrived */}
+             <mesh>
+                <planeGeometry />
+                <meshBasicMaterial ref={photoMaterialRef} map={fullRes ?? thumbTexture} color={fullRes || thumbTexture ? '#ffffff' : '#333333'} transparent toneMapped={false} />
+             </mesh>
+             <mesh position={[0,0,-0.05]} scale={isHovered ? [1.1, 1.1, 1] : [1.05, 1.05, 1]}>
+                <planeGeometry />
+                <meshStandardMaterial ref={frameMaterialRef} transparent color={frameColor} metalness={1} roughness={0.2} emissive={frameColor} emissiveIntensity={isHovered ? 1.5 : 0.2} />
+             </mesh>
+             {/* Caption plaque under the inspected photo (DOM text keeps Chinese glyphs crisp) */}
+             {inspected && (
+                 <Html position={[0, -0.62, 0]} center zIndexRange={[30, 0]} style={{ pointerEvents: 'none' }}>
+                     <div className="caption-plaque min-w-[12rem] max-w-[24rem] text-center bg-black/60 border border-yellow-500/40 rounded-xl px-5 py-2 backdrop-blur-sm shadow-[0_0_20px_rgba(212,175,55,0.35)]">
+                         {photo.caption && (
+                             <p className="font-festive text-2xl text-amber-100 leading-snug">{photo.caption}</p>
+                         )}
+                         <p className="font-festive text-sm text-yellow-400/80 tracking-widest">{formatPhotoDate(photo, locale)}</p>
+                     </div>
+                 </Html>
+             )}
+        </group>
+    )
+}
+
+// Walks up from a raycast hit to the SinglePhoto that owns it
+const findPhotoIndex = (object: THREE.Object3D | null): number | null => {
+    for (let o = object; o; o = o.parent) {
+        if (typeof o.userData.photoIndex === 'number') return o.userData.photoIndex;
+    }
+    return null;
+};
+
+const PhotoCollection: React.FC<{ 
+    mode: AppMode; 
+    photos: PhotoItem[]; 
+    activeIndex: number; 
+    handCursor: { x: number; y: number } | null;
+    frameColor: string;
+    locale: Locale;
+    seed: number;
+    field: HandField;
+    atlas: PhotoAtlas | null;
+    onSelect: (index: number) => void;
+    onHover: (index: number | null) => void 
+}> = ({ mode, photos, activeIndex, handCursor, frameColor, locale, seed, field, atlas, onSelect, onHover }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const [hovered, setHovered] = useState<number | null>(null);
+    const hoveredRef = useRef<number | null>(null);
+    const raycaster = useMemo(() => new THREE.Raycaster(), []);
+    const ndc = useMemo(() => new THREE.Vector2(), []);
+    const totalCount = 1000 + photos.length; 
+    const featured = mode === AppMode.INSPECT || mode === AppMode.MOSAIC;
+    const activeId = featured && photos.length > 0 ? activeIndex % photos.length : null;
+
+    // One stream per slot, so adding a photo leaves the others where they were
+    const layouts = useMemo(() => photos.map((_, i) => {
+        const random = createRandom(seed, `photo:${i}`);
+        const { pos } = getTreeData(i * 10, totalCount, random); 
+        pos.multiplyScalar(1.3); 
+        return { treePos: pos.toArray(), initialPos: getScatterPos(random) };
+    }), [photos.length, seed]);
+
+    const updateHover = (index: number | null) => {
+        if (hoveredRef.current === index) return;
+        hoveredRef.current = index;
+        setHovered(index);
+        onHover(index);
+    };
+
+    // Hand cursor: cast a ray from the camera through the normalized hand position
+    useFrame(({ camera }) => {
+        if (!handCursor || !groupRef.current) return;
+        ndc.set(handCursor.x * 2 - 1, -(handCursor.y * 2 - 1));
+        raycaster.setFromCamera(ndc, camera);
+        const [hit] = raycaster.intersectObjects(groupRef.current.children, true);
+        updateHover(hit ? findPhotoIndex(hit.object) : null);
+    });
+
+    return (
+        <group ref={groupRef}>
+            {photos.map((photo, i) => (
+                <SinglePhoto 
+                    key={photo.id}
+                    id={i}
+                    photo={photo}
+                    atlas={atlas}
+                    treePos={layouts[i].treePos} 
+                    initialPos={layouts[i].initialPos}
+                    mode={mode}
+                    isActive={i === activeId}
+                    isHovered={i === hovered && i !== activeId}
+                    frameColor={frameColor}
+                    locale={locale}
+                    field={field}
+                    onSelect={() => onSelect(i)}
+                    onHover={(isOver) => updateHover(isOver ? i : (hoveredRef.current === i ? null : hoveredRef.current))}
+                />
+            ))}
+        </group>
+    )
+}
+
+// Small glowing marker that shows where the hand cursor points into the scene
+const HandCursor: React.FC<{ position: { x: number; y: number } | null }> = ({ position }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    const ndc = useMemo(() => new THREE.Vector2(), []);
+    const point = useMemo(() => new THREE.Vector3(), []);
+
+    useFrame(({ camera }) => {
+        if (!ref.current || !position) return;
+        ndc.set(position.x * 2 - 1, -(position.y * 2 - 1));
+        point.set(ndc.x, ndc.y, 0.5).unproject(camera).sub(camera.position).normalize();
+        ref.current.position.copy(camera.position).addScaledVector(point, 20);
+    });
+
+    if (!position) return null;
+    return (
+        <mesh ref={ref}>
+            <sphereGeometry args={[0.15, 16, 16]} />
+            <meshBasicMaterial color={[8, 6, 2]} toneMapped={false} />
+        </mesh>
+    );
+};
+
+const ParticleSystem: React.FC<{ 
+    mode: AppMode; 
+    photos: PhotoItem[]; 
+    activePhoto: number; 
+    handCursor: { x: number; y: number } | null;
+    // What the hand does to the scattered particles, if anything
+    handForce: HandForce | null;
+    onPhotoSelect: (index: number) => void;
+    onPhotoHover: (index: number | null) => void;
+    quality: QualityPreset;
+    shape: ShapeDefinition;
+    theme: Theme;
+    locale: Locale;
+    seed: number;
+    getAudioLevel: () => number 
+}> = ({ mode, photos, activePhoto, handCursor, handForce, onPhotoSelect, onPhotoHover, quality, shape, theme, locale, seed, getAudioLevel }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const field = useMemo(createHandField, []);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const ndc = useMemo(() => new THREE.Vector2(), []);
+  const atlas = usePhotoAtlas(photos);
+  // Foliage fills the first mosaic slots, ribbons the rest
+  const mosaic = useMemo(() => createMosaicGrid(quality.foliage + quality.ribbons, createRandom(seed, 'mosaic')), [quality.foliage, quality.ribbons, seed]);
+  const mosaicPhoto = photos.length > 0 ? photos[activePhoto % photos.length].id : null;
+  const pixels = useMemo(() => (atlas && mosaicPhoto ? sampleAtlas(atlas, mosaicPhoto, mosaic.side) : null), [atlas, mosaicPhoto, mosaic.side]);
+  const target = useMemo<HandFieldTarget>(() => ({ force: 'repel', point: new THREE.Vector3(), axis: new THREE.Vector3() }), []);
+
+  // The hand only pushes particles around while they are scattered
+  useFrame(({ camera }, delta) => {
+    const group = groupRef.current;
+    const active = mode === AppMode.SCATTER && handCursor !== null && handForce !== null && group !== null;
+    if (active) {
+      ndc.set(handCursor.x * 2 - 1, -(handCursor.y * 2 - 1));
+      raycaster.setFromCamera(ndc, camera);
+      const { ray } = raycaster;
+      // The ray's point nearest the tree, and its direction, in the group's own coordinates
+      ray.closestPointToPoint(group.getWorldPosition(target.axis), target.point);
+      target.axis.copy(target.point).add(ray.direction);
+      group.worldToLocal(target.point);
+      group.worldToLocal(target.axis).sub(target.point).normalize();
+      target.force = handForce;
+    }
+    stepHandField(field, active ? target : null, delta);
+  });
+
+  return (
+    <group ref={groupRef}>
+      <TreeFoliage mode={mode} shape={shape} count={quality.foliage} theme={theme} seed={seed} field={field} mosaic={mosaic} pixels={pixels} />
+      <TreeRibbons 
+        mode={mode} 
+        shape={shape} 
+        count={quality.ribbons} 
+        theme={theme} 
+        seed={seed} 
+        field={field} 
+        mosaic={mosaic} 
+        mosaicSlot={quality.foliage} 
+        pixels={pixels} 
+        getAudioLevel={getAudioLevel} 
+      />
+      <PhotoCollection 
+        mode={mode} 
+        photos={photos} 
+        activeIndex={activePhoto} 
+        handCursor={handCursor}
+        frameColor={theme.frame}
+        locale={locale}
+        seed={seed}
+        field={field}
+        atlas={atlas}
+        onSelect={onPhotoSelect} 
+        onHover={onPhotoHover} 
+      />
+    </group>
+  );
+};
+
+// --- WEATHER ---
+
+// Steps the weather, drives both snow materials and rocks the tree when it is shaken
+const Snowfall: React.FC<{
+    weather: WeatherState;
+    uniforms: SnowUniforms;
+    enabled: boolean;
+    // Whether the particles stand as a tree the snow can settle on
+    settling: boolean;
+    shakes: number;
+    handCursor: { x: number; y: number } | null;
+    treeRef: React.RefObject<THREE.Group>;
+    count: number;
+    seed: number;
+}> = ({ weather, uniforms, enabled, settling, shakes, handCursor, treeRef, count, seed }) => {
+    const material = useMemo(() => createSnowfallMaterial(uniforms), [uniforms]);
+    useEffect(() => () => material.dispose(), [material]);
+    const flakes = useMemo(() => createSnowfall(count, createRandom(seed, 'snowfall')), [count, seed]);
+    const axes = useMemo(() => ({ right: new THREE.Vector3(), up: new THREE.Vector3() }), []);
+
+    // Snow can't stay on a tree that comes apart
+    useEffect(() => {
+        if (!settling) shedSnow(weather);
+    }, [settling]);
+
+    useEffect(() => {
+        if (shakes > 0) shakeTree(weather);
+    }, [shakes]);
+
+    useFrame(({ camera, clock }, delta) => {
+        axes.right.setFromMatrixColumn(camera.matrixWorld, 0);
+        axes.up.setFromMatrixColumn(camera.matrixWorld, 1);
+        stepWeather(weather, { snowing: enabled, settling, hand: handCursor, ...axes }, delta);
+
+        uniforms.uTime.value = clock.getElapsedTime();
+        uniforms.uDrift.value.copy(weather.drift);
+        uniforms.uDensity.value = THREE.MathUtils.lerp(uniforms.uDensity.value, enabled ? 1 : 0, Math.min(1, delta * 0.8));
+        uniforms.uDepth.value = weather.depth;
+        uniforms.uBurst.value = weather.burst;
+        uniforms.uBurstAge.value = Math.min(weather.burstAge, 10);
+
+        if (treeRef.current) {
+            treeRef.current.rotation.z = shakeWobble(weather.shakeAge);
+            treeRef.current.rotation.x = shakeWobble(weather.shakeAge + 0.1) * 0.5;
+        }
+    });
+
+    // The shader places every flake, so skip culling
+    return (
+        <instancedMesh args={[undefined, material, count]} frustumCulled={false}>
+            <octahedronGeometry args={[1, 0]}>
+                <instancedBufferAttribute attach="attributes-aStart" args={[flakes.positions, 3]} />
+                <instancedBufferAttribute attach="attributes-aSpeed" args={[flakes.speeds, 1]} />
+                <instancedBufferAttribute attach="attributes-aPhase" args={[flakes.phases, 1]} />
+                <instancedBufferAttribute attach="attributes-aShow" args={[flakes.shows, 1]} />
+            </octahedronGeometry>
+        </instancedMesh>
+    );
+};
+
+// The snow settled on the cone; Snowfall decides how much of it shows
+const SnowCover: React.FC<{ uniforms: SnowUniforms; count: number; seed: number }> = ({ uniforms, count, seed }) => {
+    const material = useMemo(() => createSnowCoverMaterial(uniforms), [uniforms]);
+    useEffect(() => () => material.dispose(), [material]);
+    const cover = useMemo(() => createSnowCover(count, createRandom(seed, 'snowCover')), [count, seed]);
+
+    return (
+        <instancedMesh args={[undefined, material, count]} frustumCulled={false}>
+            <icosahedronGeometry args={[1, 0]}>
+                <instancedBufferAttribute attach="attributes-aCover" args={[cover.positions, 3]} />
+                <instancedBufferAttribute attach="attributes-aNormal" args={[cover.normals, 3]} />
+                <instancedBufferAttribute attach="attributes-aReveal" args={[cover.reveal, 1]} />
+                <instancedBufferAttribute attach="attributes-aSize" args={[cover.sizes, 1]} />
+            </icosahedronGeometry>
+        </instancedMesh>
+    );
+};
+
+// --- ORNAMENTS ---
+
+const OrnamentModel: React.FC<{ kind: OrnamentKind; color: string; photo: PhotoItem | null }> = ({ kind, color, photo }) => {
+    const texture = useFullResTexture(kind === 'photo' && photo ? photo.thumbUrl : null);
+
+    switch (kind) {
+        case 'bauble':
+            return (
+                <group>
+                    <mesh>
+                        <sphereGeometry args={[0.35, 24, 16]} />
+                        <meshStandardMaterial color={color} metalness={0.8} roughness={0.15} emissive={color} emissiveIntensity={0.3} />
+                    </mesh>
+                    <mesh position={[0, 0.37, 0]}>
+                        <cylinderGeometry args={[0.08, 0.08, 0.1, 12]} />
+                        <meshStandardMaterial color="#d4af37" metalness={1} roughness={0.3} />
+                    </mesh>
+                </group>
+            );
+        case 'bell':
+            return (
+                <group>
+                    <mesh>
+                        <cylinderGeometry args={[0.1, 0.32, 0.45, 20, 1, true]} />
+                        <meshStandardMaterial color={color} metalness={1} roughness={0.25} emissive={color} emissiveIntensity={0.3} side={THREE.DoubleSide} />
+                    </mesh>
+                    <mesh position={[0, -0.24, 0]}>
+                        <sphereGeometry args={[0.07, 12, 8]} />
+                        <meshStandardMaterial color={color} metalness={1} roughness={0.25} />
+                    </mesh>
+                </group>
+            );
+        case 'candyCane':
+            return (
+                <group rotation={[0, 0, 0.2]}>
+                    <mesh>
+                        <cylinderGeometry args={[0.05, 0.05, 0.7, 12]} />
+                        <meshStandardMaterial color={color} roughness={0.4} emissive={color} emissiveIntensity={0.3} />
+                    </mesh>
+                    <mesh position={[0.12, 0.35, 0]}>
+                        <torusGeometry args={[0.12, 0.05, 8, 16, Math.PI]} />
+                        <meshStandardMaterial color="#ffffff" roughness={0.4} />
+                    </mesh>
+                </group>
+            );
+        case 'light':
+            // Bright enough to bloom
+            return (
+                <mesh>
+                    <sphereGeometry args={[0.15, 16, 12]} />
+                    <meshBasicMaterial color={toGlow({ color, intensity: 6 })} toneMapped={false} />
+                </mesh>
+            );
+        case 'photo':
+            return (
+                <group>
+                    <mesh>
+                        <circleGeometry args={[0.42, 32]} />
+                        <meshBasicMaterial map={texture} color={texture ? '#ffffff' : '#333333'} toneMapped={false} />
+                    </mesh>
+                    <mesh position={[0, 0, -0.02]}>
+                        <circleGeometry args={[0.5, 32]} />
+                        <meshStandardMaterial color={color} metalness={1} roughness={0.2} emissive={color} emissiveIntensity={0.3} />
+                    </mesh>
+                </group>
+            );
+    }
+};
+
+// Turns +z (the front of every model) away from the trunk
+const facingOut = (position: [number, number, number]): [number, number, number] => [0, Math.atan2(position[0], position[2]), 0];
+
+// Hung ornaments, and the held one where it would go. Shrinks into the trunk
+// when the particles form anything but the standing tree.
+const Ornaments: React.FC<{
+    ornaments: Ornament[];
+    photos: PhotoItem[];
+    activePhoto: number;
+    visible: boolean;
+    decorating: boolean;
+    held: OrnamentKind | null;
+    handCursor: { x: number; y: number } | null;
+    onHover: (point: THREE.Vector3 | null) => void;
+    onDrop: (point: THREE.Vector3) => void;
+}> = ({ ornaments, photos, activePhoto, visible, decorating, held, handCursor, onHover, onDrop }) => {
+    const ref = useRef<THREE.Group>(null);
+    const ghostRef = useRef<THREE.Group>(null);
+    const raycaster = useMemo(() => new THREE.Raycaster(), []);
+    const ndc = useMemo(() => new THREE.Vector2(), []);
+    const point = useMemo(() => new THREE.Vector3(), []);
+    const local = useMemo(() => new THREE.Ray(), []);
+    const pointerAt = useRef<THREE.Vector3 | null>(null);
+
+    // The ray in tree-group coordinates, dropped onto the tree
+    const treePoint = (ray: THREE.Ray) => {
+        const group = ref.current!;
+        local.origin.copy(ray.origin);
+        local.direction.copy(ray.origin).add(ray.direction);
+        group.worldToLocal(local.origin);
+        group.worldToLocal(local.direction).sub(local.origin).normalize();
+        return dropOnTree(local, point);
+    };
+
+    useEffect(() => {
+        if (!decorating) onHover(null);
+    }, [decorating]);
+
+    useFrame(({ camera, clock }, delta) => {
+        const group = ref.current;
+        if (!group) return;
+        const scale = THREE.MathUtils.lerp(group.scale.x, visible ? 1 : 0, Math.min(1, delta * 3));
+        group.scale.setScalar(scale);
+        group.visible = scale > 0.01;
+
+        // A visible hand aims with its cursor; a mouse by hovering the tree
+        let target: THREE.Vector3 | null = null;
+        if (decorating && handCursor) {
+            ndc.set(handCursor.x * 2 - 1, -(handCursor.y * 2 - 1));
+            raycaster.setFromCamera(ndc, camera);
+            target = treePoint(raycaster.ray);
+        } else if (decorating) {
+            target = pointerAt.current;
+        }
+        if (decorating && handCursor) onHover(target);
+
+        const ghost = ghostRef.current;
+        if (ghost) {
+            ghost.visible = target !== null;
+            if (target) {
+                ghost.position.copy(target);
+                ghost.rotation.set(...facingOut(target.toArray()));
+                ghost.scale.setScalar(1 + Math.sin(clock.getElapsedTime() * 6) * 0.15);
+            }
+        }
+    });
+
+    return (
+        <group ref={ref}>
+            {ornaments.map((ornament, i) => (
+                <group key={i} name="ornament" position={ornament.position} rotation={facingOut(ornament.position)}>
+                    <OrnamentModel kind={ornament.kind} color={ornament.color} photo={ornamentPhoto(ornament, photos)} />
+                </group>
+            ))}
+            {decorating && held && (
+                <group ref={ghostRef} visible={false}>
+                    <OrnamentModel kind={held} color={ornamentColor(held, ornaments.length)} photo={photos.length > 0 ? photos[activePhoto % photos.length] : null} />
+                </group>
+            )}
+            {decorating && (
+                // Invisible catcher around the tree for mouse and touch
+                <mesh 
+                    visible={false}
+                    onPointerMove={(e) => {
+                        pointerAt.current = treePoint(e.ray).clone();
+                        onHover(pointerAt.current);
+                    }}
+                    onPointerOut={() => {
+                        pointerAt.current = null;
+                        if (!handCursor) onHover(null);
+                    }}
+                    onClick={(e) => {
+                        if (e.delta > 6) return;
+                        e.stopPropagation();
+                        onDrop(treePoint(e.ray).clone());
+                    }}
+                >
+                    <cylinderGeometry args={[TREE_RADIUS + 1, TREE_RADIUS + 1, TREE_HEIGHT + 1, 24]} />
+                </mesh>
+            )}
+        </group>
+    );
+};
+
+// --- EXPERIENCE (3D SCENE) ---
+
+// Shrinks away when the particles form something other than a tree
+const StarShape: React.FC<{ visible: boolean; colors: Theme['star'] }> = ({ visible, colors }) => {
+    const ref = useRef<THREE.Group>(null);
+
+    useFrame((_, delta) => {
+        if (!ref.current) return;
+        const scale = THREE.MathUtils.lerp(ref.current.scale.x, visible ? 1.2 : 0, Math.min(1, delta * 3));
+        ref.current.scale.setScalar(scale);
+        ref.current.visible = scale > 0.01;
+    });
+
+    return (
+        <group ref={ref} scale={1.2}>
+            <mesh>
+                <octahedronGeometry args={[1, 0]} />
+                <meshBasicMaterial color={toGlow(colors.core)} toneMapped={false} />
+            </mesh>
+            <mesh rotation={[0, Math.PI/4, 0]} scale={1.4}>
+                 <octahedronGeometry args={[0.8, 0]} />
+                 <meshBasicMaterial color={toGlow(colors.halo)} toneMapped={false} />
+            </mesh>
+            <pointLight distance={25} intensity={100} color={colors.light} decay={2} />
+        </group>
+    )
+}
+
+// Drags and remote cursors have no "hand lost": they keep steering this long after their last move
+const STEER_HOLD_SECONDS = 1.5;
+
+const CameraRig: React.FC<{ 
+    mode: AppMode; 
+    zoom: number; 
+    activePhoto: number; 
+    photoCount: number;
+    handPos: { x: number; y: number };
+    handCursor: { x: number; y: number } | null;
+    handSize: number | null;
+}> = ({ mode, zoom, activePhoto, photoCount, handPos, handCursor, handSize }) => {
+    const sweep = useRef(0);
+    const swing = useRef(0);
+    const prevPhoto = useRef(activePhoto);
+    const lookTarget = useMemo(() => new THREE.Vector3(), []);
+    const orbit = useMemo(() => createOrbitController(), []);
+    const lastPos = useRef(handPos);
+    const movedAt = useRef(-Infinity);
+
+    // Paging in INSPECT swings the camera sideways in the direction of travel, then settles
+    useEffect(() => {
+        if (mode === AppMode.INSPECT && photoCount > 1 && prevPhoto.current !== activePhoto) {
+            const forward = (activePhoto - prevPhoto.current + photoCount) % photoCount;
+            sweep.current = forward <= photoCount / 2 ? 6 : -6;
+        }
+        prevPhoto.current = activePhoto;
+    }, [activePhoto, mode, photoCount]);
+
+    useFrame(({ camera, clock }, delta) => {
+        const now = clock.getElapsedTime();
+        if (handPos.x !== lastPos.current.x || handPos.y !== lastPos.current.y) movedAt.current = now;
+        lastPos.current = handPos;
+
+        // A visible hand steers even while holding still; its palm size zooms.
+        // Two-hand spread / pinch-zoom sets the distance it zooms from.
+        const steering = handCursor !== null || now - movedAt.current < STEER_HOLD_SECONDS;
+        // A featured photo holds the camera in front of it
+        const focus = mode === AppMode.INSPECT ? INSPECT_POSITION : mode === AppMode.MOSAIC ? MOSAIC_POSITION : null;
+        const pose = orbit.update(
+            steering ? { x: handPos.x, y: handPos.y, size: handCursor ? handSize : null } : null,
+            // Decorating, the hand aims ornaments; the tree must hold still under it
+            { distance: CAMERA_DISTANCE / zoom, centered: focus !== null, held: mode === AppMode.DECORATE },
+            delta,
+        );
+
+        sweep.current = THREE.MathUtils.lerp(sweep.current, 0, delta * 2);
+        swing.current = THREE.MathUtils.lerp(swing.current, sweep.current, delta * 4);
+        camera.position.setFromSphericalCoords(pose.distance, Math.PI / 2 - pose.elevation, pose.azimuth + swing.current / CAMERA_DISTANCE);
+
+        lookTarget.lerp(focus ?? ORIGIN, delta * 3);
+        camera.lookAt(lookTarget);
+    });
+
+    return null;
+};
+
+// --- SCENE CAPTURE ---
+
+const SceneCapture: React.FC<{ 
+    handleRef: React.MutableRefObject<SceneCaptureHandle | null>; 
+    composerRef: React.RefObject<PostComposer> 
+}> = ({ handleRef, composerRef }) => {
+    const { gl, get, setDpr } = useThree();
+    const pendingRef = useRef<{
+        options: SnapshotOptions;
+        restoreDpr: number;
+        framesLeft: number;
+        resolve: (blob: Blob) => void;
+        reject: (e: Error) => void;
+    } | null>(null);
+
+    useEffect(() => {
+        handleRef.current = {
+            getCanvas: () => gl.domElement,
+            snapshot: (options) => new Promise((resolve, reject) => {
+                if (pendingRef.current) return reject(new Error(messages().card.busy));
+                const { size, viewport } = get();
+                // Render the drawing buffer (and the bloom buffers with it) large enough for the card
+                const wanted = options.width && options.height
+                    ? Math.max(options.width / size.width, options.height / size.height)
+                    : viewport.dpr;
+                const limit = Math.min(MAX_CAPTURE_DPR, gl.capabilities.maxTextureSize / Math.max(size.width, size.height));
+                setDpr(Math.min(Math.max(wanted, viewport.dpr), limit));
+                composerRef.current?.setSize(size.width, size.height);
+                // Two frames lets the bloom mip chain settle at the new size
+                pendingRef.current = { options, restoreDpr: viewport.dpr, framesLeft: 2, resolve, reject };
+            }),
+        };
+        return () => { handleRef.current = null; };
+    }, [gl]);
+
+    // Runs after the composer (priority 1) has drawn the frame, before the browser clears it
+    useFrame(() => {
+        const pending = pendingRef.current;
+        if (!pending || --pending.framesLeft > 0) return;
+        pendingRef.current = null;
+
+        const source = gl.domElement;
+        const width = pending.options.width ?? source.width;
+        const height = pending.options.height ?? source.height;
+        // composeCard copies the frame synchronously, before its first await
+        const card = composeCard(source, width, height, pending.options.overlayText);
+
+        setDpr(pending.restoreDpr);
+        const { size } = get();
+        composerRef.current?.setSize(size.width, size.height);
+        card.then(canvasToBlob).then(pending.resolve, pending.reject);
+    }, 2);
+
+    return null;
+};
+
+export const Experience: React.FC<{ 
+    mode: AppMode; 
+    photos: PhotoItem[]; 
+    activePhoto: number; 
+    handPos: { x: number; y: number }; 
+    handCursor: { x: number; y: number } | null;
+    handSize: number | null;
+    handForce: HandForce | null;
+    zoom: number;
+    onPhotoSelect: (index: number) => void;
+    onPhotoHover: (index: number | null) => void;
+    captureRef: React.MutableRefObject<SceneCaptureHandle | null>;
+    quality: QualityPreset;
+    shape: ShapeDefinition;
+    theme: Theme;
+    locale: Locale;
+    // Layout seed, so a shared card builds the same scene everywhere
+    seed: number;
+    snowing: boolean;
+    // Counts the shakes asked for; every increment shakes the tree once
+    shakes: number;
+    ornaments: Ornament[];
+    // The ornament picked from the palette while decorating, previewed under the cursor
+    heldOrnament: OrnamentKind | null;
+    // Where on the tree the cursor points while decorating, in tree-group coordinates
+    onTreeHover: (point: THREE.Vector3 | null) => void;
+    onTreeClick: (point: THREE.Vector3) => void;
+    getAudioLevel: () => number;
+    // Only set in auto mode; called when frame times call for another tier
+    onQualityStep?: (direction: 1 | -1) => void 
+}> = ({ mode, photos, activePhoto, handPos, handCursor, handSize, handForce, zoom, onPhotoSelect, onPhotoHover, captureRef, quality, shape, theme, locale, seed, snowing, shakes, ornaments, heldOrnament, onTreeHover, onTreeClick, getAudioLevel, onQualityStep }) => {
+  const composerRef = useRef<PostComposer>(null);
+  // Built here instead of through <Bloom>, whose ref is typed as the effect class
+  const bloom = useMemo(() => new BloomEffect({
+    blendFunction: BlendFunction.ADD,
+    luminanceThreshold: 1.1,
+    mipmapBlur: true,
+    levels: quality.bloomLevels,
+    intensity: BLOOM_INTENSITY,
+    radius: 0.6,
+  }), [quality.bloomLevels]);
+  useEffect(() => () => bloom.dispose(), [bloom]);
+  const treeRef = useRef<THREE.Group>(null);
+  const weather = useMemo(createWeather, []);
+  const snow = useMemo(() => createSnowUniforms(SNOW_BOX), []);
+  // The particles stand as the tree, for snow to settle on and ornaments to hang from
+  const standing = (mode === AppMode.TREE || mode === AppMode.DECORATE) && shape.id === 'tree';
+
+  // The glow breathes with the music
+  useFrame(() => {
+    bloom.intensity = BLOOM_INTENSITY + getAudioLevel() * 1.5;
+  });
+
+  return (
+    <>
+      <color attach="background" args={[theme.background]} /> 
+      
+      <ambientLight intensity={1.0} color={theme.lights.ambient} /> 
+      <spotLight position={[10, 20, 20]} angle={0.5} penumbra={1} intensity={500} color={theme.lights.spot} />
+      <pointLight position={[-10, 5, -10]} intensity={200} color={theme.lights.point} />
+
+      <Environment preset={theme.environment} background={false} />
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={0.5} />
+      <Sparkles count={quality.sparkles} scale={45} size={8} speed={0.1} opacity={0.5} color={theme.sparkles} />
+      <Snowfall 
+        weather={weather} 
+        uniforms={snow} 
+        enabled={snowing} 
+        settling={standing} 
+        shakes={shakes} 
+        handCursor={handCursor} 
+        treeRef={treeRef} 
+        count={quality.snow} 
+        seed={seed} 
+      />
+
+      {/* Pivots on the base of the trunk, so a shake rocks the tree rather than spinning it */}
+      <group ref={treeRef} position={[0, -TREE_HEIGHT / 2, 0]}>
+        <group position={[0, TREE_HEIGHT / 2, 0]}>
+          <ParticleSystem 
+            mode={mode} 
+            photos={photos} 
+            activePhoto={activePhoto} 
+            handCursor={handCursor}
+            handForce={handForce}
+            onPhotoSelect={onPhotoSelect} 
+            onPhotoHover={onPhotoHover} 
+            quality={quality}
+            shape={shape}
+            theme={theme}
+            locale={locale}
+            seed={seed}
+            getAudioLevel={getAudioLevel}
+          />
+          <SnowCover uniforms={snow} count={quality.snow} seed={seed} />
+          <Ornaments 
+            ornaments={ornaments} 
+            photos={photos} 
+            activePhoto={activePhoto} 
+            visible={standing} 
+            decorating={mode === AppMode.DECORATE} 
+            held={heldOrnament} 
+            handCursor={handCursor} 
+            onHover={onTreeHover} 
+            onDrop={onTreeClick} 
+          />
+          <group position={[0, 9.2, 0]}>
+             <StarShape visible={shape.id === 'tree' && mode !== AppMode.MOSAIC} colors={theme.star} />
+          </group>
+        </group>
+      </group>
+
+      <CameraRig 
+        mode={mode} 
+        zoom={zoom} 
+        activePhoto={activePhoto} 
+        photoCount={photos.length} 
+        handPos={handPos} 
+        handCursor={handCursor} 
+        handSize={handSize} 
+      />
+      <HandCursor position={handCursor} />
+
+      {onQualityStep && (
+          <PerformanceMonitor 
+            flipflops={3}
+            onDecline={() => onQualityStep(-1)}
+            onIncline={() => onQualityStep(1)}
+          />
+      )}
+
+      <EffectComposer ref={composerRef} disableNormalPass multisampling={quality.multisampling}>
+        <primitive object={bloom} />
+        <ToneMapping mode={THREE.ACESFilmicToneMapping} />
+        {/* EffectComposer only accepts elements as children */}
+        {quality.vignette ? <Vignette eskil={false} offset={0.1} darkness={0.6} /> : <></>}
+      </EffectComposer>
+      <SceneCapture handleRef={captureRef} composerRef={composerRef} />
+    </>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { CATALOGS, LOCALES } from '../utils/i18n.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- LANGUAGE SWITCHER ---
+
+// Each language is listed in its own name, so it can be found from any locale
+export const LanguageSwitcher: React.FC<{ onPicked?: () => void }> = ({ onPicked }) => {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <div className="pointer-events-auto inline-flex items-center gap-1 bg-black/40 border border-white/20 rounded-full px-2 py-1 backdrop-blur-sm text-xs" title={t.toolbar.language}>
+            <span className="px-1">🌐</span>
+            {LOCALES.map(id => (
+                <button
+                    key={id}
+                    lang={id}
+                    onClick={() => {
+                        setLocale(id);
+                        onPicked?.();
+                    }}
+                    className={`px-2 py-1 rounded-full transition-colors ${
+                        locale === id ? 'bg-yellow-500/80 text-black font-bold' : 'text-white/70 hover:text-yellow-300'
+                    }`}
+                >
+                    {CATALOGS[id].languageName}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { PhotoItem } from '../types.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- PHOTO LIBRARY MANAGEMENT ---
+
+export const PhotoManager: React.FC<{
+    photos: PhotoItem[];
+    onMove: (id: string, offset: number) => void;
+    onRemove: (id: string) => void;
+    onEdit: (photo: PhotoItem) => void;
+    onClose: () => void;
+}> = ({ photos, onMove, onRemove, onEdit, onClose }) => {
+    const { t, format, locale } = useI18n();
+    return (
+        <div className="pointer-events-auto absolute bottom-32 right-6 z-50 w-80 max-h-[60vh] flex flex-col bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-festive text-amber-200">{format(t.library.title, { count: photos.length })}</h2>
+                <button onClick={onClose} className="text-white/60 hover:text-white text-lg px-2">✕</button>
+            </div>
+
+            {photos.length === 0 && (
+                <p className="text-white/50 text-sm text-center py-6">{t.library.empty}</p>
+            )}
+
+            <ul className="space-y-2 overflow-y-auto">
+                {photos.map((photo, i) => (
+                    <li key={photo.id} className="flex items-center gap-3 bg-white/5 rounded-lg p-2">
+                        <img src={photo.url} alt={photo.name} className="w-12 h-12 object-cover rounded-md border border-yellow-500/40" />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm truncate">{photo.caption || photo.name}</p>
+                            <p className="text-xs text-white/40">{new Date(photo.date ?? photo.dateAdded).toLocaleDateString(locale)}</p>
+                        </div>
+                        <div className="flex flex-col">
+                            <button
+                                onClick={() => onMove(photo.id, -1)}
+                                disabled={i === 0}
+                                className="text-xs px-1 text-white/60 hover:text-yellow-300 disabled:opacity-20"
+                                title={t.library.moveUp}
+                            >▲</button>
+                            <button
+                                onClick={() => onMove(photo.id, 1)}
+                                disabled={i === photos.length - 1}
+                                className="text-xs px-1 text-white/60 hover:text-yellow-300 disabled:opacity-20"
+                                title={t.library.moveDown}
+                            >▼</button>
+                        </div>
+                        <button
+                            onClick={() => onEdit(photo)}
+                            className="text-white/60 hover:text-yellow-300 px-1"
+                            title={t.library.edit}
+                        >✏️</button>
+                        <button
+                            onClick={() => onRemove(photo.id)}
+                            className="text-red-400/80 hover:text-red-300 px-2"
+                            title={t.library.remove}
+                        >🗑</button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
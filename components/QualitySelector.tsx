@@ -0,0 +1,35 @@
+import React from 'react';
+import { QUALITY_TIERS, QualitySetting, QualityTier } from '../utils/quality.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- RENDER QUALITY SELECTOR ---
+
+export const QualitySelector: React.FC<{
+    setting: QualitySetting;
+    activeTier: QualityTier;
+    onChange: (setting: QualitySetting) => void;
+}> = ({ setting, activeTier, onChange }) => {
+    const { t, format } = useI18n();
+    const options: { id: QualitySetting; label: string }[] = [
+        // In auto mode, show which tier the monitor has settled on
+        { id: 'auto', label: setting === 'auto' ? format(t.quality.autoActive, { tier: t.quality.tiers[activeTier] }) : t.quality.auto },
+        ...QUALITY_TIERS.map(tier => ({ id: tier, label: t.quality.tiers[tier] })),
+    ];
+
+    return (
+        <div className="pointer-events-auto absolute top-6 left-6 flex items-center gap-1 bg-black/40 border border-white/20 rounded-full px-2 py-1 backdrop-blur-sm text-xs" title={t.quality.title}>
+            <span className="px-1 text-white/50">{t.quality.title}</span>
+            {options.map(o => (
+                <button
+                    key={o.id}
+                    onClick={() => onChange(o.id)}
+                    className={`px-2 py-1 rounded-full transition-colors ${
+                        setting === o.id ? 'bg-yellow-500/80 text-black font-bold' : 'text-white/70 hover:text-yellow-300'
+                    }`}
+                >
+                    {o.label}
+                </button>
+            ))}
+        </div>
+    );
+};
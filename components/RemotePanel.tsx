@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { controllerUrl, RemoteStatus } from '../services/remoteLink.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- PHONE REMOTE (display side) ---
+
+const STATUS_COLORS: Record<RemoteStatus, string> = {
+    connecting: 'bg-yellow-400 animate-pulse',
+    open: 'bg-green-400',
+    closed: 'bg-red-400',
+};
+
+export const RemotePanel: React.FC<{
+    enabled: boolean;
+    code: string;
+    status: RemoteStatus;
+    controllers: number;
+    onEnable: (enabled: boolean) => void;
+    onClose: () => void;
+}> = ({ enabled, code, status, controllers, onEnable, onClose }) => {
+    const { t, format } = useI18n();
+    const url = controllerUrl(code);
+    const [qr, setQr] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        QRCode.toDataURL(url, { margin: 1, width: 192 })
+            .then((dataUrl) => { if (!cancelled) setQr(dataUrl); })
+            .catch((e) => console.warn("Could not draw QR code", e));
+        return () => { cancelled = true; };
+    }, [url]);
+
+    return (
+        <div className="pointer-events-auto absolute top-20 right-6 z-50 w-80 bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-festive text-amber-200">{t.remote.title}</h2>
+                <button onClick={onClose} className="text-white/60 hover:text-white text-lg px-2">✕</button>
+            </div>
+
+            {enabled ? (
+                <>
+                    <p className="text-xs text-white/60 mb-2">{t.remote.scanHint}</p>
+                    <div className="flex items-center gap-3 mb-3">
+                        {qr && <img src={qr} alt="" className="w-32 h-32 rounded-lg bg-white" />}
+                        <div>
+                            <p className="text-xs text-white/50">{t.remote.code}</p>
+                            <p className="text-3xl font-mono font-bold tracking-[0.3em] text-yellow-300">{code}</p>
+                        </div>
+                    </div>
+                    <p className="text-xs text-white/60 break-all mb-3">{url}</p>
+                    <p className="flex items-center gap-2 text-sm mb-3">
+                        <span className={`w-2 h-2 rounded-full ${STATUS_COLORS[status]}`} />
+                        {status === 'open' ? format(t.remote.controllers, { count: controllers }) : t.remote.status[status]}
+                    </p>
+                    <button
+                        onClick={() => onEnable(false)}
+                        className="w-full py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400"
+                    >
+                        {t.remote.disable}
+                    </button>
+                </>
+            ) : (
+                <button
+                    onClick={() => onEnable(true)}
+                    className="w-full py-2 rounded-full text-sm bg-gradient-to-r from-red-800 to-red-600 hover:from-red-600 hover:to-red-400 border border-yellow-500/30"
+                >
+                    {t.remote.enable}
+                </button>
+            )}
+            <p className="mt-3 text-xs text-white/40">{t.remote.relayHint}</p>
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { ShapeDefinition } from '../utils/shapeLayouts.ts';
+import { createImageShape, createModelShape, createTextShape } from '../services/shapeSources.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- SHAPE PICKER ---
+
+export const ShapePanel: React.FC<{
+    shapes: ShapeDefinition[];
+    activeId: string;
+    onSelect: (id: string) => void;
+    onAdd: (shape: ShapeDefinition) => void;
+    onClose: () => void;
+}> = ({ shapes, activeId, onSelect, onAdd, onClose }) => {
+    const { t } = useI18n();
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const modelInputRef = useRef<HTMLInputElement>(null);
+    const [text, setText] = useState(t.shapes.defaultText);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const build = async (create: () => Promise<ShapeDefinition>) => {
+        setError(null);
+        setBusy(true);
+        try {
+            onAdd(await create());
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleFile = (create: (file: File) => Promise<ShapeDefinition>) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow picking the same file again later
+        e.target.value = '';
+        if (file) build(() => create(file));
+    };
+
+    return (
+        <div className="pointer-events-auto absolute top-20 right-6 z-50 w-80 bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-festive text-amber-200">{t.shapes.title}</h2>
+                <button onClick={onClose} className="text-white/60 hover:text-white text-lg px-2">✕</button>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 mb-4">
+                {shapes.map(shape => (
+                    <button
+                        key={shape.id}
+                        onClick={() => onSelect(shape.id)}
+                        className={`flex flex-col items-center rounded-lg py-2 border transition-colors ${
+                            shape.id === activeId ? 'border-yellow-400 bg-yellow-500/20' : 'border-white/10 bg-white/5 hover:border-yellow-400/60'
+                        }`}
+                    >
+                        <span className="text-2xl">{shape.icon}</span>
+                        <span className="text-xs text-white/70 mt-1 truncate max-w-full px-1">{t.shapes.names[shape.id] ?? shape.label}</span>
+                    </button>
+                ))}
+            </div>
+
+            <label className="block text-sm text-white/70 mb-1">{t.shapes.text}</label>
+            <div className="flex gap-2 mb-3">
+                <input
+                    type="text"
+                    value={text}
+                    maxLength={20}
+                    onChange={(e) => setText(e.target.value)}
+                    className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-md px-2 py-1 text-sm font-festive focus:outline-none focus:border-yellow-400"
+                />
+                <button
+                    onClick={() => build(() => createTextShape(text))}
+                    disabled={busy}
+                    className="px-3 rounded-md bg-red-700 hover:bg-red-600 border border-yellow-500/30 text-sm disabled:opacity-40"
+                >
+                    {t.shapes.generate}
+                </button>
+            </div>
+
+            <input type="file" accept="image/*" ref={imageInputRef} className="hidden" onChange={handleFile(createImageShape)} />
+            <input type="file" accept=".glb,.gltf,model/gltf-binary,model/gltf+json" ref={modelInputRef} className="hidden" onChange={handleFile(createModelShape)} />
+            <div className="flex gap-2">
+                <button
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={busy}
+                    className="flex-1 py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400 disabled:opacity-40"
+                >
+                    {t.shapes.image}
+                </button>
+                <button
+                    onClick={() => modelInputRef.current?.click()}
+                    disabled={busy}
+                    className="flex-1 py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400 disabled:opacity-40"
+                >
+                    {t.shapes.model}
+                </button>
+            </div>
+
+            {busy && <p className="mt-3 text-xs text-amber-200 animate-pulse">{t.shapes.generating}</p>}
+            {error && <p className="mt-3 text-xs text-red-300">⚠️ {error}</p>}
+            <p className="mt-3 text-xs text-white/40">{t.shapes.hint}</p>
+        </div>
+    );
+};
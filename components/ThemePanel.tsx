@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { Theme } from '../utils/themes.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+// --- THEME PICKER ---
+
+const Swatches: React.FC<{ theme: Theme }> = ({ theme }) => (
+    <div className="flex -space-x-1">
+        {[theme.foliage.light, theme.ribbons[0].color, theme.ribbons[1].color, theme.frame].map((color, i) => (
+            <span key={i} className="w-4 h-4 rounded-full border border-black/40" style={{ backgroundColor: color }} />
+        ))}
+    </div>
+);
+
+export const ThemePanel: React.FC<{
+    themes: Theme[];
+    activeId: string;
+    onSelect: (id: string) => void;
+    onImport: (json: string) => void;
+    onExport: () => void;
+    onRemove: (id: string) => void;
+    isCustom: (id: string) => boolean;
+    onClose: () => void;
+}> = ({ themes, activeId, onSelect, onImport, onExport, onRemove, isCustom, onClose }) => {
+    const { t } = useI18n();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow picking the same file again later
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            onImport(await file.text());
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="pointer-events-auto absolute top-20 right-6 z-50 w-80 max-h-[70vh] flex flex-col bg-black/70 border border-yellow-500/30 rounded-2xl p-4 backdrop-blur-md text-white shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-festive text-amber-200">{t.themes.title}</h2>
+                <button onClick={onClose} className="text-white/60 hover:text-white text-lg px-2">✕</button>
+            </div>
+
+            <ul className="space-y-2 overflow-y-auto mb-4">
+                {themes.map(theme => (
+                    <li key={theme.id} className="flex items-center gap-2">
+                        <button
+                            onClick={() => onSelect(theme.id)}
+                            className={`flex-1 flex items-center justify-between rounded-lg px-3 py-2 border transition-colors ${
+                                theme.id === activeId ? 'border-yellow-400 bg-yellow-500/20' : 'border-white/10 bg-white/5 hover:border-yellow-400/60'
+                            }`}
+                        >
+                            <span className="font-festive">{t.themes.names[theme.id] ?? theme.name}</span>
+                            <Swatches theme={theme} />
+                        </button>
+                        {isCustom(theme.id) && (
+                            <button onClick={() => onRemove(theme.id)} className="text-red-400/80 hover:text-red-300 px-1" title={t.themes.remove}>🗑</button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            <input type="file" accept=".json,application/json" ref={fileInputRef} className="hidden" onChange={handleFile} />
+            <div className="flex gap-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex-1 py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400"
+                >
+                    {t.themes.import}
+                </button>
+                <button
+                    onClick={onExport}
+                    className="flex-1 py-2 rounded-full text-sm bg-white/10 hover:bg-white/20 border border-white/20 hover:border-yellow-400"
+                >
+                    {t.themes.export}
+                </button>
+            </div>
+            {error && <p className="mt-3 text-xs text-red-300">⚠️ {error}</p>}
+            <p className="mt-3 text-xs text-white/40">{t.themes.hint}</p>
+        </div>
+    );
+};
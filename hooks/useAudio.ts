@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { createAudioEngine, SoundEffect } from '../services/audioEngine.ts';
+import { BUILT_IN_TRACKS, renderTrack } from '../services/builtinTracks.ts';
+import { format, messages } from '../utils/i18n.ts';
+
+// ==========================================
+// AUDIO STATE
+// ==========================================
+
+export const CUSTOM_TRACK_ID = 'custom';
+
+export interface AudioSettings {
+  volume: number;
+  muted: boolean;
+  musicOn: boolean;
+  trackId: string;
+}
+
+const DEFAULT_AUDIO: AudioSettings = { volume: 0.7, muted: false, musicOn: true, trackId: BUILT_IN_TRACKS[0].id };
+
+const STORAGE_KEY = 'magic-tree:audio';
+
+const isBuiltIn = (trackId: string) => BUILT_IN_TRACKS.some(t => t.id === trackId);
+
+// `defaultTrack` is used until the visitor picks one, and whenever the saved track is gone
+const loadAudioSettings = (defaultTrack: string): AudioSettings => {
+  const defaults = { ...DEFAULT_AUDIO, trackId: defaultTrack };
+  try {
+    const settings = { ...defaults, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') };
+    // An uploaded track only lives for the session
+    if (!isBuiltIn(settings.trackId)) settings.trackId = defaultTrack;
+    return settings;
+  } catch (e) {
+    console.warn("Could not load audio settings, using defaults", e);
+    return defaults;
+  }
+};
+
+const saveAudioSettings = (settings: AudioSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save audio settings", e);
+  }
+};
+
+// `music` is the greeting's song: a bundled track id or an audio file URL
+export const useAudio = (music?: string) => {
+  const engine = useMemo(createAudioEngine, []);
+  const musicUrl = music && !isBuiltIn(music) ? music : null;
+  const [settings, setSettings] = useState<AudioSettings>(() =>
+    loadAudioSettings(musicUrl ? CUSTOM_TRACK_ID : music ?? DEFAULT_AUDIO.trackId));
+  const [customTrack, setCustomTrack] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [trackError, setTrackError] = useState<string | null>(null);
+
+  const update = useCallback((changes: Partial<AudioSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveAudioSettings(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => engine.setVolume(settings.volume), [settings.volume]);
+  useEffect(() => engine.setMuted(settings.muted), [settings.muted]);
+  useEffect(() => engine.setMusicPlaying(settings.musicOn), [settings.musicOn]);
+
+  // Bundled tracks are rendered when picked, then handed to the engine
+  useEffect(() => {
+    if (settings.trackId === CUSTOM_TRACK_ID) {
+      engine.setMusic(customTrack?.buffer ?? null);
+      return;
+    }
+    const track = BUILT_IN_TRACKS.find(t => t.id === settings.trackId) ?? BUILT_IN_TRACKS[0];
+    let cancelled = false;
+    renderTrack(track)
+      .then(buffer => { if (!cancelled) engine.setMusic(buffer); })
+      .catch(e => console.warn(`Could not render ${track.id}`, e));
+    return () => { cancelled = true; };
+  }, [settings.trackId, customTrack]);
+
+  // The greeting's own song stands in as the custom track until the visitor uploads one
+  useEffect(() => {
+    if (!musicUrl) return;
+    let cancelled = false;
+    fetch(musicUrl)
+      .then(response => {
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        return response.blob();
+      })
+      .then(blob => engine.decodeFile(new File([blob], musicUrl)))
+      .then(buffer => {
+        if (cancelled) return;
+        const name = decodeURIComponent(new URL(musicUrl, location.href).pathname.split('/').pop() || '').replace(/\.[^.]+$/, '');
+        // An empty name is shown as the locale's "our song"
+        setCustomTrack(prev => prev ?? { name, buffer });
+      })
+      .catch(e => console.warn(`Could not load greeting music ${musicUrl}`, e));
+    return () => { cancelled = true; };
+  }, [musicUrl]);
+
+  const loadTrackFile = useCallback(async (file: File) => {
+    setTrackError(null);
+    try {
+      const buffer = await engine.decodeFile(file);
+      setCustomTrack({ name: file.name.replace(/\.[^.]+$/, ''), buffer });
+      update({ trackId: CUSTOM_TRACK_ID, musicOn: true });
+    } catch (e) {
+      console.warn(`Could not decode ${file.name}`, e);
+      setTrackError(format(messages().audio.unplayable, { name: file.name }));
+    }
+  }, []);
+
+  return {
+    settings,
+    customTrackName: customTrack?.name ?? null,
+    trackError,
+    // Must be called from a click/tap handler
+    unlock: engine.unlock,
+    setVolume: (volume: number) => update({ volume, muted: false }),
+    toggleMute: () => update({ muted: !settings.muted }),
+    toggleMusic: useCallback(() => setSettings(prev => {
+      const next = { ...prev, musicOn: !prev.musicOn };
+      saveAudioSettings(next);
+      return next;
+    }), []),
+    selectTrack: (trackId: string) => update({ trackId, musicOn: true }),
+    loadTrackFile,
+    playEffect: useCallback((effect: SoundEffect) => engine.playEffect(effect), [engine]),
+    getLevel: engine.getLevel,
+  };
+};
@@ -0,0 +1,46 @@
+import React, { createContext, useContext, useLayoutEffect, useMemo, useState } from 'react';
+import { CATALOGS, FESTIVE_FONTS, format, loadLocale, Locale, saveLocale, setActiveLocale } from '../utils/i18n.ts';
+import { Messages } from '../locales/zh-CN.ts';
+
+// ==========================================
+// LOCALE CONTEXT
+// ==========================================
+
+interface I18nValue {
+  locale: Locale;
+  t: Messages;
+  format: typeof format;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  // Synchronous, so errors thrown during this render already use the new language
+  setActiveLocale(locale);
+
+  useLayoutEffect(() => {
+    document.documentElement.lang = locale;
+    // Read by the .font-festive class in index.html
+    document.documentElement.style.setProperty('--festive-font', FESTIVE_FONTS[locale]);
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    t: CATALOGS[locale],
+    format,
+    setLocale: (next) => {
+      saveLocale(next);
+      setLocaleState(next);
+    },
+  }), [locale]);
+
+  return React.createElement(I18nContext.Provider, { value }, children);
+};
+
+export const useI18n = () => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error("useI18n must be used inside <I18nProvider>");
+  return value;
+};
@@ -0,0 +1,124 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { AppMode, InputEvent, InputListener } from '../types.ts';
+
+// ==========================================
+// FALLBACK INPUT PROVIDERS
+// ==========================================
+// Keyboard, mouse and touch emit the same InputEvents as HandManager, so the
+// experience stays usable without a camera.
+
+// Keep the listener in a ref so providers don't re-subscribe on every render
+const useLatest = <T,>(value: T) => {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+};
+
+// --- KEYBOARD ---
+
+const KEY_BINDINGS: Record<string, InputEvent> = {
+  t: { source: 'keyboard', type: 'action', binding: { action: 'setMode', mode: AppMode.TREE } },
+  s: { source: 'keyboard', type: 'action', binding: { action: 'setMode', mode: AppMode.SCATTER } },
+  i: { source: 'keyboard', type: 'action', binding: { action: 'setMode', mode: AppMode.INSPECT } },
+  p: { source: 'keyboard', type: 'action', binding: { action: 'setMode', mode: AppMode.MOSAIC } },
+  d: { source: 'keyboard', type: 'action', binding: { action: 'setMode', mode: AppMode.DECORATE } },
+  c: { source: 'keyboard', type: 'action', binding: { action: 'cycleShape' } },
+  k: { source: 'keyboard', type: 'action', binding: { action: 'shakeTree' } },
+  z: { source: 'keyboard', type: 'action', binding: { action: 'undoOrnament' } },
+  m: { source: 'keyboard', type: 'action', binding: { action: 'toggleMusic' } },
+  ArrowRight: { source: 'keyboard', type: 'action', binding: { action: 'nextPhoto' } },
+  ArrowLeft: { source: 'keyboard', type: 'action', binding: { action: 'prevPhoto' } },
+  ArrowUp: { source: 'keyboard', type: 'zoom', factor: 1.1 },
+  ArrowDown: { source: 'keyboard', type: 'zoom', factor: 1 / 1.1 },
+};
+
+export const useKeyboardInput = (onInput: InputListener, enabled: boolean) => {
+  const listener = useLatest(onInput);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Don't hijack typing in form fields (captions, settings)
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      const event = KEY_BINDINGS[key];
+      if (!event) return;
+      e.preventDefault();
+      listener.current(event);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
+
+// --- MOUSE & TOUCH ---
+
+export const usePointerInput = (targetRef: RefObject<HTMLElement>, onInput: InputListener, enabled: boolean) => {
+  const listener = useLatest(onInput);
+
+  useEffect(() => {
+    const el = targetRef.current;
+    if (!enabled || !el) return;
+
+    const pointers = new Map<number, { x: number; y: number }>();
+    let lastPinchDist: number | null = null;
+
+    const toNormalized = (e: PointerEvent) => {
+      const rect = el.getBoundingClientRect();
+      return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    };
+
+    const pinchDistance = () => {
+      const [a, b] = Array.from(pointers.values());
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 2) lastPinchDist = pinchDistance();
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const source = e.pointerType === 'touch' ? 'touch' : 'pointer';
+
+      if (pointers.size === 2 && lastPinchDist) {
+        // Two fingers: pinch in to zoom out, spread apart to zoom in
+        const dist = pinchDistance();
+        listener.current({ source, type: 'zoom', factor: dist / lastPinchDist });
+        lastPinchDist = dist;
+      } else if (pointers.size === 1) {
+        // One finger / mouse drag: same parallax the hand position drives
+        listener.current({ source, type: 'cursor', position: toNormalized(e) });
+      }
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      if (pointers.size < 2) lastPinchDist = null;
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      listener.current({ source: 'pointer', type: 'zoom', factor: Math.exp(-e.deltaY * 0.001) });
+    };
+
+    el.addEventListener('pointerdown', onPointerDown);
+    el.addEventListener('pointermove', onPointerMove);
+    el.addEventListener('pointerup', onPointerUp);
+    el.addEventListener('pointercancel', onPointerUp);
+    el.addEventListener('wheel', onWheel, { passive: true });
+    return () => {
+      el.removeEventListener('pointerdown', onPointerDown);
+      el.removeEventListener('pointermove', onPointerMove);
+      el.removeEventListener('pointerup', onPointerUp);
+      el.removeEventListener('pointercancel', onPointerUp);
+      el.removeEventListener('wheel', onWheel);
+    };
+  }, [enabled, targetRef]);
+};
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { PhotoItem } from '../types.ts';
+
+// ==========================================
+// PHOTO THUMBNAIL ATLAS
+// ==========================================
+// All tree/scatter photos sample one shared low-res texture, so a dozen photos
+// cost a single small upload instead of a dozen full-resolution ones.
+
+const MAX_ATLAS_SIZE = 4096;
+const MAX_CELL_SIZE = 256;
+
+export interface AtlasRegion {
+  offset: [number, number];
+  repeat: [number, number];
+}
+
+export interface PhotoAtlas {
+  texture: THREE.Texture;
+  regions: Record<string, AtlasRegion>;
+}
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error(`Could not load thumbnail ${src}`));
+  img.src = src;
+});
+
+const buildAtlas = async (photos: PhotoItem[]): Promise<PhotoAtlas> => {
+  const cols = Math.ceil(Math.sqrt(photos.length));
+  const rows = Math.ceil(photos.length / cols);
+  const cell = Math.min(MAX_CELL_SIZE, Math.floor(MAX_ATLAS_SIZE / cols));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cols * cell;
+  canvas.height = rows * cell;
+  const ctx = canvas.getContext('2d')!;
+
+  const regions: Record<string, AtlasRegion> = {};
+  const images = await Promise.all(photos.map(p => loadImage(p.thumbUrl).catch(() => null)));
+
+  images.forEach((img, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    if (img) {
+      // Thumbnails are already square; older full-size fallbacks get center-cropped here
+      const edge = Math.min(img.width, img.height);
+      ctx.drawImage(img, (img.width - edge) / 2, (img.height - edge) / 2, edge, edge, col * cell, row * cell, cell, cell);
+    }
+    // Texture v runs bottom-up while canvas rows run top-down
+    regions[photos[i].id] = {
+      offset: [col / cols, 1 - (row + 1) / rows],
+      repeat: [1 / cols, 1 / rows],
+    };
+  });
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.generateMipmaps = true;
+  texture.minFilter = THREE.LinearMipmapLinearFilter;
+  return { texture, regions };
+};
+
+export const usePhotoAtlas = (photos: PhotoItem[]): PhotoAtlas | null => {
+  const [atlas, setAtlas] = useState<PhotoAtlas | null>(null);
+  // Rebuild only when the set of thumbnails changes, not on caption edits or reorders
+  const key = photos.map(p => p.thumbUrl).sort().join('|');
+
+  useEffect(() => {
+    if (photos.length === 0) {
+      setAtlas(null);
+      return;
+    }
+    let cancelled = false;
+    let built: PhotoAtlas | null = null;
+
+    buildAtlas(photos).then((result) => {
+      built = result;
+      if (cancelled) result.texture.dispose();
+      else setAtlas(result);
+    });
+
+    return () => {
+      cancelled = true;
+      // The replacement atlas takes over; free the GPU copy of this one
+      built?.texture.dispose();
+    };
+  }, [key]);
+
+  return atlas;
+};
+
+// Downsamples one photo's atlas cell to size × size RGBA pixels (the canvas averages as it scales)
+export const sampleAtlas = (atlas: PhotoAtlas, photoId: string, size: number): Uint8ClampedArray | null => {
+  const region = atlas.regions[photoId];
+  const source = atlas.texture.image as HTMLCanvasElement | undefined;
+  if (!region || !source) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  const [u, v] = region.offset;
+  const [w, h] = region.repeat;
+  // Back from texture v (bottom-up) to canvas rows (top-down)
+  ctx.drawImage(source, u * source.width, (1 - v - h) * source.height, w * source.width, h * source.height, 0, 0, size, size);
+  return ctx.getImageData(0, 0, size, size).data;
+};
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PhotoItem } from '../types.ts';
+import {
+  appendPhotos, createStoredPhoto, deletePhoto, listPhotos, NewPhoto, putPhotos, StoredPhoto, updatePhotos
+} from '../services/photoStore.ts';
+import { processUpload } from '../services/imagePipeline.ts';
+
+// ==========================================
+// PHOTO LIBRARY
+// ==========================================
+// Owns the object URLs for every photo: they are created per stored blob and
+// revoked as soon as the photo is removed (or the app unmounts).
+
+const toItem = (photo: NewPhoto): PhotoItem => {
+  const url = URL.createObjectURL(photo.blob);
+  return {
+    id: photo.id,
+    url,
+    thumbUrl: photo.thumb ? URL.createObjectURL(photo.thumb) : url,
+    width: photo.width ?? 0,
+    height: photo.height ?? 0,
+    name: photo.name,
+    caption: photo.caption,
+    date: photo.date !== undefined ? photo.date : (photo.capturedAt ?? null),
+    dateAdded: photo.dateAdded,
+    capturedAt: photo.capturedAt ?? null,
+  };
+};
+
+const revoke = (photo: PhotoItem) => {
+  URL.revokeObjectURL(photo.url);
+  if (photo.thumbUrl !== photo.url) URL.revokeObjectURL(photo.thumbUrl);
+};
+
+// Records saved before the image pipeline existed hold the original upload; bring them up to date
+const upgradeRecord = async (photo: StoredPhoto): Promise<StoredPhoto> => {
+  if (photo.thumb) return photo;
+  const image = await processUpload(new File([photo.blob], photo.name, { type: photo.blob.type }));
+  const upgraded = { ...photo, blob: image.full, thumb: image.thumb, width: image.width, height: image.height, capturedAt: image.capturedAt };
+  await putPhotos([upgraded]);
+  return upgraded;
+};
+
+// Persistence failures (private browsing, quota) must never break the scene
+const warnOnError = (what: string) => (e: unknown) => console.warn(`Photo store: could not ${what}`, e);
+
+export const usePhotoLibrary = () => {
+  const [photos, setPhotos] = useState<PhotoItem[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const photosRef = useRef<PhotoItem[]>([]);
+  photosRef.current = photos;
+
+  // Restore the library on startup
+  useEffect(() => {
+    let cancelled = false;
+    listPhotos()
+      .then(async (stored) => {
+        const upgraded: StoredPhoto[] = [];
+        for (const photo of stored) {
+          upgraded.push(await upgradeRecord(photo).catch(() => photo));
+        }
+        if (cancelled) return;
+        setPhotos(prev => [...upgraded.map(toItem), ...prev]);
+      })
+      .catch(warnOnError('restore photos'))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Revoke whatever is still alive when the app goes away
+  useEffect(() => () => {
+    photosRef.current.forEach(revoke);
+  }, []);
+
+  const persistOrder = (list: PhotoItem[]) => {
+    updatePhotos(list.map((p, i) => ({ id: p.id, changes: { order: i } }))).catch(warnOnError('save order'));
+  };
+
+  // Resolves with the added photos plus one user-facing message per file that failed
+  const addFiles = useCallback(async (files: File[]): Promise<{ added: PhotoItem[]; errors: string[] }> => {
+    const records: NewPhoto[] = [];
+    const errors: string[] = [];
+
+    // One at a time: decoding several large photos at once can exhaust phone memory
+    for (const file of files) {
+      try {
+        const image = await processUpload(file);
+        records.push(createStoredPhoto(file, image));
+      } catch (e: unknown) {
+        errors.push(e instanceof Error ? e.message : String(e));
+      }
+    }
+
+    const added = records.map(toItem);
+    if (records.length > 0) {
+      setPhotos(prev => [...prev, ...added]);
+      appendPhotos(records).catch(warnOnError('save photos'));
+    }
+    return { added, errors };
+  }, []);
+
+  const updatePhoto = useCallback((id: string, changes: Partial<Pick<PhotoItem, 'caption' | 'date'>>) => {
+    setPhotos(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
+    updatePhotos([{ id, changes }]).catch(warnOnError('save caption'));
+  }, []);
+
+  const removePhoto = useCallback((id: string) => {
+    const photo = photosRef.current.find(p => p.id === id);
+    if (!photo) return;
+    revoke(photo);
+    setPhotos(prev => prev.filter(p => p.id !== id));
+    deletePhoto(id).catch(warnOnError('delete photo'));
+  }, []);
+
+  const movePhoto = useCallback((id: string, offset: number) => {
+    const list = [...photosRef.current];
+    const from = list.findIndex(p => p.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= list.length) return;
+    const [photo] = list.splice(from, 1);
+    list.splice(to, 0, photo);
+    setPhotos(list);
+    persistOrder(list);
+  }, []);
+
+  return { photos, loaded, addFiles, updatePhoto, removePhoto, movePhoto };
+};
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { PhotoItem } from '../types.ts';
+import { PresetPhoto } from '../utils/greetingConfig.ts';
+
+// ==========================================
+// PRESET PHOTOS
+// ==========================================
+// Photos named in the greeting config are downloaded once and added to the
+// library like uploads, so the recipient can caption, reorder or remove them.
+// Imported URLs are remembered; a removed preset photo stays removed.
+
+const STORAGE_KEY = 'magic-tree:preset-photos';
+
+const loadImported = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn("Could not load imported preset photos", e);
+    return [];
+  }
+};
+
+const saveImported = (urls: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(urls));
+  } catch (e) {
+    console.warn("Could not save imported preset photos", e);
+  }
+};
+
+const fetchAsFile = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  const blob = await response.blob();
+  const name = decodeURIComponent(new URL(url, location.href).pathname.split('/').pop() || 'photo');
+  return new File([blob], name, { type: blob.type });
+};
+
+export const usePresetPhotos = (
+  presets: PresetPhoto[],
+  libraryLoaded: boolean,
+  addFiles: (files: File[]) => Promise<{ added: PhotoItem[]; errors: string[] }>,
+  updatePhoto: (id: string, changes: Partial<Pick<PhotoItem, 'caption' | 'date'>>) => void
+) => {
+  // Imports are never abandoned halfway, or a half-recorded photo would be added twice
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!libraryLoaded || startedRef.current) return;
+    startedRef.current = true;
+    const imported = loadImported();
+    const pending = presets.filter(p => !imported.includes(p.url));
+
+    (async () => {
+      for (const preset of pending) {
+        try {
+          const { added, errors } = await addFiles([await fetchAsFile(preset.url)]);
+          if (errors.length > 0) throw new Error(errors[0]);
+          if (preset.caption) added.forEach(photo => updatePhoto(photo.id, { caption: preset.caption! }));
+          imported.push(preset.url);
+          saveImported(imported);
+        } catch (e) {
+          // Try again next visit (the host may be down, or CORS may block it)
+          console.warn(`Could not import preset photo ${preset.url}`, e);
+        }
+      }
+    })();
+  }, [libraryLoaded]);
+};
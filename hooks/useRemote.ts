@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InputEvent, InputListener } from '../types.ts';
+import { createRemoteLink, generatePairingCode, RemoteLink, RemoteRole, RemoteStatus, relayUrl } from '../services/remoteLink.ts';
+
+// ==========================================
+// REMOTE CONTROL
+// ==========================================
+// Display and controller ends of services/remoteLink.ts. The display feeds
+// what it receives into the same handleInput every local provider uses.
+
+export interface RemotePeers {
+  displays: number;
+  controllers: number;
+}
+
+const NO_PEERS: RemotePeers = { displays: 0, controllers: 0 };
+
+// One link per (role, room) while enabled; incoming input goes to the latest listener
+const useRemoteLink = (role: RemoteRole, room: string | null, onInput?: InputListener) => {
+  const [status, setStatus] = useState<RemoteStatus>('closed');
+  const [peers, setPeers] = useState<RemotePeers>(NO_PEERS);
+  const linkRef = useRef<RemoteLink | null>(null);
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
+
+  useEffect(() => {
+    if (!room) return;
+    const link = createRemoteLink({
+      url: relayUrl(),
+      room,
+      role,
+      onStatus: (next) => {
+        setStatus(next);
+        if (next !== 'open') setPeers(NO_PEERS);
+      },
+      onMessage: (message) => {
+        if (message.type === 'peers') setPeers({ displays: message.displays, controllers: message.controllers });
+        else onInputRef.current?.(message.event);
+      },
+    });
+    linkRef.current = link;
+    return () => {
+      link.close();
+      linkRef.current = null;
+    };
+  }, [role, room]);
+
+  const send = useCallback((event: InputEvent) => {
+    linkRef.current?.send({ type: 'input', event });
+  }, []);
+
+  return { status, peers, send };
+};
+
+// The big screen: a fresh pairing code per session, only connected once remote control is switched on
+export const useRemoteDisplay = (enabled: boolean, onInput: InputListener) => {
+  const [code] = useState(generatePairingCode);
+  const { status, peers } = useRemoteLink('display', enabled ? code : null, onInput);
+  return { code, status, controllers: peers.controllers };
+};
+
+// The phone: forwards every event it is given to the displays in the room
+export const useRemoteController = (code: string | null) => {
+  const { status, peers, send } = useRemoteLink('controller', code);
+  return { status, displays: peers.displays, send };
+};
@@ -1,469 +1,136 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { Environment, Sparkles, Stars, Image, Loader } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette, ToneMapping } from '@react-three/postprocessing';
+import { Canvas } from '@react-three/fiber';
+import { Loader } from '@react-three/drei';
 import * as THREE from 'three';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { ActionName, AppMode, GestureBinding, HandGestureState, InputEvent, InputListener, PhotoItem } from './types.ts';
+import { createGestureStabilizer, GestureSmoothingOptions } from './utils/gestureStabilizer.ts';
+import { classifyPose, createHandTracker, createMotionRecognizer, extractHandFeatures } from './utils/gestures.ts';
+import { GESTURE_FORCES } from './utils/handField.ts';
+import { greetingTexts, GreetingTexts, layoutSeed, resolveGreetingConfig } from './utils/greetingConfig.ts';
+import { messages } from './utils/i18n.ts';
+import { Messages } from './locales/zh-CN.ts';
+import { BUILT_IN_THEMES, loadThemeSettings, parseTheme, saveThemeSettings, serializeTheme, Theme } from './utils/themes.ts';
+import { BUILT_IN_SHAPES, ShapeDefinition } from './utils/shapeLayouts.ts';
+import { loadSnowSetting, saveSnowSetting } from './utils/weather.ts';
+import { commitDecoration, createHistory, createOrnament, DecorationHistory, loadDecoration, MAX_ORNAMENTS, OrnamentKind, parseDecoration, saveDecoration, serializeDecoration, undoDecoration } from './utils/ornaments.ts';
+import { AUTO_MAX_TIER, guessInitialTier, loadQualitySetting, QUALITY_PRESETS, QualitySetting, QualityTier, saveQualitySetting, stepTier } from './utils/quality.ts';
+import { ACTION_CATALOG, BINDABLE_GESTURES, BindingMap, bindingKey, loadBindings, routeGesture, saveBindings } from './utils/bindings.ts';
+import { BindingsPanel } from './components/BindingsPanel.tsx';
+import { PhotoManager } from './components/PhotoManager.tsx';
+import { CaptionEditor } from './components/CaptionEditor.tsx';
+import { CardExportPanel } from './components/CardExportPanel.tsx';
+import { QualitySelector } from './components/QualitySelector.tsx';
+import { ShapePanel } from './components/ShapePanel.tsx';
+import { ThemePanel } from './components/ThemePanel.tsx';
+import { AudioControls } from './components/AudioControls.tsx';
+import { CAMERA_DISTANCE, Experience } from './components/Experience.tsx';
+import { LanguageSwitcher } from './components/LanguageSwitcher.tsx';
+import { RemotePanel } from './components/RemotePanel.tsx';
+import { DecorateControls, DecoratePanel, ornamentKindAt } from './components/DecoratePanel.tsx';
+import { useKeyboardInput, usePointerInput } from './hooks/useInputProviders.ts';
+import { usePhotoLibrary } from './hooks/usePhotoLibrary.ts';
+import { usePresetPhotos } from './hooks/usePresetPhotos.ts';
+import { AudioSettings, useAudio } from './hooks/useAudio.ts';
+import { I18nProvider, useI18n } from './hooks/useI18n.ts';
+import { useRemoteController, useRemoteDisplay } from './hooks/useRemote.ts';
+import { loadHandLandmarker, LoadProgress } from './services/handLandmarkerLoader.ts';
+import { SoundEffect } from './services/audioEngine.ts';
+import { isPairingCode, normalizePairingCode, REMOTE_PARAM, RemoteStatus } from './services/remoteLink.ts';
+import { cardFilename, downloadBlob, isRecordingSupported, recordCanvas, SceneCaptureHandle, SnapshotOptions } from './services/sceneCapture.ts';
 
 // ==========================================
 // 1. TYPES & CONSTANTS
 // ==========================================
 
-enum AppMode {
-  TREE = 'TREE',       // Fist: Gather into a tree
-  SCATTER = 'SCATTER', // Open Palm: Explode/float
-  INSPECT = 'INSPECT'  // Pinch/Grab: Look at a photo
-}
-
-interface HandGestureState {
-  isHandDetected: boolean;
-  gesture: 'FIST' | 'OPEN' | 'PINCH' | 'NONE';
-  handPosition: { x: number; y: number }; // Normalized 0-1
-}
-
-const TREE_HEIGHT = 18;      
-const TREE_RADIUS = 7.5;     
+// Recorded card clip: starts and ends on the assembled tree
+const RECORDING_DURATION_MS = 7000;
+const RECORDING_SCRIPT: { at: number; mode: AppMode }[] = [
+  { at: 0, mode: AppMode.TREE },
+  { at: 1500, mode: AppMode.SCATTER },
+  { at: 4000, mode: AppMode.TREE },
+];
+const MODE_SOUNDS: Record<AppMode, SoundEffect> = {
+  [AppMode.SCATTER]: 'whoosh',
+  [AppMode.TREE]: 'chime',
+  [AppMode.INSPECT]: 'shutter',
+  [AppMode.MOSAIC]: 'chime',
+  [AppMode.DECORATE]: 'chime',
+};
 
 // ==========================================
 // 2. HELPER FUNCTIONS
 // ==========================================
 
-// Helper to generate tree cone position
-const getTreeData = (index: number, total: number) => {
-  const y = (index / total) * TREE_HEIGHT - (TREE_HEIGHT / 2); 
-  const yPercent = (y + TREE_HEIGHT/2) / TREE_HEIGHT;
-  const radiusAtHeight = ((TREE_HEIGHT / 2) - y) * (TREE_RADIUS / TREE_HEIGHT); 
-  
-  // Dense cone
-  const r = radiusAtHeight * Math.pow(Math.random(), 0.4);
-  const angle = index * 2.39996; // Golden angle
-  const x = Math.cos(angle) * r;
-  const z = Math.sin(angle) * r;
-
-  return { pos: new THREE.Vector3(x, y, z), angle, r, radiusAtHeight, yPercent };
+// Front camera at the resolution the hand model is tuned for
+const openFrontCamera = async () => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw Object.assign(new Error("getUserMedia unavailable"), { name: 'NotSupportedError' });
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: {
+      width: { ideal: 640 },
+      height: { ideal: 480 },
+      facingMode: 'user' // Use front camera
+    }
+  });
 };
 
-const getScatterPos = (): [number, number, number] => {
-  return [
-    (Math.random() - 0.5) * 50, 
-    (Math.random() - 0.5) * 40,
-    (Math.random() - 0.5) * 30,
-  ];
+const cameraErrorKey = (err: any): keyof Messages['camera'] => {
+  if (err?.name === 'NotAllowedError') return 'denied';
+  if (err?.name === 'NotFoundError') return 'notFound';
+  return 'failed';
 };
 
 // ==========================================
 // 3. COMPONENTS
 // ==========================================
 
-// --- PARTICLE SYSTEM ---
-
-const TreeFoliage: React.FC<{ mode: AppMode; count: number }> = ({ mode, count }) => {
-    const meshRef = useRef<THREE.InstancedMesh>(null);
-    
-    // Base Colors
-    const C_DARK_GREEN = new THREE.Color("#0a4f1c"); 
-    const C_MID_GREEN = new THREE.Color("#2ec255"); 
-    const C_LITE_GREEN = new THREE.Color("#66ff99"); 
-
-    const GLOW_INTENSITY = 4.0;
-
-    const particles = useMemo(() => {
-        const data = [];
-        for (let i = 0; i < count; i++) {
-            const { pos } = getTreeData(i, count);
-            
-            const baseColor = new THREE.Color().lerpColors(C_DARK_GREEN, C_LITE_GREEN, Math.random());
-            if (Math.random() > 0.8) baseColor.lerp(C_MID_GREEN, 0.5);
-            
-            const hdrColor = baseColor.clone().multiplyScalar(GLOW_INTENSITY);
-
-            data.push({
-                initialPos: new THREE.Vector3(...getScatterPos()),
-                treePos: pos,
-                currentPos: pos.clone(),
-                scale: 0.08 + Math.random() * 0.06,
-                color: hdrColor,
-                phase: Math.random() * Math.PI * 2
-            });
-        }
-        return data;
-    }, [count]);
-
-    const dummy = useMemo(() => new THREE.Object3D(), []);
-
-    useFrame((state, delta) => {
-        if (!meshRef.current) return;
-        const time = state.clock.getElapsedTime();
-
-        particles.forEach((p, i) => {
-            const target = new THREE.Vector3();
-            if (mode === AppMode.TREE) {
-                target.copy(p.treePos);
-                target.x += Math.sin(time * 0.5 + p.treePos.y) * 0.05;
-            } else if (mode === AppMode.SCATTER) {
-                target.copy(p.initialPos);
-                target.y += Math.sin(time * 0.5 + p.phase) * 0.5;
-            } else {
-                target.copy(p.initialPos).multiplyScalar(2);
-            }
-
-            p.currentPos.lerp(target, delta * 3);
-            dummy.position.copy(p.currentPos);
-            dummy.scale.setScalar(p.scale);
-            dummy.updateMatrix();
-            meshRef.current!.setMatrixAt(i, dummy.matrix);
-        });
-        meshRef.current.instanceMatrix.needsUpdate = true;
-    });
-
-    useEffect(() => {
-        if(meshRef.current) {
-            particles.forEach((p, i) => meshRef.current!.setColorAt(i, p.color));
-            meshRef.current.instanceColor!.needsUpdate = true;
-        }
-    }, [particles]);
-
-    return (
-        <instancedMesh ref={meshRef} args={[undefined, undefined, count]}>
-            <sphereGeometry args={[1, 8, 8]} />
-            <meshBasicMaterial toneMapped={false} />
-        </instancedMesh>
-    )
-}
-
-const TreeRibbons: React.FC<{ mode: AppMode; count: number }> = ({ mode, count }) => {
-    const meshRef = useRef<THREE.InstancedMesh>(null);
-
-    const GOLD_INTENSITY = 30.0;
-    const RED_INTENSITY = 25.0;
-
-    const C_GOLD_BASE = new THREE.Color("#ffaa00");
-    const C_RED_BASE = new THREE.Color("#ff0000");
-
-    const particles = useMemo(() => {
-        const data = [];
-        for (let i = 0; i < count; i++) {
-            const t = i / count;
-            const y = t * TREE_HEIGHT - (TREE_HEIGHT / 2);
-            const radiusAtHeight = ((TREE_HEIGHT / 2) - y) * (TREE_RADIUS / TREE_HEIGHT) + 0.6;
-            
-            const isRed = i % 2 === 0;
-            const spiralFreq = 6.0;
-            const angleOffset = isRed ? 0 : Math.PI;
-            const angle = (y / TREE_HEIGHT) * Math.PI * 2 * spiralFreq + angleOffset;
-
-            const spread = (Math.random() - 0.5) * 1.5;
-            const finalAngle = angle + spread * 0.1;
-
-            const x = Math.cos(finalAngle) * radiusAtHeight;
-            const z = Math.sin(finalAngle) * radiusAtHeight;
-
-            const color = isRed 
-                ? C_RED_BASE.clone().multiplyScalar(RED_INTENSITY) 
-                : C_GOLD_BASE.clone().multiplyScalar(GOLD_INTENSITY);
-
-            const trailLength = 0.5 + Math.random() * 0.5; 
-
-            data.push({
-                initialPos: new THREE.Vector3(...getScatterPos()),
-                treePos: new THREE.Vector3(x, y, z),
-                currentPos: new THREE.Vector3(x, y, z),
-                color: color,
-                phase: Math.random() * Math.PI * 2,
-                angle: finalAngle,
-                radius: radiusAtHeight,
-                y: y,
-                trailLength
-            });
-        }
-        return data;
-    }, [count]);
-
-    const dummy = useMemo(() => new THREE.Object3D(), []);
-
-    useFrame((state, delta) => {
-        if (!meshRef.current) return;
-        const time = state.clock.getElapsedTime();
-
-        particles.forEach((p, i) => {
-            const target = new THREE.Vector3();
-            
-            if (mode === AppMode.TREE) {
-                const flowSpeed = 1.0;
-                const activeAngle = p.angle - time * flowSpeed; 
-                
-                target.set(
-                    Math.cos(activeAngle) * p.radius,
-                    p.y,
-                    Math.sin(activeAngle) * p.radius
-                );
-
-                const tangent = new THREE.Vector3(
-                    -Math.sin(activeAngle), 
-                    0, 
-                    Math.cos(activeAngle)
-                ).normalize();
-
-                dummy.position.copy(p.currentPos);
-                const nextPos = dummy.position.clone().add(tangent);
-                dummy.lookAt(nextPos);
-                dummy.scale.set(0.1, 0.1, p.trailLength); 
-
-            } else {
-                 target.copy(p.initialPos);
-                 target.y += Math.sin(time + p.phase);
-                 dummy.position.copy(p.currentPos);
-                 dummy.rotation.set(time * 0.5, time * 0.3, 0);
-                 dummy.scale.set(0.1, 0.1, 0.1);
-            }
-
-            p.currentPos.lerp(target, delta * 5);
-            dummy.updateMatrix();
-            meshRef.current!.setMatrixAt(i, dummy.matrix);
-        });
-        meshRef.current.instanceMatrix.needsUpdate = true;
-    });
-
-    useEffect(() => {
-        if(meshRef.current) {
-            particles.forEach((p, i) => meshRef.current!.setColorAt(i, p.color));
-            meshRef.current.instanceColor!.needsUpdate = true;
-        }
-    }, [particles]);
-
-    return (
-        <instancedMesh ref={meshRef} args={[undefined, undefined, count]}>
-            <boxGeometry args={[1, 1, 1]} />
-            <meshBasicMaterial toneMapped={false} />
-        </instancedMesh>
-    )
-}
-
-const SinglePhoto: React.FC<{ id: number; url: string; treePos: number[]; initialPos: number[]; mode: AppMode; isActive: boolean }> = ({ 
-    id, url, treePos, initialPos, mode, isActive 
-}) => {
-    const ref = useRef<THREE.Group>(null);
-    const targetPos = useRef(new THREE.Vector3());
-    const currentPos = useRef(new THREE.Vector3(...treePos as [number, number, number]));
-    
-    useFrame((state, delta) => {
-        if (!ref.current) return;
-        const time = state.clock.getElapsedTime();
-
-        if (mode === AppMode.TREE) {
-            targetPos.current.set(treePos[0], treePos[1], treePos[2]);
-            const angle = time * 0.2 + id;
-            const r = Math.sqrt(treePos[0]**2 + treePos[2]**2);
-            targetPos.current.x = Math.cos(angle) * r;
-            targetPos.current.z = Math.sin(angle) * r;
-        } else if (mode === AppMode.SCATTER) {
-            targetPos.current.set(initialPos[0], initialPos[1], initialPos[2]);
-            targetPos.current.x += Math.sin(time * 0.5 + id) * 0.5;
-            targetPos.current.y += Math.cos(time * 0.3 + id) * 0.5;
-        } else if (mode === AppMode.INSPECT) {
-            if (isActive) {
-                targetPos.current.set(0, 0, 15);
-            } else {
-                targetPos.current.set(initialPos[0], initialPos[1], initialPos[2]).multiplyScalar(2.0);
-            }
-        }
-
-        currentPos.current.lerp(targetPos.current, delta * 3);
-        ref.current.position.copy(currentPos.current);
-
-        if (isActive && mode === AppMode.INSPECT) {
-            ref.current.rotation.set(0, 0, 0);
-            ref.current.scale.lerp(new THREE.Vector3(6, 6, 1), delta * 3);
-        } else {
-             ref.current.lookAt(0, currentPos.current.y, 0); 
-             ref.current.scale.lerp(new THREE.Vector3(2, 2, 1), delta * 3);
-        }
-    });
-
-    return (
-        <Image 
-            ref={ref as any}
-            url={url}
-            transparent
-            position={treePos as any}
-            toneMapped={false} 
-        >
-             <mesh position={[0,0,-0.05]} scale={[1.05, 1.05, 1]}>
-                <planeGeometry />
-                <meshStandardMaterial color="#D4AF37" metalness={1} roughness={0.2} emissive="#D4AF37" emissiveIntensity={0.2} />
-             </mesh>
-        </Image>
-    )
-}
-
-const PhotoCollection: React.FC<{ mode: AppMode; photos: string[] }> = ({ mode, photos }) => {
-    const [activeId, setActiveId] = useState<number | null>(null);
-    const totalCount = 1000 + photos.length; 
-
-    useEffect(() => {
-        if (mode === AppMode.INSPECT && photos.length > 0) {
-            const randomIdx = Math.floor(Math.random() * photos.length);
-            setActiveId(randomIdx);
-        } else {
-            setActiveId(null);
-        }
-    }, [mode, photos]);
-
-    return (
-        <group>
-            {photos.map((url, i) => {
-                const { pos } = getTreeData(i * 10, totalCount); 
-                pos.multiplyScalar(1.3); 
-                
-                return (
-                    <SinglePhoto 
-                        key={i}
-                        id={i}
-                        url={url}
-                        treePos={pos.toArray()} 
-                        initialPos={getScatterPos()}
-                        mode={mode}
-                        isActive={i === activeId}
-                    />
-                )
-            })}
-        </group>
-    )
-}
-
-const ParticleSystem: React.FC<{ mode: AppMode; photos: string[] }> = ({ mode, photos }) => {
-  return (
-    <group>
-      <TreeFoliage mode={mode} count={6000} />
-      <TreeRibbons mode={mode} count={2000} />
-      <PhotoCollection mode={mode} photos={photos} />
-    </group>
-  );
-};
-
-// --- EXPERIENCE (3D SCENE) ---
-
-const StarShape = () => {
-    return (
-        <group scale={1.2}>
-            <mesh>
-                <octahedronGeometry args={[1, 0]} />
-                <meshBasicMaterial color={[100, 100, 100]} toneMapped={false} />
-            </mesh>
-            <mesh rotation={[0, Math.PI/4, 0]} scale={1.4}>
-                 <octahedronGeometry args={[0.8, 0]} />
-                 <meshBasicMaterial color={[50, 35, 0]} toneMapped={false} />
-            </mesh>
-            <pointLight distance={25} intensity={100} color="#ffeedd" decay={2} />
-        </group>
-    )
-}
-
-const Experience: React.FC<{ mode: AppMode; photos: string[]; handPos: { x: number; y: number } }> = ({ mode, photos, handPos }) => {
-  const groupRef = useRef<THREE.Group>(null);
-
-  useFrame((state, delta) => {
-    if (groupRef.current && mode === AppMode.SCATTER) {
-        const targetRotX = (handPos.y - 0.5) * 1.0;
-        const targetRotY = (handPos.x - 0.5) * 1.0;
-        
-        groupRef.current.rotation.x = THREE.MathUtils.lerp(groupRef.current.rotation.x, targetRotX, delta * 2);
-        groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, targetRotY, delta * 2);
-    } else if (groupRef.current && mode === AppMode.TREE) {
-        groupRef.current.rotation.y += delta * 0.1;
-        groupRef.current.rotation.x = THREE.MathUtils.lerp(groupRef.current.rotation.x, 0, delta * 2);
-    }
-  });
-
-  return (
-    <>
-      <color attach="background" args={['#000200']} /> 
-      
-      <ambientLight intensity={1.0} color="#ffffff" /> 
-      <spotLight position={[10, 20, 20]} angle={0.5} penumbra={1} intensity={500} color="#ffecd1" />
-      <pointLight position={[-10, 5, -10]} intensity={200} color="#ff5555" />
-
-      <Environment preset="night" background={false} />
-      <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={0.5} />
-      <Sparkles count={600} scale={45} size={8} speed={0.1} opacity={0.5} color="#fffbac" />
-
-      <group ref={groupRef}>
-        <ParticleSystem mode={mode} photos={photos} />
-        <group position={[0, 9.2, 0]}>
-           <StarShape />
-        </group>
-      </group>
-
-      <EffectComposer disableNormalPass multisampling={4}>
-        <Bloom luminanceThreshold={1.1} mipmapBlur intensity={2.5} radius={0.6} />
-        <ToneMapping mode={THREE.ACESFilmicToneMapping} />
-        <Vignette eskil={false} offset={0.1} darkness={0.6} />
-      </EffectComposer>
-    </>
-  );
-};
-
 // --- HAND MANAGER ---
 
-function detectGesture(landmarks: any[]): 'FIST' | 'OPEN' | 'PINCH' | 'NONE' {
-    const isFingerExtended = (tipIdx: number, mcpIdx: number) => {
-        const distTip = Math.hypot(landmarks[tipIdx].x - landmarks[0].x, landmarks[tipIdx].y - landmarks[0].y);
-        const distMcp = Math.hypot(landmarks[mcpIdx].x - landmarks[0].x, landmarks[mcpIdx].y - landmarks[0].y);
-        return distTip > distMcp * 1.5; 
-    };
-
-    const thumbExtended = isFingerExtended(4, 2); 
-    const indexExtended = isFingerExtended(8, 5);
-    const middleExtended = isFingerExtended(12, 9);
-    const ringExtended = isFingerExtended(16, 13);
-    const pinkyExtended = isFingerExtended(20, 17);
-
-    const extendedCount = [thumbExtended, indexExtended, middleExtended, ringExtended, pinkyExtended].filter(Boolean).length;
-
-    const pinchDist = Math.hypot(landmarks[8].x - landmarks[4].x, landmarks[8].y - landmarks[4].y);
-    
-    if (pinchDist < 0.05) return 'PINCH'; 
-    if (extendedCount === 5) return 'OPEN';
-    if (extendedCount === 0) return 'FIST';
-    
-    return 'NONE';
-}
-
-const HandManager: React.FC<{ onGestureUpdate: (state: HandGestureState) => void; stream: MediaStream | null }> = ({ onGestureUpdate, stream }) => {
+const HandManager: React.FC<{ 
+    onInput: InputListener; 
+    stream: MediaStream | null; 
+    smoothing?: Partial<GestureSmoothingOptions> 
+}> = ({ onInput, stream, smoothing }) => {
+  const { t, format } = useI18n();
   const videoRef = useRef<HTMLVideoElement>(null);
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
   const requestRef = useRef<number>(0);
+  // Debounces raw per-frame classifications into stable gestures
+  const stabilizer = useMemo(() => createGestureStabilizer(smoothing), [smoothing]);
+  const motionRecognizer = useMemo(() => createMotionRecognizer(), []);
+  const handTracker = useMemo(() => createHandTracker(), []);
+  // The prediction loop outlives renders, so always call the latest callback
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
+  const emit = (state: HandGestureState) => onInputRef.current({ source: 'hand', type: 'gesture', state });
   const [modelError, setModelError] = useState<boolean>(false);
   const [modelLoaded, setModelLoaded] = useState<boolean>(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
   
   // 1. Load Model (Async, Independent of Stream)
   useEffect(() => {
-    const initMediaPipe = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-        
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
+    let cancelled = false;
+
+    loadHandLandmarker(setLoadProgress)
+      .then(({ landmarker, delegate }) => {
+        if (cancelled) {
+          landmarker.close();
+          return;
+        }
+        handLandmarkerRef.current = landmarker;
         setModelLoaded(true);
-        console.log("MediaPipe Model Loaded");
-      } catch (e) {
+        console.log(`MediaPipe Model Loaded (${delegate})`);
+      })
+      .catch((e) => {
         console.error("Error initializing MediaPipe:", e);
-        setModelError(true);
-      }
-    };
-
-    initMediaPipe();
+        if (!cancelled) setModelError(true);
+      });
 
     return () => {
+       cancelled = true;
        if (handLandmarkerRef.current) handLandmarkerRef.current.close();
     };
   }, []);
@@ -493,23 +160,24 @@ const HandManager: React.FC<{ onGestureUpdate: (state: HandGestureState) => void
                 const result = handLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
 
                 if (result.landmarks && result.landmarks.length > 0) {
-                    const landmarks = result.landmarks[0]; 
-                    const x = (landmarks[0].x + landmarks[9].x) / 2;
-                    const y = (landmarks[0].y + landmarks[9].y) / 2;
-                    
-                    const gesture = detectGesture(landmarks);
-
-                    onGestureUpdate({
-                        isHandDetected: true,
-                        gesture: gesture,
-                        handPosition: { x: 1 - x, y } 
-                    });
+                    const hands = handTracker.order(result.landmarks.map(extractHandFeatures));
+                    const reading = classifyPose(hands[0]);
+                    const motion = motionRecognizer.update(hands, reading.gesture, startTimeMs);
+
+                    emit(stabilizer.update({
+                        reading,
+                        motion,
+                        handPosition: hands[0].palm,
+                        handSize: hands[0].palmSize,
+                        handCount: hands.length,
+                        handSpread: hands.length > 1 
+                            ? Math.hypot(hands[0].palm.x - hands[1].palm.x, hands[0].palm.y - hands[1].palm.y) 
+                            : null
+                    }, startTimeMs));
                 } else {
-                    onGestureUpdate({
-                        isHandDetected: false,
-                        gesture: 'NONE',
-                        handPosition: { x: 0.5, y: 0.5 }
-                    });
+                    handTracker.reset();
+                    motionRecognizer.update([], 'NONE', startTimeMs);
+                    emit(stabilizer.update(null, startTimeMs));
                 }
             } catch (e) {
                 console.warn("Prediction error", e);
@@ -524,7 +192,7 @@ const HandManager: React.FC<{ onGestureUpdate: (state: HandGestureState) => void
              videoRef.current.removeEventListener('loadeddata', onLoadedData);
         }
     }
-  }, [stream, modelLoaded]);
+  }, [stream, modelLoaded, stabilizer, motionRecognizer, handTracker]);
 
 
   return (
@@ -540,10 +208,28 @@ const HandManager: React.FC<{ onGestureUpdate: (state: HandGestureState) => void
             style={{ transform: 'scaleX(-1)' }}
         />
         
+        {stream && !modelLoaded && !modelError && loadProgress && (
+            <div className="fixed bottom-28 right-4 z-[60] bg-black/70 text-white p-3 rounded-lg shadow-lg w-[200px] text-xs backdrop-blur-md border border-white/10">
+                <p className="mb-2 text-white/80">
+                    {{
+                        wasm: t.model.loadingWasm,
+                        model: format(t.model.downloading, { percent: Math.round(loadProgress.progress * 100) }),
+                        init: format(t.model.initializing, { delegate: loadProgress.delegate === 'CPU' ? t.model.cpu : t.model.gpu })
+                    }[loadProgress.stage]}
+                </p>
+                <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div 
+                        className="h-full bg-gradient-to-r from-red-500 to-yellow-400 transition-all duration-200"
+                        style={{ width: `${Math.round(({ wasm: 0.1, model: 0.1 + loadProgress.progress * 0.8, init: 0.95 }[loadProgress.stage]) * 100)}%` }}
+                    />
+                </div>
+            </div>
+        )}
+
         {modelError && (
             <div className="fixed bottom-20 right-4 z-[60] bg-red-500/90 text-white p-4 rounded-lg shadow-lg max-w-[240px] text-sm backdrop-blur-md">
-                <p className="font-bold">⚠️ AI 模型加载失败</p>
-                <p>请检查网络连接 (需要访问 Google 服务)</p>
+                <p className="font-bold">{t.model.failed}</p>
+                <p>{t.model.failedHint}</p>
             </div>
         )}
     </>
@@ -551,22 +237,21 @@ const HandManager: React.FC<{ onGestureUpdate: (state: HandGestureState) => void
 };
 
 // --- LANDING SCREEN (NEW) ---
-const LandingScreen: React.FC<{ onStart: () => void; error?: string }> = ({ onStart, error }) => {
+const LandingScreen: React.FC<{ greeting: GreetingTexts; onStart: () => void; onStartWithoutCamera: () => void; error?: string }> = ({ greeting, onStart, onStartWithoutCamera, error }) => {
+    const { t } = useI18n();
     return (
         <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm p-4">
             <div className="text-center space-y-8 animate-fade-in-up">
-                 <h1 className="text-5xl md:text-7xl font-bold rainbow-text font-['Zcool_KuaiLe',_cursive] drop-shadow-[0_0_20px_rgba(255,0,0,0.5)]">
-                    粥粥的圣诞礼物
+                 <h1 className="text-5xl md:text-7xl font-bold rainbow-text font-festive drop-shadow-[0_0_20px_rgba(255,0,0,0.5)]">
+                    {greeting.landingTitle}
                  </h1>
                  
                  <div className="bg-black/40 p-6 rounded-2xl border border-white/10 backdrop-blur-md max-w-md mx-auto">
-                    <p className="text-white/90 text-lg mb-4">
-                        这是一个基于手势互动的 3D 魔法体验。
-                        <br/>
-                        请允许使用摄像头来捕捉你的魔法手势。
+                    <p className="text-white/90 text-lg mb-4 whitespace-pre-line">
+                        {greeting.landingText}
                     </p>
                     <p className="text-white/50 text-sm mb-6">
-                        👋 数据仅在本地处理，不会上传任何影像
+                        {t.landing.privacy}
                     </p>
                     
                     <button 
@@ -574,14 +259,26 @@ const LandingScreen: React.FC<{ onStart: () => void; error?: string }> = ({ onSt
                         className="group relative inline-flex items-center justify-center px-8 py-4 text-2xl font-bold text-white transition-all duration-200 bg-gradient-to-r from-red-600 to-red-800 rounded-full hover:from-red-500 hover:to-red-700 focus:outline-none focus:ring-4 focus:ring-red-500/50 shadow-[0_0_30px_rgba(220,38,38,0.5)] hover:shadow-[0_0_50px_rgba(220,38,38,0.8)] hover:scale-105 active:scale-95"
                     >
                         <span className="mr-2">🎄</span>
-                         开启魔法
+                         {t.landing.start}
                         <span className="ml-2">✨</span>
                     </button>
                  </div>
 
+                 <a href={`?${REMOTE_PARAM}`} className="block text-white/50 text-sm underline underline-offset-4 hover:text-yellow-300 transition-colors">
+                     {t.landing.remote}
+                 </a>
+
                  {error && (
-                     <div className="text-red-400 bg-red-900/30 px-4 py-2 rounded-lg border border-red-500/30">
-                         {error}
+                     <div className="space-y-3">
+                         <div className="text-red-400 bg-red-900/30 px-4 py-2 rounded-lg border border-red-500/30">
+                             {error}
+                         </div>
+                         <button 
+                             onClick={onStartWithoutCamera}
+                             className="text-white/80 underline underline-offset-4 hover:text-yellow-300 transition-colors"
+                         >
+                             {t.landing.withoutCamera}
+                         </button>
                      </div>
                  )}
             </div>
@@ -589,59 +286,382 @@ const LandingScreen: React.FC<{ onStart: () => void; error?: string }> = ({ onSt
     )
 }
 
+// --- REMOTE CONTROLLER (phone side) ---
+
+// Saving a card would download it on the big screen, so it is left out here
+const CONTROLLER_ACTIONS = ACTION_CATALOG.filter(a => a.binding.action !== 'snapshot');
+
+const RemoteController: React.FC<{ initialCode: string }> = ({ initialCode }) => {
+    const { t } = useI18n();
+    const [code, setCode] = useState<string | null>(isPairingCode(initialCode) ? initialCode : null);
+    const [draft, setDraft] = useState(initialCode);
+    const { status, displays, send } = useRemoteController(code);
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [cameraError, setCameraError] = useState<keyof Messages['camera'] | null>(null);
+    const [gesture, setGesture] = useState<string>('NONE');
+    const padRef = useRef<HTMLDivElement>(null);
+
+    // The touch pad emits the same cursor/zoom events as the display's own touch input
+    usePointerInput(padRef, send, code !== null);
+
+    const join = (next: string) => {
+        setCode(next);
+        // A reload (or a sleeping phone waking up) should land back in the same room
+        const url = new URL(window.location.href);
+        url.searchParams.set(REMOTE_PARAM, next);
+        window.history.replaceState(null, '', url);
+    };
+
+    const startCamera = async () => {
+        try {
+            setStream(await openFrontCamera());
+            setCameraError(null);
+        } catch (err) {
+            console.error("Camera access denied:", err);
+            setCameraError(cameraErrorKey(err));
+        }
+    };
+
+    const forwardHand = (event: InputEvent) => {
+        if (event.type === 'gesture') setGesture(event.state.gesture);
+        send(event);
+    };
+
+    if (code === null) {
+        return (
+            <div className="w-full h-screen bg-black text-white flex flex-col items-center justify-center gap-6 p-6">
+                <h1 className="text-4xl font-bold rainbow-text font-festive">{t.remote.controllerTitle}</h1>
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        if (isPairingCode(draft)) join(draft);
+                    }}
+                    className="flex flex-col items-center gap-3"
+                >
+                    <label htmlFor="pairing-code" className="text-white/70 text-sm">{t.remote.enterCode}</label>
+                    <input
+                        id="pairing-code"
+                        value={draft}
+                        onChange={(e) => setDraft(normalizePairingCode(e.target.value))}
+                        autoCapitalize="characters"
+                        autoComplete="off"
+                        className="w-44 text-center text-3xl font-mono tracking-[0.3em] bg-black/40 border border-white/20 rounded-xl py-2 outline-none focus:border-yellow-400"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!isPairingCode(draft)}
+                        className="px-8 py-3 rounded-full font-bold bg-gradient-to-r from-red-800 to-red-600 border border-yellow-500/30 disabled:opacity-40"
+                    >
+                        {t.remote.join}
+                    </button>
+                </form>
+            </div>
+        );
+    }
+
+    const paired = status === 'open' && displays > 0;
+
+    return (
+        <div className="w-full h-screen bg-black text-white flex flex-col gap-4 p-4 overflow-hidden">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold rainbow-text font-festive">{t.remote.controllerTitle}</h1>
+                <button onClick={() => setCode(null)} className="text-xs text-white/60 underline underline-offset-4">
+                    {t.remote.changeCode}
+                </button>
+            </div>
+            <p className="flex items-center gap-2 text-sm">
+                <span className={`w-2 h-2 rounded-full ${paired ? 'bg-green-400' : 'bg-yellow-400 animate-pulse'}`} />
+                {status === 'open' ? (paired ? t.remote.paired : t.remote.waitingDisplay) : t.remote.status[status]}
+                <span className="ml-auto font-mono tracking-widest text-yellow-300">{code}</span>
+            </p>
+
+            <div
+                ref={padRef}
+                className="flex-1 rounded-2xl border border-white/20 bg-white/5 flex items-center justify-center text-center text-sm text-white/40 p-4 select-none"
+                style={{ touchAction: 'none' }}
+            >
+                {t.remote.touchpad}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {CONTROLLER_ACTIONS.map(({ key, binding }) => (
+                    <button
+                        key={key}
+                        onClick={() => send({ source: 'touch', type: 'action', binding })}
+                        className="py-3 rounded-xl text-sm bg-white/10 active:bg-yellow-500/40 border border-white/20"
+                    >
+                        {t.bindings.actions[key]}
+                    </button>
+                ))}
+            </div>
+
+            {stream ? (
+                <p className="text-center text-sm text-white/70">
+                    {t.gestureStatus[gesture] || gesture}
+                    <span className="block text-xs text-white/40">{t.remote.cameraHint}</span>
+                </p>
+            ) : (
+                <button onClick={startCamera} className="py-3 rounded-full font-bold bg-gradient-to-r from-red-800 to-red-600 border border-yellow-500/30">
+                    {t.remote.useCamera}
+                </button>
+            )}
+            {cameraError && <p className="text-center text-xs text-red-300">⚠️ {t.camera[cameraError]}</p>}
+
+            {/* Only loads the hand model once the camera is actually wanted */}
+            {stream && <HandManager stream={stream} onInput={forwardHand} />}
+        </div>
+    );
+};
+
 // --- UI OVERLAY ---
 
-const UIOverlay: React.FC<{ mode: AppMode; onPhotoUpload: (urls: string[]) => void; photoCount: number; currentGesture: string; visible: boolean }> = ({ mode, onPhotoUpload, photoCount, currentGesture, visible }) => {
+const LEGEND_COLORS = ['text-green-400', 'text-yellow-400', 'text-red-400', 'text-purple-400', 'text-pink-400', 'text-cyan-400'];
+
+const UIOverlay: React.FC<{ 
+    greeting: GreetingTexts;
+    mode: AppMode; 
+    onPhotoUpload: (files: File[]) => Promise<{ added: PhotoItem[]; errors: string[] }>; 
+    photos: PhotoItem[]; 
+    onPhotoUpdate: (id: string, changes: Pick<PhotoItem, 'caption' | 'date'>) => void;
+    onPhotoMove: (id: string, offset: number) => void;
+    onPhotoRemove: (id: string) => void;
+    currentGesture: string; 
+    gestureConfidence: number; 
+    bindings: BindingMap;
+    availableActions: ActionName[];
+    onBindingsChange: (bindings: BindingMap) => void;
+    recording: boolean;
+    onSaveCard: (options: SnapshotOptions) => Promise<void>;
+    onRecordCard: () => Promise<void>;
+    qualitySetting: QualitySetting;
+    qualityTier: QualityTier;
+    onQualityChange: (setting: QualitySetting) => void;
+    shapes: ShapeDefinition[];
+    shapeId: string;
+    onShapeSelect: (id: string) => void;
+    onShapeAdd: (shape: ShapeDefinition) => void;
+    themes: Theme[];
+    themeId: string;
+    onThemeSelect: (id: string) => void;
+    onThemeImport: (json: string) => void;
+    onThemeExport: () => void;
+    onThemeRemove: (id: string) => void;
+    audioSettings: AudioSettings;
+    customTrackName: string | null;
+    trackError: string | null;
+    onToggleMute: () => void;
+    onVolumeChange: (volume: number) => void;
+    onTrackSelect: (trackId: string) => void;
+    onTrackFile: (file: File) => void;
+    remote: { enabled: boolean; code: string; status: RemoteStatus; controllers: number };
+    onRemoteEnable: (enabled: boolean) => void;
+    snowing: boolean;
+    onSnowToggle: () => void;
+    decorate: DecorateControls;
+    onDecorateToggle: () => void;
+    visible: boolean 
+}> = ({ greeting, mode, onPhotoUpload, photos, onPhotoUpdate, onPhotoMove, onPhotoRemove, currentGesture, gestureConfidence, bindings, availableActions, onBindingsChange, recording, onSaveCard, onRecordCard, qualitySetting, qualityTier, onQualityChange, shapes, shapeId, onShapeSelect, onShapeAdd, themes, themeId, onThemeSelect, onThemeImport, onThemeExport, onThemeRemove, audioSettings, customTrackName, trackError, onToggleMute, onVolumeChange, onTrackSelect, onTrackFile, remote, onRemoteEnable, snowing, onSnowToggle, decorate, onDecorateToggle, visible }) => {
+  const { t, format } = useI18n();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [languageOpen, setLanguageOpen] = useState(false);
+  const [cardOpen, setCardOpen] = useState(false);
+  const [shapesOpen, setShapesOpen] = useState(false);
+  const [themesOpen, setThemesOpen] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [remoteOpen, setRemoteOpen] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [editing, setEditing] = useState<PhotoItem[]>([]);
 
   if (!visible) return null;
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const newUrls: string[] = [];
-      Array.from(e.target.files).forEach(file => {
-        newUrls.push(URL.createObjectURL(file as Blob));
-      });
-      onPhotoUpload(newUrls);
+      const files = Array.from(e.target.files);
+      // Allow picking the same file again later
+      e.target.value = '';
+      setUploading(true);
+      const { added, errors } = await onPhotoUpload(files);
+      setUploadErrors(errors);
+      setUploading(false);
+      // Offer a caption and date right away; the date is prefilled from EXIF
+      if (added.length > 0) setEditing(added);
     }
   };
 
-  const gestureLabel = {
-      'FIST': '✊ 聚合模式 (圣诞树)',
-      'OPEN': '✋ 散开模式 (漫天星光)',
-      'PINCH': '🤏 查看照片 (捏合)',
-      'NONE': '正在寻找手势...'
-  }[currentGesture] || '';
+  const gestureLabel = t.gestureStatus[currentGesture] || currentGesture;
 
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6 z-40">
       
       <div className="flex flex-col items-center">
-        <h1 className="text-6xl md:text-8xl font-bold rainbow-text font-['Zcool_KuaiLe',_cursive] tracking-widest text-center drop-shadow-[0_0_15px_rgba(255,215,0,0.8)]">
-          粥粥圣诞节快乐！
+        <h1 className="text-6xl md:text-8xl font-bold rainbow-text font-festive tracking-widest text-center drop-shadow-[0_0_15px_rgba(255,215,0,0.8)]">
+          {greeting.title}
         </h1>
-        <p className="text-amber-200 mt-2 font-['Zcool_KuaiLe',_cursive] text-xl tracking-wider opacity-80">
-           挥动双手，点亮魔法
+        <p className="text-amber-200 mt-2 font-festive text-xl tracking-wider opacity-80">
+           {greeting.subtitle}
         </p>
       </div>
 
+      <button 
+        onClick={() => setSettingsOpen(open => !open)}
+        className="pointer-events-auto absolute top-6 right-6 w-12 h-12 rounded-full bg-black/40 border border-white/20 text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors"
+        title={t.toolbar.bindings}
+      >
+        ⚙️
+      </button>
+      <QualitySelector setting={qualitySetting} activeTier={qualityTier} onChange={onQualityChange} />
+      <AudioControls
+        settings={audioSettings}
+        customTrackName={customTrackName}
+        trackError={trackError}
+        onToggleMute={onToggleMute}
+        onVolumeChange={onVolumeChange}
+        onTrackSelect={onTrackSelect}
+        onTrackFile={onTrackFile}
+      />
+
+      <button 
+        onClick={() => setShapesOpen(open => !open)}
+        className="pointer-events-auto absolute top-6 right-[8.5rem] w-12 h-12 rounded-full bg-black/40 border border-white/20 text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors"
+        title={t.toolbar.shapes}
+      >
+        🪄
+      </button>
+      <button 
+        onClick={() => setThemesOpen(open => !open)}
+        className="pointer-events-auto absolute top-6 right-[12rem] w-12 h-12 rounded-full bg-black/40 border border-white/20 text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors"
+        title={t.toolbar.themes}
+      >
+        🎨
+      </button>
+      <button 
+        onClick={() => setLanguageOpen(open => !open)}
+        className="pointer-events-auto absolute top-6 right-[15.5rem] w-12 h-12 rounded-full bg-black/40 border border-white/20 text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors"
+        title={t.toolbar.language}
+      >
+        🌐
+      </button>
+      <button 
+        onClick={() => setRemoteOpen(open => !open)}
+        className="pointer-events-auto absolute top-6 right-[19rem] w-12 h-12 rounded-full bg-black/40 border border-white/20 text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors"
+        title={t.toolbar.remote}
+      >
+        📱
+      </button>
+      <button 
+        onClick={onSnowToggle}
+        className={`pointer-events-auto absolute top-6 right-[22.5rem] w-12 h-12 rounded-full bg-black/40 border text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors ${
+          snowing ? 'border-yellow-400/60' : 'border-white/20 opacity-60'
+        }`}
+        title={t.toolbar.snow}
+      >
+        ❄️
+      </button>
+      <button 
+        onClick={onDecorateToggle}
+        className={`pointer-events-auto absolute top-6 right-[26rem] w-12 h-12 rounded-full bg-black/40 border text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors ${
+          mode === AppMode.DECORATE ? 'border-yellow-400/60' : 'border-white/20'
+        }`}
+        title={t.toolbar.decorate}
+      >
+        🎀
+      </button>
+      {mode === AppMode.DECORATE && (
+          <DecoratePanel 
+            {...decorate}
+            onDone={onDecorateToggle}
+          />
+      )}
+      {remoteOpen && (
+          <RemotePanel 
+            {...remote}
+            onEnable={onRemoteEnable}
+            onClose={() => setRemoteOpen(false)}
+          />
+      )}
+      {languageOpen && (
+          <div className="absolute top-20 right-6 z-50">
+            <LanguageSwitcher onPicked={() => setLanguageOpen(false)} />
+          </div>
+      )}
+      {themesOpen && (
+          <ThemePanel 
+            themes={themes}
+            activeId={themeId}
+            onSelect={onThemeSelect}
+            onImport={onThemeImport}
+            onExport={onThemeExport}
+            onRemove={onThemeRemove}
+            isCustom={(id) => !BUILT_IN_THEMES.some(t => t.id === id)}
+            onClose={() => setThemesOpen(false)}
+          />
+      )}
+      {shapesOpen && (
+          <ShapePanel 
+            shapes={shapes}
+            activeId={shapeId}
+            onSelect={onShapeSelect}
+            onAdd={onShapeAdd}
+            onClose={() => setShapesOpen(false)}
+          />
+      )}
+
+      <button 
+        onClick={() => setCardOpen(open => !open)}
+        className="pointer-events-auto absolute top-6 right-20 w-12 h-12 rounded-full bg-black/40 border border-white/20 text-2xl backdrop-blur-sm hover:border-yellow-400 transition-colors"
+        title={t.toolbar.card}
+      >
+        📸
+      </button>
+      {cardOpen && (
+          <CardExportPanel 
+            defaultText={greeting.title}
+            recording={recording}
+            recordingSupported={isRecordingSupported()}
+            recordingSeconds={RECORDING_DURATION_MS / 1000}
+            onSave={onSaveCard}
+            onRecord={onRecordCard}
+            onClose={() => setCardOpen(false)}
+          />
+      )}
+      {settingsOpen && (
+          <BindingsPanel 
+            bindings={bindings}
+            availableActions={availableActions}
+            onChange={onBindingsChange}
+            onClose={() => setSettingsOpen(false)}
+          />
+      )}
+
       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center pointer-events-none">
           <div className="text-2xl text-white/50 font-mono bg-black/30 px-4 py-2 rounded-lg backdrop-blur-sm whitespace-nowrap">
-             当前状态: {gestureLabel}
+             {format(t.status.current, { gesture: gestureLabel })}
+             {currentGesture !== 'NONE' && (
+                 <span className="ml-2 text-base text-white/40">{Math.round(gestureConfidence * 100)}%</span>
+             )}
           </div>
-          {mode === AppMode.INSPECT && (
+          {(mode === AppMode.INSPECT || mode === AppMode.MOSAIC || mode === AppMode.DECORATE) && (
               <div className="text-gold mt-2 animate-pulse text-yellow-400 font-bold tracking-widest">
-                  正在回味美好瞬间...
+                  {mode === AppMode.MOSAIC ? t.status.mosaic : mode === AppMode.DECORATE ? t.status.decorate : t.status.inspecting}
               </div>
           )}
       </div>
 
       <div className="flex flex-col md:flex-row items-center justify-between w-full pointer-events-auto bg-gradient-to-t from-black/80 to-transparent pb-4 pt-10 px-4 rounded-b-xl">
         <div className="text-white/80 text-sm md:text-base font-sans max-w-md space-y-1">
-           <p><span className="text-green-400 font-bold">✊ 握拳:</span> 召唤圣诞树</p>
-           <p><span className="text-yellow-400 font-bold">✋ 张开:</span> 散落漫天星光</p>
-           <p><span className="text-red-400 font-bold">🤏 捏合:</span> 抓取美好回忆</p>
-           <p><span className="text-blue-400 font-bold">👋 移动:</span> 旋转观察视角</p>
+           {BINDABLE_GESTURES.filter(g => bindings[g.id]).map((g, i) => (
+               <p key={g.id}>
+                   <span className={`${LEGEND_COLORS[i % LEGEND_COLORS.length]} font-bold`}>{g.icon} {t.bindings.gestures[g.id]}:</span>{' '}
+                   {t.bindings.actions[bindingKey(bindings[g.id])]}
+               </p>
+           ))}
+           <p><span className="text-blue-400 font-bold">{t.legend.move}</span> {t.legend.moveAction}</p>
+           <p><span className="text-blue-400 font-bold">{t.legend.depth}</span> {t.legend.depthAction}</p>
+           <p><span className="text-blue-400 font-bold">{t.legend.spread}</span> {t.legend.spreadAction}</p>
+           <p><span className="text-blue-400 font-bold">{t.legend.field}</span> {t.legend.fieldAction}</p>
+           <p className="text-white/50 text-xs pt-1">{t.legend.keyboard}</p>
         </div>
 
         <div className="mt-4 md:mt-0 flex flex-col items-end">
@@ -653,14 +673,45 @@ const UIOverlay: React.FC<{ mode: AppMode; onPhotoUpload: (urls: string[]) => vo
             className="hidden" 
             onChange={handleFileChange}
           />
-          <button 
-            onClick={() => fileInputRef.current?.click()}
-            className="bg-gradient-to-r from-red-800 to-red-600 hover:from-red-600 hover:to-red-400 text-white font-bold py-3 px-8 rounded-full shadow-[0_0_20px_rgba(196,30,58,0.6)] border border-yellow-500/30 transition-all transform hover:scale-105"
-          >
-            上传回忆 ({photoCount})
-          </button>
-          <p className="text-xs text-white/40 mt-1 mr-2">支持 JPG, PNG 格式</p>
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={() => setLibraryOpen(open => !open)}
+              className="bg-black/40 hover:bg-black/60 text-white/80 py-3 px-4 rounded-full border border-white/20 hover:border-yellow-400 transition-colors"
+              title={t.toolbar.library}
+            >
+              🗂
+            </button>
+            <button 
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-gradient-to-r from-red-800 to-red-600 hover:from-red-600 hover:to-red-400 text-white font-bold py-3 px-8 rounded-full shadow-[0_0_20px_rgba(196,30,58,0.6)] border border-yellow-500/30 transition-all transform hover:scale-105"
+            >
+              {uploading ? t.upload.processing : format(t.upload.button, { count: photos.length })}
+            </button>
+          </div>
+          {uploadErrors.length > 0 && (
+              <div className="mt-2 max-w-xs text-xs text-red-300 bg-red-900/40 border border-red-500/30 rounded-lg px-3 py-2 space-y-1">
+                  {uploadErrors.map((msg, i) => <p key={i}>⚠️ {msg}</p>)}
+                  <button onClick={() => setUploadErrors([])} className="text-white/60 hover:text-white underline">{t.upload.dismiss}</button>
+              </div>
+          )}
+          <p className="text-xs text-white/40 mt-1 mr-2">{t.upload.hint}</p>
         </div>
+        {libraryOpen && (
+            <PhotoManager 
+              photos={photos}
+              onMove={onPhotoMove}
+              onRemove={onPhotoRemove}
+              onEdit={(photo) => setEditing([photo])}
+              onClose={() => setLibraryOpen(false)}
+            />
+        )}
+        {editing.length > 0 && (
+            <CaptionEditor 
+              photos={editing}
+              onSave={onPhotoUpdate}
+              onClose={() => setEditing([])}
+            />
+        )}
       </div>
     </div>
   );
@@ -671,72 +722,326 @@ const UIOverlay: React.FC<{ mode: AppMode; onPhotoUpload: (urls: string[]) => vo
 // ==========================================
 
 export default function App() {
+  const { t, locale } = useI18n();
+  const greetingConfig = useMemo(() => resolveGreetingConfig(__GREETING_CONFIG__, window.location.search), []);
+  const greeting = useMemo(() => greetingTexts(greetingConfig, t.greeting), [greetingConfig, t]);
+  const seed = layoutSeed(greetingConfig);
   const [mode, setMode] = useState<AppMode>(AppMode.TREE);
-  const [photos, setPhotos] = useState<string[]>([]);
+  const { photos, loaded: libraryLoaded, addFiles, updatePhoto, removePhoto, movePhoto } = usePhotoLibrary();
+  usePresetPhotos(greetingConfig.photos, libraryLoaded, addFiles, updatePhoto);
+  // The build already set it from greeting.config.json; a URL override or another language may change it
+  useEffect(() => { document.title = greeting.pageTitle; }, [greeting]);
   const [handPos, setHandPos] = useState<{x: number, y: number}>({ x: 0.5, y: 0.5 });
   const [debugGesture, setDebugGesture] = useState<string>('NONE');
+  const [gestureConfidence, setGestureConfidence] = useState<number>(0);
+  const [activePhoto, setActivePhoto] = useState<number>(0);
+  const [zoom, setZoom] = useState<number>(1);
+  const lastSpreadRef = useRef<number | null>(null);
+  const lastGestureRef = useRef<string>('NONE');
+  const cursorSourceRef = useRef<InputEvent['source']>('hand');
+  const hoveredPhotoRef = useRef<number | null>(null);
+  const [handDetected, setHandDetected] = useState<boolean>(false);
+  const [handSize, setHandSize] = useState<number | null>(null);
+  const sceneRef = useRef<HTMLDivElement>(null);
+  const [bindings, setBindings] = useState<BindingMap>(loadBindings);
+  const captureRef = useRef<SceneCaptureHandle | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [customShapes, setCustomShapes] = useState<ShapeDefinition[]>([]);
+  const shapes = useMemo(() => [...BUILT_IN_SHAPES, ...customShapes], [customShapes]);
+  const [shapeId, setShapeId] = useState(BUILT_IN_SHAPES[0].id);
+  const shape = shapes.find(s => s.id === shapeId) ?? shapes[0];
+  const [themeSettings, setThemeSettings] = useState(() => loadThemeSettings(greetingConfig.theme));
+  const themes = useMemo(() => [...BUILT_IN_THEMES, ...themeSettings.custom], [themeSettings.custom]);
+  const theme = themes.find(t => t.id === themeSettings.activeId) ?? themes[0];
+  const [qualitySetting, setQualitySetting] = useState<QualitySetting>(loadQualitySetting);
+  const [autoTier, setAutoTier] = useState<QualityTier>(guessInitialTier);
+  const qualityTier = qualitySetting === 'auto' ? autoTier : qualitySetting;
+  const quality = QUALITY_PRESETS[qualityTier];
   
   // Game State
   const [gameStarted, setGameStarted] = useState(false);
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
-  const [startError, setStartError] = useState<string>('');
+  // Kept as a key so the message follows language changes
+  const [startError, setStartError] = useState<keyof Messages['camera'] | null>(null);
+  const audio = useAudio(greetingConfig.music);
+  const [remoteEnabled, setRemoteEnabled] = useState(false);
+  const [snowing, setSnowing] = useState(loadSnowSetting);
+  const [shakes, setShakes] = useState(0);
+  const [decoration, setDecoration] = useState(() => createHistory(loadDecoration(greetingConfig.decoration)));
+  const [heldOrnament, setHeldOrnament] = useState<OrnamentKind | null>(null);
+  // Where the held ornament would hang, as last aimed at by the hand or mouse
+  const treePointRef = useRef<THREE.Vector3 | null>(null);
 
   const handleStart = async () => {
+      // Browsers only allow audio to start inside the click that asked for it
+      audio.unlock().catch((e) => console.warn("Audio unavailable", e));
       try {
           console.log("Requesting camera...");
-          const stream = await navigator.mediaDevices.getUserMedia({
-              video: {
-                  width: { ideal: 640 },
-                  height: { ideal: 480 },
-                  facingMode: 'user' // Use front camera
-              }
-          });
+          const stream = await openFrontCamera();
           console.log("Camera access granted");
           setCameraStream(stream);
           setGameStarted(true);
       } catch (err: any) {
           console.error("Camera access denied:", err);
-          if (err.name === 'NotAllowedError') {
-              setStartError("请在设置中允许访问摄像头，然后刷新页面重试。");
-          } else if (err.name === 'NotFoundError') {
-              setStartError("未找到摄像头设备。");
-          } else {
-              setStartError("无法启动摄像头，请换个浏览器试试。");
-          }
+          setStartError(cameraErrorKey(err));
       }
   };
 
-  const handleGestureUpdate = useCallback((state: HandGestureState) => {
-    setHandPos(state.handPosition);
+  const saveCard = useCallback(async (options: SnapshotOptions) => {
+    if (!captureRef.current) throw new Error(messages().card.sceneLoading);
+    downloadBlob(await captureRef.current.snapshot(options), cardFilename('png'));
+  }, []);
+
+  const recordCard = useCallback(async () => {
+    if (!captureRef.current) throw new Error(messages().card.sceneLoading);
+    setRecording(true);
+    const timers = RECORDING_SCRIPT.map(step => setTimeout(() => setMode(step.mode), step.at));
+    try {
+      downloadBlob(await recordCanvas(captureRef.current.getCanvas(), RECORDING_DURATION_MS), cardFilename('webm'));
+    } finally {
+      timers.forEach(clearTimeout);
+      setRecording(false);
+    }
+  }, []);
+
+  const changeDecoration = (next: DecorationHistory) => {
+    if (next === decoration) return;
+    setDecoration(next);
+    saveDecoration(next.present);
+  };
+
+  const hangOrnament = (point: THREE.Vector3) => {
+    if (!heldOrnament || decoration.present.length >= MAX_ORNAMENTS) return;
+    if (heldOrnament === 'photo' && photos.length === 0) return;
+    const index = activePhoto % photos.length;
+    const photo = heldOrnament === 'photo' ? { id: photos[index].id, index } : null;
+    const ornament = createOrnament(heldOrnament, point, decoration.present.length, photo);
+    changeDecoration(commitDecoration(decoration, [...decoration.present, ornament]));
+    audio.playEffect('chime');
+  };
+
+  // In DECORATE a pinch picks up the palette ornament under the cursor, or hangs the held one
+  const pinchOrnament = (position: { x: number; y: number }) => {
+    const kind = ornamentKindAt(position);
+    if (kind) {
+      setHeldOrnament(kind);
+    } else if (treePointRef.current) {
+      hangOrnament(treePointRef.current);
+    }
+  };
+
+  // Named actions a gesture can be bound to; only those with a handler are offered in settings
+  const actionHandlers: Partial<Record<ActionName, (binding: GestureBinding) => void>> = useMemo(() => ({
+    setMode: (binding) => {
+      const photoMode = binding.mode;
+      if (photoMode === AppMode.INSPECT || photoMode === AppMode.MOSAIC) {
+        // Pinching while the cursor is over a photo inspects that specific photo
+        if (hoveredPhotoRef.current !== null) setActivePhoto(hoveredPhotoRef.current);
+        setMode((prev) => (prev !== photoMode && photos.length > 0 ? photoMode : prev));
+      } else if (binding.mode === AppMode.DECORATE) {
+        // Ornaments only hang on the tree shape
+        setShapeId(BUILT_IN_SHAPES[0].id);
+        setMode(AppMode.DECORATE);
+      } else if (binding.mode) {
+        setMode(binding.mode);
+      }
+    },
+    nextPhoto: () => {
+      if (photos.length > 0) setActivePhoto((prev) => (prev + 1) % photos.length);
+    },
+    prevPhoto: () => {
+      if (photos.length > 0) setActivePhoto((prev) => (prev - 1 + photos.length) % photos.length);
+    },
+    cycleShape: () => {
+      // Ornaments only hang on the tree shape
+      if (mode === AppMode.DECORATE) return;
+      setShapeId((prev) => shapes[(shapes.findIndex(s => s.id === prev) + 1) % shapes.length].id);
+      // Scattered particles would hide the change; bring them together
+      setMode((prev) => (prev === AppMode.SCATTER ? AppMode.TREE : prev));
+    },
+    snapshot: () => {
+      saveCard({ width: null, height: null, overlayText: greeting.title })
+        .catch((e) => console.warn("Snapshot failed", e));
+    },
+    toggleMusic: audio.toggleMusic,
+    shakeTree: () => {
+      setShakes((prev) => prev + 1);
+      audio.playEffect('whoosh');
+    },
+    undoOrnament: () => changeDecoration(undoDecoration(decoration)),
+  }), [mode, photos.length, saveCard, shapes, audio.toggleMusic, audio.playEffect, greeting.title, decoration]);
+
+  const runBinding = useCallback((binding: GestureBinding | null) => {
+    if (binding) actionHandlers[binding.action]?.(binding);
+  }, [actionHandlers]);
+
+  const selectShape = (id: string) => {
+    setShapeId(id);
+    setMode((prev) => (prev === AppMode.SCATTER ? AppMode.TREE : prev));
+  };
+
+  const addShape = (next: ShapeDefinition) => {
+    setCustomShapes((prev) => [...prev, next]);
+    selectShape(next.id);
+  };
+
+  const updateThemeSettings = (next: typeof themeSettings) => {
+    setThemeSettings(next);
+    saveThemeSettings(next);
+  };
+
+  // Throws the parser's user-facing message so the panel can show it
+  const importTheme = (json: string) => {
+    const imported = parseTheme(json);
+    updateThemeSettings({ activeId: imported.id, custom: [...themeSettings.custom, imported] });
+  };
+
+  const exportTheme = () => {
+    downloadBlob(new Blob([serializeTheme(theme)], { type: 'application/json' }), `theme-${theme.id}.json`);
+  };
+
+  const removeTheme = (id: string) => {
+    updateThemeSettings({
+      activeId: themeSettings.activeId === id ? BUILT_IN_THEMES[0].id : themeSettings.activeId,
+      custom: themeSettings.custom.filter(t => t.id !== id),
+    });
+  };
+
+  const handleQualityChange = (next: QualitySetting) => {
+    setQualitySetting(next);
+    saveQualitySetting(next);
+  };
+
+  const toggleSnow = () => {
+    setSnowing(!snowing);
+    saveSnowSetting(!snowing);
+  };
+
+  const toggleDecorate = () => {
+    if (mode === AppMode.DECORATE) setMode(AppMode.TREE);
+    else runBinding({ action: 'setMode', mode: AppMode.DECORATE });
+  };
+
+  // Throws the parser's user-facing message so the panel can show it
+  const importDecoration = (json: string) => {
+    changeDecoration(commitDecoration(decoration, parseDecoration(json)));
+  };
+
+  const exportDecoration = () => {
+    downloadBlob(new Blob([serializeDecoration(decoration.present)], { type: 'application/json' }), 'decoration.json');
+  };
+
+  const stepAutoQuality = useCallback((direction: 1 | -1) => {
+    setAutoTier((prev) => stepTier(prev, direction, AUTO_MAX_TIER));
+  }, []);
+
+  const handleBindingsChange = (next: BindingMap) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const applyZoom = useCallback((factor: number) => {
+    setZoom((prev) => THREE.MathUtils.clamp(prev * factor, 0.6, 2.0));
+  }, []);
+
+  const handleGestureUpdate = (state: HandGestureState) => {
+    // Hand only drives the cursor while visible, so mouse/touch parallax isn't reset to center
+    if (state.isHandDetected || cursorSourceRef.current === 'hand') {
+      setHandPos(state.handPosition);
+      cursorSourceRef.current = 'hand';
+    }
+    setHandDetected(state.isHandDetected);
+    setHandSize(state.handSize);
     setDebugGesture(state.gesture);
+    setGestureConfidence(state.confidence);
+
+    // Poses fire once when they are committed, motions fire on the frame they are recognized
+    if (state.gesture !== lastGestureRef.current) {
+      lastGestureRef.current = state.gesture;
+      if (mode === AppMode.DECORATE && state.gesture === 'PINCH') {
+        pinchOrnament(state.handPosition);
+      } else {
+        runBinding(routeGesture(bindings, state.gesture, { mode, photoHovered: hoveredPhotoRef.current !== null }));
+      }
+    }
+    if (state.motion) {
+      runBinding(routeGesture(bindings, state.motion, { mode, photoHovered: hoveredPhotoRef.current !== null }));
+    }
 
-    if (state.gesture === 'FIST') {
-      setMode(AppMode.TREE);
-    } else if (state.gesture === 'OPEN') {
-      setMode(AppMode.SCATTER);
-    } else if (state.gesture === 'PINCH') {
-       setMode((prev) => (prev !== AppMode.INSPECT && photos.length > 0 ? AppMode.INSPECT : prev));
+    // Relative change of the two-hand spread drives zoom
+    if (state.handSpread !== null && lastSpreadRef.current !== null && lastSpreadRef.current > 0) {
+      applyZoom(state.handSpread / lastSpreadRef.current);
     }
-  }, [photos.length]);
+    lastSpreadRef.current = state.handSpread;
+  };
 
-  const handlePhotoUpload = (newPhotos: string[]) => {
-    setPhotos(prev => [...prev, ...newPhotos]);
+  // Single entry point for every input provider (hand, keyboard, mouse, touch)
+  const handleInput = (event: InputEvent) => {
+    switch (event.type) {
+      case 'gesture':
+        handleGestureUpdate(event.state);
+        break;
+      case 'action':
+        runBinding(event.binding);
+        break;
+      case 'cursor':
+        setHandPos(event.position);
+        cursorSourceRef.current = event.source;
+        break;
+      case 'zoom':
+        applyZoom(event.factor);
+        break;
+      case 'selectPhoto':
+        setActivePhoto(event.index);
+        setMode(AppMode.INSPECT);
+        break;
+    }
   };
 
+  // Every transition gets its sound, whichever input caused it
+  useEffect(() => {
+    if (gameStarted) audio.playEffect(MODE_SOUNDS[mode]);
+  }, [mode]);
+
+  useKeyboardInput(handleInput, gameStarted);
+  usePointerInput(sceneRef, handleInput, gameStarted);
+  const remote = useRemoteDisplay(remoteEnabled, handleInput);
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
       {/* 3D Scene - Always rendered in background */}
-      <div className="absolute inset-0 z-0">
+      <div ref={sceneRef} className="absolute inset-0 z-0" style={{ touchAction: 'none' }}>
         <Canvas
-          shadows
-          camera={{ position: [0, 2, 38], fov: 45 }}
+          shadows={quality.shadows}
+          camera={{ position: [0, 2, CAMERA_DISTANCE], fov: 45 }}
           gl={{ antialias: false, toneMappingExposure: 1.5 }}
-          dpr={[1, 2]} 
+          dpr={quality.dpr} 
         >
           <Experience 
             mode={mode} 
             photos={photos} 
+            activePhoto={activePhoto}
             handPos={handPos}
+            handCursor={handDetected ? handPos : null}
+            handSize={handSize}
+            handForce={handDetected ? GESTURE_FORCES[debugGesture] ?? null : null}
+            zoom={zoom}
+            onPhotoSelect={(index) => handleInput({ source: 'pointer', type: 'selectPhoto', index })}
+            onPhotoHover={(index) => { hoveredPhotoRef.current = index; }}
+            captureRef={captureRef}
+            quality={quality}
+            onQualityStep={qualitySetting === 'auto' ? stepAutoQuality : undefined}
+            shape={shape}
+            theme={theme}
+            locale={locale}
+            seed={seed}
+            snowing={snowing}
+            shakes={shakes}
+            ornaments={decoration.present}
+            heldOrnament={heldOrnament}
+            onTreeHover={(point) => { treePointRef.current = point; }}
+            onTreeClick={hangOrnament}
+            getAudioLevel={audio.getLevel}
           />
         </Canvas>
         <Loader />
@@ -744,22 +1049,78 @@ export default function App() {
 
       {/* Landing / Start Screen */}
       {!gameStarted && (
-          <LandingScreen onStart={handleStart} error={startError} />
+          <LandingScreen 
+            greeting={greeting}
+            onStart={handleStart} 
+            onStartWithoutCamera={() => {
+              audio.unlock().catch((e) => console.warn("Audio unavailable", e));
+              setGameStarted(true);
+            }} 
+            error={startError ? t.camera[startError] : undefined} 
+          />
       )}
 
       {/* Logic Layer: MediaPipe - Only active after start */}
       <HandManager 
          stream={cameraStream} 
-         onGestureUpdate={handleGestureUpdate} 
+         onInput={handleInput} 
       />
 
       {/* UI Layer */}
       <UIOverlay 
+        greeting={greeting}
         visible={gameStarted}
         mode={mode} 
-        onPhotoUpload={handlePhotoUpload} 
-        photoCount={photos.length}
+        onPhotoUpload={addFiles} 
+        photos={photos}
+        onPhotoUpdate={updatePhoto}
+        onPhotoMove={movePhoto}
+        onPhotoRemove={removePhoto}
         currentGesture={debugGesture}
+        gestureConfidence={gestureConfidence}
+        bindings={bindings}
+        availableActions={Object.keys(actionHandlers) as ActionName[]}
+        onBindingsChange={handleBindingsChange}
+        recording={recording}
+        onSaveCard={saveCard}
+        onRecordCard={recordCard}
+        qualitySetting={qualitySetting}
+        qualityTier={qualityTier}
+        onQualityChange={handleQualityChange}
+        shapes={shapes}
+        shapeId={shape.id}
+        onShapeSelect={selectShape}
+        onShapeAdd={addShape}
+        themes={themes}
+        themeId={theme.id}
+        onThemeSelect={(id) => updateThemeSettings({ ...themeSettings, activeId: id })}
+        onThemeImport={importTheme}
+        onThemeExport={exportTheme}
+        onThemeRemove={removeTheme}
+        audioSettings={audio.settings}
+        customTrackName={audio.customTrackName}
+        trackError={audio.trackError}
+        onToggleMute={audio.toggleMute}
+        onVolumeChange={audio.setVolume}
+        onTrackSelect={audio.selectTrack}
+        onTrackFile={audio.loadTrackFile}
+        remote={{ enabled: remoteEnabled, ...remote }}
+        onRemoteEnable={setRemoteEnabled}
+        snowing={snowing}
+        onSnowToggle={toggleSnow}
+        decorate={{
+          handCursor: handDetected ? handPos : null,
+          ornaments: decoration.present.length,
+          canUndo: decoration.past.length > 0,
+          held: heldOrnament,
+          hasPhotos: photos.length > 0,
+          onPick: setHeldOrnament,
+          onUndo: () => changeDecoration(undoDecoration(decoration)),
+          onClear: () => changeDecoration(commitDecoration(decoration, [])),
+          onImport: importDecoration,
+          onExport: exportDecoration,
+        }}
+        onDecorateToggle={toggleDecorate}
       />
     </div>
   );
@@ -774,9 +1135,14 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// A phone opened from the display's QR code becomes a remote control instead of a second tree
+const remoteParam = new URLSearchParams(window.location.search).get(REMOTE_PARAM);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      {remoteParam !== null ? <RemoteController initialCode={normalizePairingCode(remoteParam)} /> : <App />}
+    </I18nProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,286 @@
+import { Messages } from './zh-CN.ts';
+
+// ==========================================
+// English
+// ==========================================
+
+export const en: Messages = {
+  languageName: 'English',
+
+  greeting: {
+    pageTitle: "{name}'s Christmas",
+    title: 'Merry Christmas, {name}!',
+    subtitle: 'Wave your hands and light up the magic',
+    landingTitle: 'A Christmas Gift for {name}',
+    landingText: 'A 3D magic experience you control with hand gestures.\nPlease allow camera access so we can see your magic moves.',
+  },
+
+  landing: {
+    privacy: '👋 Everything is processed on your device; no video is uploaded',
+    start: 'Start the Magic',
+    withoutCamera: 'No camera? Use mouse / touch / keyboard instead →',
+    remote: '📱 Use this phone as a remote for a big screen →',
+  },
+
+  camera: {
+    denied: 'Please allow camera access in your settings, then reload the page.',
+    notFound: 'No camera was found.',
+    failed: 'Could not start the camera. Please try another browser.',
+  },
+
+  model: {
+    loadingWasm: 'Loading the AI engine...',
+    downloading: 'Downloading the gesture model {percent}%',
+    initializing: 'Initializing ({delegate})...',
+    cpu: 'CPU mode',
+    gpu: 'GPU accelerated',
+    failed: '⚠️ The AI model failed to load',
+    failedHint: 'Check your connection and reload, or use the mouse / keyboard',
+  },
+
+  status: {
+    current: 'Now: {gesture}',
+    inspecting: 'Savoring a lovely moment...',
+    mosaic: 'Stitching the memory from starlight...',
+    decorate: 'Decorating the tree',
+  },
+
+  gestureStatus: {
+    FIST: '✊ Gather (Christmas tree)',
+    OPEN: '✋ Scatter (starry sky)',
+    PINCH: '🤏 View photo (pinch)',
+    POINT: '☝️ Point (swipe to browse)',
+    THUMBS_UP: '👍 Thumbs up',
+    NONE: 'Looking for your hand...',
+  },
+
+  legend: {
+    move: '👋 Move:',
+    moveAction: 'Orbit the view',
+    depth: '🫴 Hand closer / farther:',
+    depthAction: 'Push the camera in and out',
+    spread: '🙌 Hands apart / together:',
+    spreadAction: 'Zoom in and out',
+    field: '✋ / 🤏 In the starry sky:',
+    fieldAction: 'Push away / swirl the stardust',
+    keyboard: '⌨️ No camera: T/S/I/P/D modes · C shapes · K shake off snow · Z undo ornament · M music · ←/→ browse · drag to rotate · pinch/wheel to zoom · click a photo to view',
+  },
+
+  toolbar: {
+    bindings: 'Gesture settings',
+    card: 'Save a card',
+    shapes: 'Shapes',
+    themes: 'Themes',
+    library: 'Manage memories',
+    language: 'Language',
+    remote: 'Phone remote',
+    snow: 'Snowfall on/off',
+    decorate: 'Decorate the tree',
+  },
+
+  upload: {
+    button: 'Upload memories ({count})',
+    processing: 'Processing photos...',
+    dismiss: 'Got it',
+    hint: 'JPG and PNG (HEIC in Safari) · Photos stay in this browser',
+    heicUnsupported: '"{name}" is a HEIC image this browser cannot read. Please convert it to JPG first',
+    unreadable: '"{name}" could not be read. Please try another photo',
+  },
+
+  library: {
+    title: 'My memories ({count})',
+    empty: 'No photos yet. Upload a few to get started',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    edit: 'Edit caption',
+    remove: 'Delete',
+  },
+
+  captions: {
+    title: 'A few words for your memories',
+    placeholder: 'Add a caption (optional)',
+    skip: 'Skip',
+    save: 'Save',
+  },
+
+  bindings: {
+    title: 'Gesture settings',
+    unbound: '— Not bound —',
+    presets: {
+      default: 'Default',
+      leftHanded: 'Left hand',
+      kids: 'Kids',
+    },
+    actions: {
+      'setMode:TREE': 'Summon the tree',
+      'setMode:SCATTER': 'Scatter into stars',
+      'setMode:INSPECT': 'Grab a memory',
+      'setMode:MOSAIC': 'Starlight mosaic',
+      'setMode:DECORATE': 'Decorate the tree',
+      nextPhoto: 'Next photo',
+      prevPhoto: 'Previous photo',
+      toggleMusic: 'Music on/off',
+      snapshot: 'Take a snapshot',
+      cycleShape: 'Next shape',
+      shakeTree: 'Shake off the snow',
+      undoOrnament: 'Undo the last ornament',
+    },
+    gestures: {
+      FIST: 'Fist',
+      OPEN: 'Open hand',
+      PINCH: 'Pinch',
+      POINT: 'Point',
+      THUMBS_UP: 'Thumbs up',
+      SWIPE_LEFT: 'Swipe left',
+      SWIPE_RIGHT: 'Swipe right',
+      CIRCLE: 'Draw a circle',
+      WAVE: 'Wave',
+      SHAKE: 'Shake a fist',
+      SPREAD: 'Both hands apart',
+      SQUEEZE: 'Both hands together',
+    },
+  },
+
+  quality: {
+    title: 'Quality',
+    auto: 'Auto',
+    autoActive: 'Auto · {tier}',
+    tiers: {
+      low: 'Low',
+      medium: 'Medium',
+      high: 'High',
+      ultra: 'Ultra',
+    },
+  },
+
+  audio: {
+    mute: 'Mute',
+    unmute: 'Unmute',
+    volume: 'Volume',
+    music: 'Background music',
+    pickFile: '📂 Choose a local file…',
+    greetingTrack: 'Our song',
+    unplayable: '"{name}" cannot be played. Please try an MP3 / M4A / OGG file',
+    tracks: {
+      jingleBells: 'Jingle Bells',
+      weWishYou: 'We Wish You a Merry Christmas',
+      silentNight: 'Silent Night',
+    },
+  },
+
+  card: {
+    title: 'Save a card',
+    size: 'Size',
+    text: 'Greeting (leave empty to hide)',
+    save: '📸 Save image',
+    saving: 'Rendering...',
+    record: '🎬 Record {seconds}s',
+    recording: '● Recording',
+    recordHint: 'Records gather → scatter → gather',
+    recordUnsupported: 'This browser cannot record video',
+    videoHint: 'Videos are WebM and contain only the 3D scene',
+    sizes: {
+      screen: 'Current screen',
+      landscape: 'Landscape 1920×1080',
+      portrait: 'Portrait 1080×1920 (phone wallpaper)',
+      square: 'Square 2048×2048',
+    },
+    sceneLoading: 'The scene is still loading, please try again shortly',
+    busy: 'Still rendering the previous card, please wait',
+    encodeFailed: 'Could not create the image, please try again',
+    recordFailed: 'Recording failed, please try again',
+    recordingUnsupported: 'This browser cannot record video. Please use desktop Chrome or Firefox',
+  },
+
+  shapes: {
+    title: 'Shapes',
+    text: 'Text shape',
+    generate: 'Create',
+    image: '🖼 Image outline',
+    model: '🧊 3D model',
+    generating: 'Creating the shape...',
+    hint: 'Use silhouettes on a transparent or plain background · Models: .glb',
+    defaultText: 'Merry Christmas',
+    names: {
+      tree: 'Tree',
+      heart: 'Heart',
+      snowman: 'Snowman',
+      star: 'Star',
+      galaxy: 'Galaxy',
+    },
+    emptyText: 'Please enter some text',
+    noOutline: 'No usable outline was found, please try another',
+    imageUnreadable: '"{name}" could not be read, please try another image',
+    modelUnreadable: '"{name}" could not be read. Please use a .glb or single-file .gltf model',
+  },
+
+  themes: {
+    title: 'Themes',
+    import: '📥 Import theme',
+    export: '📤 Export current',
+    remove: 'Delete',
+    hint: 'Edit the colors in the exported JSON and import it again for other holidays',
+    names: {
+      classic: 'Classic Christmas',
+      snowy: 'Snowy Blue',
+      springFestival: 'Lunar New Year',
+      birthday: 'Birthday Party',
+    },
+    invalidField: 'Invalid theme file: {field}',
+    missingTheme: 'the theme field is missing',
+    notJson: 'Could not read the theme file. Is it JSON?',
+    badVersion: 'Unsupported theme file version',
+  },
+
+  decorate: {
+    title: 'Decorate the tree',
+    kinds: {
+      bauble: 'Bauble',
+      bell: 'Bell',
+      candyCane: 'Candy cane',
+      light: 'Light',
+      photo: 'Photo ornament',
+    },
+    hint: 'Pinch an ornament to pick it up, then pinch over the tree to hang it. Clicking works too.',
+    noPhotos: 'Upload a photo first',
+    count: '{count} / {max} ornaments',
+    undo: '↩️ Undo',
+    clear: '🗑 Clear',
+    export: '📤 Save',
+    import: '📥 Load',
+    done: 'Done',
+    invalidField: 'Invalid decoration file: {field}',
+    notJson: 'Could not read the decoration file. Is it JSON?',
+    badVersion: 'Unsupported decoration file version',
+  },
+
+  remote: {
+    title: 'Phone remote',
+    enable: '📱 Turn on remote',
+    disable: 'Disconnect',
+    scanHint: 'Scan the QR code with a phone, or open this address there:',
+    code: 'Pairing code',
+    status: {
+      connecting: 'Connecting to the relay…',
+      open: 'Connected',
+      closed: 'Not connected',
+    },
+    controllers: '{count} phone(s) connected',
+    relayHint: 'Phone and screen must share a network, with npm run relay running on the computer',
+    controllerTitle: 'Magic Remote',
+    enterCode: 'Enter the pairing code shown on the big screen',
+    join: 'Connect',
+    changeCode: 'Change code',
+    waitingDisplay: 'Waiting for the big screen…',
+    paired: 'Connected to the big screen',
+    useCamera: '✋ Use the camera for gestures',
+    cameraHint: 'Make gestures at the phone and the big screen follows',
+    touchpad: 'Drag here to turn the view · pinch to zoom',
+  },
+
+  greetingConfig: {
+    notObject: 'The greeting config must be a JSON object',
+    invalidField: 'Invalid greeting config: {field}',
+    undecodable: 'The greeting in this link could not be decoded',
+  },
+};
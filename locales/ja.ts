@@ -0,0 +1,286 @@
+import { Messages } from './zh-CN.ts';
+
+// ==========================================
+// 日本語
+// ==========================================
+
+export const ja: Messages = {
+  languageName: '日本語',
+
+  greeting: {
+    pageTitle: '{name}のクリスマス',
+    title: '{name}、メリークリスマス！',
+    subtitle: '手をかざして、魔法を灯そう',
+    landingTitle: '{name}へのクリスマスプレゼント',
+    landingText: 'ハンドジェスチャーで遊ぶ 3D の魔法体験です。\n魔法の手の動きを読み取るため、カメラへのアクセスを許可してください。',
+  },
+
+  landing: {
+    privacy: '👋 映像は端末内だけで処理され、アップロードされません',
+    start: '魔法をはじめる',
+    withoutCamera: 'カメラなしで、マウス / タッチ / キーボードで遊ぶ →',
+    remote: '📱 このスマホを大画面のリモコンにする →',
+  },
+
+  camera: {
+    denied: '設定でカメラへのアクセスを許可してから、ページを再読み込みしてください。',
+    notFound: 'カメラが見つかりません。',
+    failed: 'カメラを起動できません。別のブラウザでお試しください。',
+  },
+
+  model: {
+    loadingWasm: 'AI エンジンを読み込み中...',
+    downloading: 'ジェスチャーモデルをダウンロード中 {percent}%',
+    initializing: '初期化中 ({delegate})...',
+    cpu: 'CPU モード',
+    gpu: 'GPU アクセラレーション',
+    failed: '⚠️ AI モデルを読み込めませんでした',
+    failedHint: '接続を確認して再読み込みするか、マウス / キーボードで操作してください',
+  },
+
+  status: {
+    current: '現在: {gesture}',
+    inspecting: '素敵な瞬間を振り返り中...',
+    mosaic: '星の光で思い出を描いています...',
+    decorate: 'ツリーを飾り付け中',
+  },
+
+  gestureStatus: {
+    FIST: '✊ 集合 (クリスマスツリー)',
+    OPEN: '✋ 拡散 (満天の星)',
+    PINCH: '🤏 写真を見る (ピンチ)',
+    POINT: '☝️ 指さし (スワイプでめくる)',
+    THUMBS_UP: '👍 いいね',
+    NONE: '手を探しています...',
+  },
+
+  legend: {
+    move: '👋 動かす:',
+    moveAction: '視点を回転',
+    depth: '🫴 手を近づける / 離す:',
+    depthAction: 'カメラを寄せる / 引く',
+    spread: '🙌 両手を開く / 閉じる:',
+    spreadAction: 'ズームイン / アウト',
+    field: '✋ / 🤏 星空で:',
+    fieldAction: '星くずを押しのける / 渦巻かせる',
+    keyboard: '⌨️ カメラなし: T/S/I/P/D モード切替 · C 形を切替 · K 雪を落とす · Z 飾りを取り消す · M 音楽 · ←/→ めくる · ドラッグで回転 · ピンチ/ホイールでズーム · 写真をクリックで表示',
+  },
+
+  toolbar: {
+    bindings: 'ジェスチャー設定',
+    card: 'カードを保存',
+    shapes: '形を変える',
+    themes: 'テーマ',
+    library: '思い出を管理',
+    language: '言語',
+    remote: 'スマホリモコン',
+    snow: '雪のオン/オフ',
+    decorate: 'ツリーを飾る',
+  },
+
+  upload: {
+    button: '思い出をアップロード ({count})',
+    processing: '写真を処理中...',
+    dismiss: 'OK',
+    hint: 'JPG、PNG に対応 (Safari は HEIC も可) · 写真はこのブラウザ内に保存されます',
+    heicUnsupported: '「{name}」は HEIC 形式のため、このブラウザでは読み込めません。JPG に変換してからアップロードしてください',
+    unreadable: '「{name}」を読み込めません。別の写真でお試しください',
+  },
+
+  library: {
+    title: 'わたしの思い出 ({count})',
+    empty: 'まだ写真がありません。何枚かアップロードしてみましょう',
+    moveUp: '上へ',
+    moveDown: '下へ',
+    edit: '説明を編集',
+    remove: '削除',
+  },
+
+  captions: {
+    title: '思い出にひとこと',
+    placeholder: '説明を入力 (任意)',
+    skip: 'スキップ',
+    save: '保存',
+  },
+
+  bindings: {
+    title: 'ジェスチャー設定',
+    unbound: '— 割り当てなし —',
+    presets: {
+      default: '標準',
+      leftHanded: '左手',
+      kids: 'こども',
+    },
+    actions: {
+      'setMode:TREE': 'ツリーを呼び出す',
+      'setMode:SCATTER': '星空に散らす',
+      'setMode:INSPECT': '思い出をつかむ',
+      'setMode:MOSAIC': '星のモザイク',
+      'setMode:DECORATE': 'ツリーを飾る',
+      nextPhoto: '次の写真',
+      prevPhoto: '前の写真',
+      toggleMusic: '音楽のオン/オフ',
+      snapshot: '記念撮影',
+      cycleShape: '形を切り替え',
+      shakeTree: '雪を振り落とす',
+      undoOrnament: '最後の飾りを取り消す',
+    },
+    gestures: {
+      FIST: 'グー',
+      OPEN: 'パー',
+      PINCH: 'ピンチ',
+      POINT: '指さし',
+      THUMBS_UP: 'いいね',
+      SWIPE_LEFT: '左スワイプ',
+      SWIPE_RIGHT: '右スワイプ',
+      CIRCLE: '円を描く',
+      WAVE: '手を振る',
+      SHAKE: 'グーで揺らす',
+      SPREAD: '両手を開く',
+      SQUEEZE: '両手を合わせる',
+    },
+  },
+
+  quality: {
+    title: '画質',
+    auto: '自動',
+    autoActive: '自動 · {tier}',
+    tiers: {
+      low: '低',
+      medium: '中',
+      high: '高',
+      ultra: '最高',
+    },
+  },
+
+  audio: {
+    mute: 'ミュート',
+    unmute: 'ミュート解除',
+    volume: '音量',
+    music: 'BGM',
+    pickFile: '📂 ファイルから選ぶ…',
+    greetingTrack: '特別な曲',
+    unplayable: '「{name}」を再生できません。MP3 / M4A / OGG ファイルをお試しください',
+    tracks: {
+      jingleBells: 'ジングルベル',
+      weWishYou: 'おめでとうクリスマス',
+      silentNight: 'きよしこの夜',
+    },
+  },
+
+  card: {
+    title: 'カードを保存',
+    size: 'サイズ',
+    text: 'メッセージ (空欄で非表示)',
+    save: '📸 画像を保存',
+    saving: '作成中...',
+    record: '🎬 {seconds} 秒録画',
+    recording: '● 録画中',
+    recordHint: '集合 → 拡散 → 集合 のアニメーションを録画',
+    recordUnsupported: 'このブラウザは録画に対応していません',
+    videoHint: '動画は WebM 形式で、3D シーンのみ含まれます',
+    sizes: {
+      screen: '現在の画面',
+      landscape: '横 1920×1080',
+      portrait: '縦 1080×1920 (スマホ壁紙)',
+      square: '正方形 2048×2048',
+    },
+    sceneLoading: 'シーンを読み込み中です。しばらくしてからお試しください',
+    busy: '前のカードを作成中です。お待ちください',
+    encodeFailed: '画像を作成できませんでした。もう一度お試しください',
+    recordFailed: '録画に失敗しました。もう一度お試しください',
+    recordingUnsupported: 'このブラウザは動画の録画に対応していません。PC 版 Chrome か Firefox をお使いください',
+  },
+
+  shapes: {
+    title: '形を変える',
+    text: '文字の形',
+    generate: '作成',
+    image: '🖼 画像の輪郭',
+    model: '🧊 3D モデル',
+    generating: '形を作成中...',
+    hint: '透明または単色背景のシルエット画像を使ってください · モデルは .glb に対応',
+    defaultText: 'Merry Christmas',
+    names: {
+      tree: 'ツリー',
+      heart: 'ハート',
+      snowman: '雪だるま',
+      star: '星',
+      galaxy: '銀河',
+    },
+    emptyText: '表示する文字を入力してください',
+    noOutline: '使える輪郭が見つかりません。別のものでお試しください',
+    imageUnreadable: '「{name}」を読み込めません。別の画像でお試しください',
+    modelUnreadable: '「{name}」を読み込めません。.glb または単一ファイルの .gltf モデルを使ってください',
+  },
+
+  themes: {
+    title: 'テーマ',
+    import: '📥 テーマを読み込む',
+    export: '📤 現在のテーマを書き出す',
+    remove: '削除',
+    hint: '書き出した JSON の色を編集して読み込めば、ほかの行事にも使えます',
+    names: {
+      classic: 'クラシック',
+      snowy: 'スノーブルー',
+      springFestival: '旧正月レッド',
+      birthday: 'バースデー',
+    },
+    invalidField: 'テーマファイルの形式が正しくありません: {field}',
+    missingTheme: 'theme がありません',
+    notJson: 'テーマファイルを読み込めません。JSON 形式か確認してください',
+    badVersion: '対応していないテーマファイルのバージョンです',
+  },
+
+  decorate: {
+    title: 'ツリーを飾る',
+    kinds: {
+      bauble: 'オーナメントボール',
+      bell: 'ベル',
+      candyCane: 'キャンディケイン',
+      light: 'ライト',
+      photo: '写真オーナメント',
+    },
+    hint: 'ピンチで飾りを選び、ツリーの上でもう一度ピンチして飾ります。クリックでも操作できます',
+    noPhotos: '先に写真をアップロードしてください',
+    count: '飾り {count} / {max} 個',
+    undo: '↩️ 元に戻す',
+    clear: '🗑 すべて外す',
+    export: '📤 保存',
+    import: '📥 読み込み',
+    done: '完了',
+    invalidField: '飾り付けファイルの形式が正しくありません: {field}',
+    notJson: '飾り付けファイルを読み込めません。JSON 形式か確認してください',
+    badVersion: '対応していない飾り付けファイルのバージョンです',
+  },
+
+  remote: {
+    title: 'スマホリモコン',
+    enable: '📱 リモコンをオン',
+    disable: '切断',
+    scanHint: 'スマホで QR コードを読み取るか、次のアドレスを開いてください：',
+    code: 'ペアリングコード',
+    status: {
+      connecting: '中継サーバーに接続中…',
+      open: '接続済み',
+      closed: '未接続',
+    },
+    controllers: '{count} 台のスマホが接続中',
+    relayHint: 'スマホと大画面を同じネットワークにつなぎ、パソコンで npm run relay を実行してください',
+    controllerTitle: '魔法のリモコン',
+    enterCode: '大画面に表示されたペアリングコードを入力',
+    join: '接続',
+    changeCode: 'コードを変更',
+    waitingDisplay: '大画面を待っています…',
+    paired: '大画面に接続しました',
+    useCamera: '✋ カメラでジェスチャー',
+    cameraHint: 'スマホに向かってジェスチャーすると大画面が反応します',
+    touchpad: 'ここをドラッグして視点を回転 · ピンチでズーム',
+  },
+
+  greetingConfig: {
+    notObject: 'メッセージ設定は JSON オブジェクトである必要があります',
+    invalidField: 'メッセージ設定の形式が正しくありません: {field}',
+    undecodable: 'リンクのメッセージ設定をデコードできません',
+  },
+};
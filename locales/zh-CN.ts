@@ -0,0 +1,293 @@
+// ==========================================
+// 简体中文 (source catalog)
+// ==========================================
+// Every other catalog is typed against this one, so a missing key is a compile
+// error. "{x}" placeholders are filled by format().
+
+export const zhCN = {
+  languageName: '简体中文',
+
+  // Used when greeting.config.json leaves a text out; "{name}" is the recipient
+  greeting: {
+    pageTitle: '{name}的圣诞节',
+    title: '{name}圣诞节快乐！',
+    subtitle: '挥动双手，点亮魔法',
+    landingTitle: '{name}的圣诞礼物',
+    landingText: '这是一个基于手势互动的 3D 魔法体验。\n请允许使用摄像头来捕捉你的魔法手势。',
+  },
+
+  landing: {
+    privacy: '👋 数据仅在本地处理，不会上传任何影像',
+    start: '开启魔法',
+    withoutCamera: '不用摄像头，用鼠标 / 触屏 / 键盘体验 →',
+    remote: '📱 把这台手机当作大屏的遥控器 →',
+  },
+
+  camera: {
+    denied: '请在设置中允许访问摄像头，然后刷新页面重试。',
+    notFound: '未找到摄像头设备。',
+    failed: '无法启动摄像头，请换个浏览器试试。',
+  },
+
+  model: {
+    loadingWasm: '正在加载 AI 引擎...',
+    downloading: '正在下载手势模型 {percent}%',
+    initializing: '正在初始化 ({delegate})...',
+    cpu: 'CPU 模式',
+    gpu: 'GPU 加速',
+    failed: '⚠️ AI 模型加载失败',
+    failedHint: '请检查网络连接后刷新页面重试，或使用鼠标 / 键盘操作',
+  },
+
+  status: {
+    current: '当前状态: {gesture}',
+    inspecting: '正在回味美好瞬间...',
+    mosaic: '星光正在拼出这段回忆...',
+    decorate: '正在装扮圣诞树',
+  },
+
+  // Live recognition readout
+  gestureStatus: {
+    FIST: '✊ 聚合模式 (圣诞树)',
+    OPEN: '✋ 散开模式 (漫天星光)',
+    PINCH: '🤏 查看照片 (捏合)',
+    POINT: '☝️ 指向 (滑动翻页)',
+    THUMBS_UP: '👍 点赞',
+    NONE: '正在寻找手势...',
+  } as Record<string, string>,
+
+  legend: {
+    move: '👋 移动:',
+    moveAction: '旋转观察视角',
+    depth: '🫴 手掌靠近 / 远离:',
+    depthAction: '推近拉远镜头',
+    spread: '🙌 双手张合:',
+    spreadAction: '拉近拉远镜头',
+    field: '✋ / 🤏 星空中:',
+    fieldAction: '推开 / 卷起星尘',
+    keyboard: '⌨️ 无摄像头: T/S/I/P/D 切换模式 · C 切换造型 · K 抖落积雪 · Z 撤销挂饰 · M 音乐 · ←/→ 翻页 · 拖动旋转 · 双指/滚轮缩放 · 点照片查看',
+  },
+
+  toolbar: {
+    bindings: '手势设置',
+    card: '保存贺卡',
+    shapes: '变换造型',
+    themes: '主题',
+    library: '管理回忆',
+    language: '语言',
+    remote: '手机遥控',
+    snow: '下雪开关',
+    decorate: '装扮圣诞树',
+  },
+
+  upload: {
+    button: '上传回忆 ({count})',
+    processing: '正在处理照片...',
+    dismiss: '知道了',
+    hint: '支持 JPG, PNG (Safari 支持 HEIC) · 照片保存在本机浏览器中',
+    heicUnsupported: '「{name}」是 HEIC 格式，当前浏览器无法读取，请转为 JPG 后再上传',
+    unreadable: '「{name}」无法读取，请换一张照片试试',
+  },
+
+  library: {
+    title: '我的回忆 ({count})',
+    empty: '还没有照片，先上传几张吧',
+    moveUp: '上移',
+    moveDown: '下移',
+    edit: '编辑描述',
+    remove: '删除',
+  },
+
+  captions: {
+    title: '为回忆写几句话',
+    placeholder: '写一句描述 (可选)',
+    skip: '跳过',
+    save: '保存',
+  },
+
+  bindings: {
+    title: '手势设置',
+    unbound: '— 不绑定 —',
+    presets: {
+      default: '默认',
+      leftHanded: '左手',
+      kids: '儿童',
+    } as Record<string, string>,
+    // Keyed like ACTION_CATALOG
+    actions: {
+      'setMode:TREE': '召唤圣诞树',
+      'setMode:SCATTER': '散落漫天星光',
+      'setMode:INSPECT': '抓取美好回忆',
+      'setMode:MOSAIC': '星光拼图',
+      'setMode:DECORATE': '装扮圣诞树',
+      nextPhoto: '下一张照片',
+      prevPhoto: '上一张照片',
+      toggleMusic: '开关音乐',
+      snapshot: '拍照留念',
+      cycleShape: '切换造型',
+      shakeTree: '抖落积雪',
+      undoOrnament: '撤销上一个挂饰',
+    } as Record<string, string>,
+    gestures: {
+      FIST: '握拳',
+      OPEN: '张开',
+      PINCH: '捏合',
+      POINT: '指向',
+      THUMBS_UP: '点赞',
+      SWIPE_LEFT: '向左滑',
+      SWIPE_RIGHT: '向右滑',
+      CIRCLE: '画圈',
+      WAVE: '挥手',
+      SHAKE: '握拳摇晃',
+      SPREAD: '双手张开',
+      SQUEEZE: '双手合拢',
+    } as Record<string, string>,
+  },
+
+  quality: {
+    title: '画质',
+    auto: '自动',
+    autoActive: '自动 · {tier}',
+    tiers: {
+      low: '低',
+      medium: '中',
+      high: '高',
+      ultra: '极致',
+    },
+  },
+
+  audio: {
+    mute: '静音',
+    unmute: '取消静音',
+    volume: '音量',
+    music: '背景音乐',
+    pickFile: '📂 选择本地音乐…',
+    greetingTrack: '专属音乐',
+    unplayable: '「{name}」无法播放，请换一个 MP3 / M4A / OGG 文件',
+    tracks: {
+      jingleBells: '铃儿响叮当',
+      weWishYou: '祝你圣诞快乐',
+      silentNight: '平安夜',
+    } as Record<string, string>,
+  },
+
+  card: {
+    title: '保存贺卡',
+    size: '尺寸',
+    text: '祝福语 (留空则不显示)',
+    save: '📸 保存图片',
+    saving: '生成中...',
+    record: '🎬 录制 {seconds} 秒',
+    recording: '● 录制中',
+    recordHint: '录制 聚合 → 散开 → 聚合 的动画',
+    recordUnsupported: '当前浏览器不支持录制',
+    videoHint: '视频为 WebM 格式，只包含 3D 场景画面',
+    sizes: {
+      screen: '当前屏幕',
+      landscape: '横版 1920×1080',
+      portrait: '竖版 1080×1920 (手机壁纸)',
+      square: '方形 2048×2048',
+    } as Record<string, string>,
+    sceneLoading: '场景还在加载，请稍后再试',
+    busy: '正在生成上一张贺卡，请稍候',
+    encodeFailed: '图片生成失败，请稍后重试',
+    recordFailed: '录制失败，请稍后重试',
+    recordingUnsupported: '当前浏览器不支持录制视频，请使用电脑版 Chrome 或 Firefox',
+  },
+
+  shapes: {
+    title: '变换造型',
+    text: '文字造型',
+    generate: '生成',
+    image: '🖼 图片轮廓',
+    model: '🧊 3D 模型',
+    generating: '正在生成造型...',
+    hint: '图片请使用透明背景或纯色背景的剪影 · 模型支持 .glb',
+    defaultText: 'Merry Christmas',
+    names: {
+      tree: '圣诞树',
+      heart: '爱心',
+      snowman: '雪人',
+      star: '星星',
+      galaxy: '星系',
+    } as Record<string, string>,
+    emptyText: '请输入要显示的文字',
+    noOutline: '没有找到可用的轮廓，请换一个试试',
+    imageUnreadable: '「{name}」无法读取，请换一张图片试试',
+    modelUnreadable: '「{name}」无法读取，请使用 .glb 或单文件 .gltf 模型',
+  },
+
+  themes: {
+    title: '主题',
+    import: '📥 导入主题',
+    export: '📤 导出当前',
+    remove: '删除',
+    hint: '导出的 JSON 可修改颜色后再导入，用于其他节日',
+    names: {
+      classic: '经典圣诞',
+      snowy: '冰雪蓝白',
+      springFestival: '新春红金',
+      birthday: '生日派对',
+    } as Record<string, string>,
+    invalidField: '主题文件格式不正确：{field}',
+    missingTheme: '缺少 theme 字段',
+    notJson: '无法读取主题文件，请确认是 JSON 格式',
+    badVersion: '不支持的主题文件版本',
+  },
+
+  // Hanging your own ornaments on the tree
+  decorate: {
+    title: '装扮圣诞树',
+    kinds: {
+      bauble: '彩球',
+      bell: '铃铛',
+      candyCane: '拐杖糖',
+      light: '彩灯',
+      photo: '照片挂饰',
+    },
+    hint: '捏合选中挂饰，再移到树上捏合挂上；也可以用鼠标点击',
+    noPhotos: '请先上传照片',
+    count: '{count} / {max} 个挂饰',
+    undo: '↩️ 撤销',
+    clear: '🗑 清空',
+    export: '📤 保存',
+    import: '📥 载入',
+    done: '完成',
+    invalidField: '装饰文件格式不正确：{field}',
+    notJson: '无法读取装饰文件，请确认是 JSON 格式',
+    badVersion: '不支持的装饰文件版本',
+  },
+
+  // Phone as a remote control: the display's panel and the controller page
+  remote: {
+    title: '手机遥控',
+    enable: '📱 开启遥控',
+    disable: '断开遥控',
+    scanHint: '用手机扫描二维码，或在手机浏览器打开：',
+    code: '配对码',
+    status: {
+      connecting: '正在连接中继服务…',
+      open: '已连接',
+      closed: '未连接',
+    },
+    controllers: '{count} 台手机已连接',
+    relayHint: '手机和大屏需在同一网络，并在电脑上运行 npm run relay',
+    controllerTitle: '魔法遥控器',
+    enterCode: '输入大屏上显示的配对码',
+    join: '连接',
+    changeCode: '更换配对码',
+    waitingDisplay: '正在等待大屏…',
+    paired: '已连接到大屏',
+    useCamera: '✋ 用摄像头识别手势',
+    cameraHint: '对着手机做手势，大屏会跟着变化',
+    touchpad: '在这里滑动转动视角 · 双指缩放',
+  },
+
+  greetingConfig: {
+    notObject: '祝福配置必须是一个 JSON 对象',
+    invalidField: '祝福配置格式不正确：{field}',
+    undecodable: '链接中的祝福配置无法解码',
+  },
+};
+
+export type Messages = typeof zhCN;
@@ -0,0 +1,38 @@
+// Copies the MediaPipe wasm fileset out of node_modules and downloads the hand
+// landmarker model into public/mediapipe/, so Vite serves (and bundles) them
+// from the app's own origin. Run once with network access; later runs are offline.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const wasmSrc = path.join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const outDir = path.join(root, 'public', 'mediapipe');
+const modelPath = path.join(outDir, 'hand_landmarker.task');
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const exists = (p) => stat(p).then(() => true, () => false);
+
+await mkdir(path.join(outDir, 'wasm'), { recursive: true });
+
+for (const file of await readdir(wasmSrc)) {
+  await copyFile(path.join(wasmSrc, file), path.join(outDir, 'wasm', file));
+}
+console.log(`[mediapipe] wasm fileset copied to ${path.relative(root, outDir)}/wasm`);
+
+if (await exists(modelPath)) {
+  console.log('[mediapipe] hand_landmarker.task already present');
+} else {
+  // Allow a mirror for networks where storage.googleapis.com is unreachable
+  const url = process.env.MEDIAPIPE_MODEL_URL || MODEL_URL;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    await writeFile(modelPath, Buffer.from(await response.arrayBuffer()));
+    console.log(`[mediapipe] model downloaded from ${url}`);
+  } catch (e) {
+    // Not fatal: the app falls back to the public CDN at runtime
+    console.warn(`[mediapipe] could not download model from ${url}: ${e.message}`);
+    console.warn('[mediapipe] place hand_landmarker.task in public/mediapipe/ manually for offline use');
+  }
+}
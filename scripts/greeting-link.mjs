@@ -0,0 +1,15 @@
+// Prints a share link that personalizes an existing deployment without rebuilding:
+//   npm run greeting-link -- gifts/alice.json https://example.com/tree/
+// Same encoding as encodeGreetingConfig in utils/greetingConfig.ts.
+import { readFile } from 'node:fs/promises';
+
+const [file, base = 'http://localhost:3000/'] = process.argv.slice(2);
+if (!file) {
+  console.error('usage: npm run greeting-link -- <config.json> [site url]');
+  process.exit(1);
+}
+
+const config = JSON.parse(await readFile(file, 'utf-8'));
+const url = new URL(base);
+url.searchParams.set('greeting', Buffer.from(JSON.stringify(config)).toString('base64url'));
+console.log(url.toString());
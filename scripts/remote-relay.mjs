@@ -0,0 +1,59 @@
+// LAN relay for remote control mode: a phone (controller) drives a big screen
+// (display) without any outside service.
+//   npm run relay                # listens on :8787, proxied at /relay by `npm run dev`
+//   PORT=9000 npm run relay
+// Clients connect to /relay?room=CODE&role=display|controller. Every text
+// message is forwarded to the peers of the other role in the same room; the
+// relay itself only reports how many of each role are present.
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.PORT) || 8787;
+const ROOM_PATTERN = /^[A-Z0-9]{4,8}$/;
+const ROLES = ['display', 'controller'];
+
+// room code → set of { socket, role }
+const rooms = new Map();
+
+const broadcastPeers = (room) => {
+  const peers = rooms.get(room);
+  if (!peers) return;
+  const count = (role) => [...peers].filter(p => p.role === role).length;
+  const message = JSON.stringify({ type: 'peers', displays: count('display'), controllers: count('controller') });
+  for (const peer of peers) {
+    if (peer.socket.readyState === peer.socket.OPEN) peer.socket.send(message);
+  }
+};
+
+// Gesture frames are tiny; anything large is not ours
+const server = new WebSocketServer({ port, maxPayload: 16 * 1024 });
+
+server.on('connection', (socket, request) => {
+  const params = new URL(request.url ?? '/', 'http://relay').searchParams;
+  const room = (params.get('room') ?? '').toUpperCase();
+  const role = params.get('role');
+  if (!ROOM_PATTERN.test(room) || !ROLES.includes(role)) {
+    socket.close(1008, 'expected ?room=CODE&role=display|controller');
+    return;
+  }
+
+  const peer = { socket, role };
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room).add(peer);
+  broadcastPeers(room);
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    for (const other of rooms.get(room) ?? []) {
+      if (other.role !== role && other.socket.readyState === other.socket.OPEN) other.socket.send(data.toString());
+    }
+  });
+
+  socket.on('close', () => {
+    const peers = rooms.get(room);
+    peers?.delete(peer);
+    if (peers?.size === 0) rooms.delete(room);
+    else broadcastPeers(room);
+  });
+});
+
+server.on('listening', () => console.log(`Remote relay listening on ws://0.0.0.0:${port}`));
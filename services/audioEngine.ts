@@ -0,0 +1,186 @@
+// ==========================================
+// AUDIO ENGINE
+// ==========================================
+// One Web Audio graph for the whole app:
+//   music ─► musicGain ─► analyser ─┐
+//   sound effects ─► sfxGain ───────┴─► master ─► speakers
+// The context is created suspended and only resumed from a user gesture
+// (browsers block autoplay otherwise).
+
+export type SoundEffect = 'whoosh' | 'chime' | 'shutter';
+
+export interface AudioEngine {
+  unlock: () => Promise<void>;
+  decodeFile: (file: File) => Promise<AudioBuffer>;
+  setMusic: (buffer: AudioBuffer | null) => void;
+  setMusicPlaying: (playing: boolean) => void;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  playEffect: (effect: SoundEffect) => void;
+  // Smoothed music loudness, roughly 0..1
+  getLevel: () => number;
+}
+
+export const createAudioEngine = (): AudioEngine => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode;
+  let musicGain: GainNode;
+  let sfxGain: GainNode;
+  let analyser: AnalyserNode;
+  let samples: Uint8Array;
+  let noise: AudioBuffer;
+
+  let music: AudioBuffer | null = null;
+  let source: AudioBufferSourceNode | null = null;
+  let playing = false;
+  let volume = 0.7;
+  let muted = false;
+  let level = 0;
+
+  const context = () => {
+    if (ctx) return ctx;
+    ctx = new AudioContext();
+    master = ctx.createGain();
+    musicGain = ctx.createGain();
+    sfxGain = ctx.createGain();
+    analyser = ctx.createAnalyser();
+    analyser.fftSize = 512;
+    samples = new Uint8Array(analyser.fftSize);
+
+    musicGain.gain.value = 0.8;
+    sfxGain.gain.value = 0.6;
+    master.gain.value = muted ? 0 : volume;
+    musicGain.connect(analyser).connect(master);
+    sfxGain.connect(master);
+    master.connect(ctx.destination);
+
+    // One second of white noise, reused by the whoosh and shutter
+    noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    return ctx;
+  };
+
+  const applyGain = () => {
+    if (!ctx) return;
+    // Short ramp avoids clicks
+    master.gain.setTargetAtTime(muted ? 0 : volume, ctx.currentTime, 0.05);
+  };
+
+  const stopSource = () => {
+    if (!source) return;
+    source.stop();
+    source.disconnect();
+    source = null;
+  };
+
+  const syncMusic = () => {
+    const ac = context();
+    const shouldPlay = playing && music !== null && ac.state === 'running';
+    if (!shouldPlay) return stopSource();
+    if (source?.buffer === music) return;
+    stopSource();
+    source = ac.createBufferSource();
+    source.buffer = music;
+    source.loop = true;
+    source.connect(musicGain);
+    source.start();
+  };
+
+  const noiseBurst = (start: number, duration: number, filter: BiquadFilterNode, peak: number) => {
+    const ac = context();
+    const src = ac.createBufferSource();
+    src.buffer = noise;
+    const env = ac.createGain();
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(peak, start + duration * 0.3);
+    env.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    src.connect(filter).connect(env).connect(sfxGain);
+    src.start(start);
+    src.stop(start + duration);
+  };
+
+  const effects: Record<SoundEffect, (ac: AudioContext, now: number) => void> = {
+    // Band-passed noise sweeping upward, like particles flying apart
+    whoosh: (ac, now) => {
+      const filter = ac.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.Q.value = 1.5;
+      filter.frequency.setValueAtTime(300, now);
+      filter.frequency.exponentialRampToValueAtTime(3000, now + 0.7);
+      noiseBurst(now, 0.8, filter, 0.9);
+    },
+    // A quick bell arpeggio (C6 E6 G6)
+    chime: (ac, now) => {
+      [1046.5, 1318.5, 1568].forEach((frequency, i) => {
+        const start = now + i * 0.08;
+        [[1, 0.5], [2.76, 0.15]].forEach(([partial, peak]) => {
+          const osc = ac.createOscillator();
+          osc.frequency.value = frequency * partial;
+          const env = ac.createGain();
+          env.gain.setValueAtTime(0, start);
+          env.gain.linearRampToValueAtTime(peak, start + 0.005);
+          env.gain.exponentialRampToValueAtTime(0.0001, start + 1.5);
+          osc.connect(env).connect(sfxGain);
+          osc.start(start);
+          osc.stop(start + 1.5);
+        });
+      });
+    },
+    // Two short high-passed clicks: mirror up, mirror down
+    shutter: (ac, now) => {
+      [0, 0.09].forEach(offset => {
+        const filter = ac.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = 2000;
+        noiseBurst(now + offset, 0.05, filter, 1);
+      });
+    },
+  };
+
+  return {
+    unlock: async () => {
+      await context().resume();
+      syncMusic();
+    },
+    decodeFile: async (file) => context().decodeAudioData(await file.arrayBuffer()),
+    setMusic: (buffer) => {
+      music = buffer;
+      syncMusic();
+    },
+    setMusicPlaying: (next) => {
+      playing = next;
+      syncMusic();
+    },
+    setVolume: (next) => {
+      volume = next;
+      applyGain();
+    },
+    setMuted: (next) => {
+      muted = next;
+      applyGain();
+    },
+    playEffect: (effect) => {
+      if (!ctx || ctx.state !== 'running') return;
+      effects[effect](ctx, ctx.currentTime);
+    },
+    getLevel: () => {
+      // Silent music shouldn't pulse the tree
+      if (!ctx || !source || muted) {
+        level *= 0.9;
+        return level;
+      }
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const v = (samples[i] - 128) / 128;
+        sum += v * v;
+      }
+      const rms = Math.sqrt(sum / samples.length);
+      // Fast attack, slow release so the glow pulses instead of flickering
+      const target = Math.min(1, rms * 4);
+      level = target > level ? target : level * 0.92 + target * 0.08;
+      return level;
+    },
+  };
+};
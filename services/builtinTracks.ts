@@ -0,0 +1,94 @@
+// ==========================================
+// BUNDLED MUSIC
+// ==========================================
+// Public-domain carols, rendered to audio on demand with a music-box voice so
+// the app ships without any audio files.
+
+export interface BuiltInTrack {
+  id: string;
+  bpm: number;
+  // Space separated "note:beats"; "-" is a rest
+  melody: string;
+}
+
+export const BUILT_IN_TRACKS: BuiltInTrack[] = [
+  {
+    id: 'jingleBells',
+    bpm: 180,
+    melody: `E5:1 E5:1 E5:2 E5:1 E5:1 E5:2 E5:1 G5:1 C5:1.5 D5:0.5 E5:4
+      F5:1 F5:1 F5:1.5 F5:0.5 F5:1 E5:1 E5:1 E5:0.5 E5:0.5 E5:1 D5:1 D5:1 E5:1 D5:2 G5:2
+      E5:1 E5:1 E5:2 E5:1 E5:1 E5:2 E5:1 G5:1 C5:1.5 D5:0.5 E5:4
+      F5:1 F5:1 F5:1.5 F5:0.5 F5:1 E5:1 E5:1 E5:0.5 E5:0.5 G5:1 G5:1 F5:1 D5:1 C5:4`,
+  },
+  {
+    id: 'weWishYou',
+    bpm: 150,
+    melody: `D4:1 G4:1 G4:0.5 A4:0.5 G4:0.5 F#4:0.5 E4:1 E4:1 E4:1
+      A4:1 A4:0.5 B4:0.5 A4:0.5 G4:0.5 F#4:1 D4:1 D4:1
+      B4:1 B4:0.5 C5:0.5 B4:0.5 A4:0.5 G4:1 E4:1 D4:0.5 D4:0.5 E4:1 A4:1 F#4:1 G4:2 -:1`,
+  },
+  {
+    id: 'silentNight',
+    bpm: 100,
+    melody: `G4:1.5 A4:0.5 G4:1 E4:3 G4:1.5 A4:0.5 G4:1 E4:3
+      D5:2 D5:1 B4:3 C5:2 C5:1 G4:3
+      A4:2 A4:1 C5:1.5 B4:0.5 A4:1 G4:1.5 A4:0.5 G4:1 E4:3
+      A4:2 A4:1 C5:1.5 B4:0.5 A4:1 G4:1.5 A4:0.5 G4:1 E4:3
+      D5:2 D5:1 F5:1.5 D5:0.5 B4:1 C5:3 E5:3
+      C5:1 G4:1 E4:1 G4:1.5 F4:0.5 D4:1 C4:6`,
+  },
+];
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "F#4" → Hz (A4 = 440)
+const noteFrequency = (note: string) => {
+  const match = /^([A-G])(#|b)?(\d)$/.exec(note);
+  if (!match) throw new Error(`Bad note ${note}`);
+  const [, letter, accidental, octave] = match;
+  const semitone = NOTE_OFFSETS[letter] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0);
+  const midi = (Number(octave) + 1) * 12 + semitone;
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+const parseMelody = (melody: string) =>
+  melody.trim().split(/\s+/).map(token => {
+    const [note, beats] = token.split(':');
+    return { frequency: note === '-' ? null : noteFrequency(note), beats: Number(beats) };
+  });
+
+const SAMPLE_RATE = 44100;
+
+// Renders one pass of the melody; the result loops seamlessly because it ends on the bar line
+export const renderTrack = async (track: BuiltInTrack): Promise<AudioBuffer> => {
+  const notes = parseMelody(track.melody);
+  const beat = 60 / track.bpm;
+  const duration = notes.reduce((sum, n) => sum + n.beats, 0) * beat;
+  const ctx = new OfflineAudioContext(2, Math.ceil(duration * SAMPLE_RATE), SAMPLE_RATE);
+
+  const bus = ctx.createGain();
+  bus.gain.value = 0.25;
+  bus.connect(ctx.destination);
+
+  let time = 0;
+  for (const { frequency, beats } of notes) {
+    if (frequency !== null) {
+      const ring = Math.min(2.5, beats * beat * 2);
+      // Fundamental plus a quiet octave partial: a simple music-box timbre
+      [[1, 1], [2, 0.3], [3, 0.08]].forEach(([harmonic, level]) => {
+        const osc = ctx.createOscillator();
+        osc.frequency.value = frequency * harmonic;
+        const env = ctx.createGain();
+        env.gain.setValueAtTime(0, time);
+        env.gain.linearRampToValueAtTime(level, time + 0.01);
+        env.gain.exponentialRampToValueAtTime(0.0001, Math.min(duration, time + ring));
+        osc.connect(env).connect(bus);
+        osc.start(time);
+        osc.stop(Math.min(duration, time + ring));
+      });
+    }
+    time += beats * beat;
+  }
+
+  return ctx.startRendering();
+};
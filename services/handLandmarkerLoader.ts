@@ -0,0 +1,108 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+// ==========================================
+// MEDIAPIPE ASSET LOADING
+// ==========================================
+// By default the wasm fileset and the hand model are served from the app's own
+// origin (copied into public/mediapipe by scripts/fetch-mediapipe-assets.mjs),
+// so the app works without access to jsdelivr / Google storage.
+
+const MODEL_FILE = 'hand_landmarker.task';
+
+export interface AssetSource {
+  wasmBaseUrl: string;
+  modelUrl: string;
+}
+
+const sourceFromBase = (baseUrl: string): AssetSource => {
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  return { wasmBaseUrl: `${base}wasm`, modelUrl: `${base}${MODEL_FILE}` };
+};
+
+const PUBLIC_CDN: AssetSource = {
+  wasmBaseUrl: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm',
+  modelUrl: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/${MODEL_FILE}`,
+};
+
+// An explicitly configured base URL is used exclusively (air-gapped kiosks must
+// never reach out); otherwise try the bundled copy first and the CDN last.
+export const getAssetSources = (): AssetSource[] => {
+  const configured = import.meta.env.VITE_MEDIAPIPE_BASE_URL;
+  if (configured) return [sourceFromBase(configured)];
+  return [sourceFromBase(`${import.meta.env.BASE_URL}mediapipe/`), PUBLIC_CDN];
+};
+
+export type LoadStage = 'wasm' | 'model' | 'init';
+
+export interface LoadProgress {
+  stage: LoadStage;
+  progress: number; // 0-1 within the stage; model download only, other stages report 0 or 1
+  delegate?: 'GPU' | 'CPU';
+}
+
+const downloadModel = async (url: string, onProgress: (p: LoadProgress) => void): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Model request failed: ${response.status} ${url}`);
+  }
+
+  const total = Number(response.headers.get('content-length')) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (total) onProgress({ stage: 'model', progress: received / total });
+  }
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  onProgress({ stage: 'model', progress: 1 });
+  return buffer;
+};
+
+const createLandmarker = async (source: AssetSource, onProgress: (p: LoadProgress) => void) => {
+  onProgress({ stage: 'wasm', progress: 0 });
+  const vision = await FilesetResolver.forVisionTasks(source.wasmBaseUrl);
+  onProgress({ stage: 'wasm', progress: 1 });
+
+  const model = await downloadModel(source.modelUrl, onProgress);
+
+  const create = (delegate: 'GPU' | 'CPU') => {
+    onProgress({ stage: 'init', progress: 0, delegate });
+    return HandLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetBuffer: model, delegate },
+      runningMode: "VIDEO",
+      numHands: 2
+    });
+  };
+
+  // Some mobile GPUs / WebViews fail to create a WebGL context for the GPU delegate
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' as const };
+  } catch (e) {
+    console.warn("GPU delegate unavailable, falling back to CPU", e);
+    return { landmarker: await create('CPU'), delegate: 'CPU' as const };
+  }
+};
+
+export const loadHandLandmarker = async (onProgress: (p: LoadProgress) => void = () => {}) => {
+  let lastError: unknown;
+  for (const source of getAssetSources()) {
+    try {
+      return await createLandmarker(source, onProgress);
+    } catch (e) {
+      console.warn(`Could not load MediaPipe assets from ${source.wasmBaseUrl}`, e);
+      lastError = e;
+    }
+  }
+  throw lastError;
+};
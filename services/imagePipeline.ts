@@ -0,0 +1,70 @@
+import { ImageProcessingOptions, ProcessedImage, processImage } from '../utils/imageProcessing.ts';
+import { format, messages } from '../utils/i18n.ts';
+import type { ImageWorkerRequest, ImageWorkerResponse } from '../workers/imageWorker.ts';
+
+// ==========================================
+// UPLOAD IMAGE PIPELINE
+// ==========================================
+
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxSize: 2048,  // Plenty for a 6×6 inspected photo, ~16 MB of GPU memory at most
+  thumbSize: 256,
+  quality: 0.88,
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 0;
+const WORKER_CRASHED = "Image worker crashed";
+const pending = new Map<number, { resolve: (r: ProcessedImage) => void; reject: (e: Error) => void }>();
+
+const getWorker = () => {
+  if (workerFailed || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<ImageWorkerResponse>) => {
+        const job = pending.get(e.data.id);
+        if (!job) return;
+        pending.delete(e.data.id);
+        if (e.data.result) job.resolve(e.data.result);
+        else job.reject(new Error(e.data.error));
+      };
+      worker.onerror = (e) => {
+        console.warn("Image worker crashed, processing on the main thread", e);
+        workerFailed = true;
+        worker = null;
+        pending.forEach(job => job.reject(new Error(WORKER_CRASHED)));
+        pending.clear();
+      };
+    } catch (e) {
+      console.warn("Image worker unavailable, processing on the main thread", e);
+      workerFailed = true;
+      return null;
+    }
+  }
+  return worker;
+};
+
+const isHeic = (file: File) => /hei[cf]$/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+export const processUpload = (file: File, options: ImageProcessingOptions = DEFAULT_IMAGE_OPTIONS): Promise<ProcessedImage> => {
+  const w = getWorker();
+  const job = w
+    ? new Promise<ProcessedImage>((resolve, reject) => {
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        w.postMessage({ id, blob: file, options } satisfies ImageWorkerRequest);
+      })
+    : processImage(file, options);
+
+  return job
+    // Jobs lost with a crashed worker get one more try on the main thread
+    .catch((e) => (e.message === WORKER_CRASHED ? processImage(file, options) : Promise.reject(e)))
+    .catch((e) => {
+      console.warn(`Could not process ${file.name}`, e);
+      // Surface a message the user can act on
+      const { upload } = messages();
+      throw new Error(format(isHeic(file) ? upload.heicUnsupported : upload.unreadable, { name: file.name }));
+    });
+};
@@ -0,0 +1,44 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { ProcessedImage } from '../utils/imageProcessing.ts';
+import { appendPhotos, createStoredPhoto, deletePhoto, listPhotos, NewPhoto, updatePhotos } from './photoStore.ts';
+
+const image: ProcessedImage = {
+  full: new Blob(['full']),
+  thumb: new Blob(['thumb']),
+  width: 4,
+  height: 3,
+  capturedAt: null,
+};
+
+const photo = (name: string): NewPhoto => createStoredPhoto(new File(['jpeg'], name), image);
+
+// The database outlives each test, so every test starts from an empty library
+const clear = async () => {
+  for (const { id } of await listPhotos()) await deletePhoto(id);
+};
+
+const names = async () => (await listPhotos()).map(p => p.name);
+
+describe('photo store', () => {
+  it('adds a photo after the others once one has been deleted', async () => {
+    await clear();
+    const [a, b, c] = [photo('a'), photo('b'), photo('c')];
+    await appendPhotos([a, b, c]);
+    await deletePhoto(a.id);
+    await appendPhotos([photo('d')]);
+    const orders = (await listPhotos()).map(p => p.order);
+    expect(new Set(orders).size).toBe(orders.length);
+    expect(await names()).toEqual(['b', 'c', 'd']);
+  });
+
+  it('adds photos after the highest stored order, not after the photo count', async () => {
+    await clear();
+    const [a, b] = [photo('a'), photo('b')];
+    await appendPhotos([a, b]);
+    await updatePhotos([{ id: a.id, changes: { order: 5 } }, { id: b.id, changes: { order: 4 } }]);
+    // As when photos are uploaded before the library has been restored
+    await appendPhotos([photo('c'), photo('d')]);
+    expect(await names()).toEqual(['b', 'a', 'c', 'd']);
+  });
+});
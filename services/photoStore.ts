@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProcessedImage } from '../utils/imageProcessing.ts';
+
+// ==========================================
+// PHOTO STORE (IndexedDB)
+// ==========================================
+// Image blobs are stored together with their metadata so uploaded memories
+// survive reloads. Everything stays in the browser; nothing is uploaded.
+
+const DB_NAME = 'magic-tree';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+export interface StoredPhoto {
+  id: string;
+  name: string;
+  dateAdded: number; // epoch ms
+  caption: string;
+  date?: number | null;      // User-editable display date (epoch ms)
+  order: number;
+  blob: Blob;                // Upright, downscaled image
+  thumb?: Blob;              // Square atlas thumbnail; missing on records saved before the pipeline existed
+  width?: number;
+  height?: number;
+  capturedAt?: number | null; // EXIF capture date
+}
+
+// The store picks a new photo's place in the library when it saves it
+export type NewPhoto = Omit<StoredPhoto, 'order'>;
+
+// Wraps a single IDBRequest in a promise
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call retry instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx.objectStore(STORE));
+  await done;
+  return result;
+};
+
+export const listPhotos = () =>
+  withStore('readonly', async (store) => {
+    const photos = await request(store.getAll() as IDBRequest<StoredPhoto[]>);
+    return photos.sort((a, b) => a.order - b.order);
+  });
+
+export const createStoredPhoto = (file: File, image: ProcessedImage): NewPhoto => ({
+  id: uuidv4(),
+  name: file.name,
+  dateAdded: Date.now(),
+  caption: '',
+  date: image.capturedAt,
+  blob: image.full,
+  thumb: image.thumb,
+  width: image.width,
+  height: image.height,
+  capturedAt: image.capturedAt,
+});
+
+export const putPhotos = (photos: StoredPhoto[]) =>
+  withStore('readwrite', async (store) => {
+    // Queue every put before awaiting so the transaction stays active
+    await Promise.all(photos.map(p => request(store.put(p))));
+  });
+
+// Places the photos after every stored one. The orders are read in the same
+// transaction, so they hold even with photos deleted or not yet listed.
+export const appendPhotos = (photos: NewPhoto[]) =>
+  withStore('readwrite', async (store) => {
+    const stored = await request(store.getAll() as IDBRequest<StoredPhoto[]>);
+    const next = stored.reduce((max, p) => Math.max(max, p.order + 1), 0);
+    await Promise.all(photos.map((p, i) => request(store.put({ ...p, order: next + i }))));
+  });
+
+export const deletePhoto = (id: string) =>
+  withStore('readwrite', async (store) => {
+    await request(store.delete(id));
+  });
+
+export const updatePhotos = (patches: { id: string; changes: Partial<Omit<StoredPhoto, 'id'>> }[]) =>
+  withStore('readwrite', async (store) => {
+    const existing = await Promise.all(patches.map(p => request(store.get(p.id) as IDBRequest<StoredPhoto | undefined>)));
+    await Promise.all(existing.map((photo, i) =>
+      photo ? request(store.put({ ...photo, ...patches[i].changes })) : Promise.resolve(undefined)
+    ));
+  });
@@ -0,0 +1,174 @@
+import { AppMode, GestureType, HandGestureState, InputEvent } from '../types.ts';
+
+// ==========================================
+// REMOTE LINK
+// ==========================================
+// Lets a phone (controller) drive a big screen (display). Both join a room
+// named by a short pairing code on the WebSocket relay in
+// scripts/remote-relay.mjs, which forwards each message to the other role.
+// Controllers send the same InputEvents the local providers emit.
+
+export type RemoteRole = 'display' | 'controller';
+export type RemoteStatus = 'connecting' | 'open' | 'closed';
+
+export type RemoteMessage =
+  | { type: 'input'; event: InputEvent }
+  | { type: 'peers'; displays: number; controllers: number }; // Sent by the relay
+
+export interface RemoteLinkOptions {
+  url: string;
+  room: string;
+  role: RemoteRole;
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus) => void;
+}
+
+export interface RemoteLink {
+  send: (message: RemoteMessage) => void;
+  close: () => void;
+}
+
+const RECONNECT_DELAY_MS = 2000;
+
+// --- PAIRING ---
+
+export const REMOTE_PARAM = 'remote';
+
+// No 0/O, 1/I: the code is read off a TV across the room
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+
+export const generatePairingCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(CODE_LENGTH)), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+
+export const normalizePairingCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 8);
+
+export const isPairingCode = (code: string) => /^[A-Z0-9]{4,8}$/.test(code);
+
+// Same origin by default: `npm run dev` / `preview` proxy /relay to the relay script
+export const relayUrl = () =>
+  import.meta.env.VITE_REMOTE_RELAY_URL || `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/relay`;
+
+// What the display shows as a QR code
+export const controllerUrl = (code: string) => {
+  const url = new URL(location.pathname, location.origin);
+  url.searchParams.set(REMOTE_PARAM, code);
+  return url.toString();
+};
+
+// --- MESSAGE VALIDATION ---
+// Anyone on the network who knows the code can send, so nothing is trusted
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPoint = (value: any): value is { x: number; y: number } => isNumber(value?.x) && isNumber(value?.y);
+const isGesture = (value: unknown): value is GestureType => typeof value === 'string' && value.length <= 32;
+
+const parseGestureState = (value: any): HandGestureState | null => {
+  if (typeof value?.isHandDetected !== 'boolean' || !isGesture(value.gesture) || !isNumber(value.confidence)) return null;
+  if (!isPoint(value.handPosition) || !isNumber(value.handCount)) return null;
+  if (value.motion !== null && !isGesture(value.motion)) return null;
+  if (value.handSpread !== null && !isNumber(value.handSpread)) return null;
+  // Controllers from before hand depth was tracked leave it out
+  if (value.handSize != null && !isNumber(value.handSize)) return null;
+  return {
+    isHandDetected: value.isHandDetected,
+    gesture: value.gesture,
+    confidence: value.confidence,
+    handPosition: { x: value.handPosition.x, y: value.handPosition.y },
+    motion: value.motion,
+    handCount: value.handCount,
+    handSpread: value.handSpread,
+    handSize: value.handSize ?? null,
+  };
+};
+
+const ACTIONS = ['setMode', 'nextPhoto', 'prevPhoto', 'toggleMusic', 'snapshot', 'cycleShape', 'shakeTree', 'undoOrnament'];
+
+// Every event arrives tagged 'remote', whatever the controller used
+const parseInputEvent = (value: any): InputEvent | null => {
+  switch (value?.type) {
+    case 'gesture': {
+      const state = parseGestureState(value.state);
+      return state && { source: 'remote', type: 'gesture', state };
+    }
+    case 'action': {
+      const { action, mode } = value.binding ?? {};
+      if (!ACTIONS.includes(action)) return null;
+      if (mode !== undefined && !Object.values(AppMode).includes(mode)) return null;
+      return { source: 'remote', type: 'action', binding: mode ? { action, mode } : { action } };
+    }
+    case 'cursor':
+      return isPoint(value.position) ? { source: 'remote', type: 'cursor', position: { x: value.position.x, y: value.position.y } } : null;
+    case 'zoom':
+      return isNumber(value.factor) && value.factor > 0 ? { source: 'remote', type: 'zoom', factor: value.factor } : null;
+    case 'selectPhoto':
+      return Number.isInteger(value.index) && value.index >= 0 ? { source: 'remote', type: 'selectPhoto', index: value.index } : null;
+    default:
+      return null;
+  }
+};
+
+export const parseRemoteMessage = (data: string): RemoteMessage | null => {
+  let value: any;
+  try {
+    value = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (value?.type === 'peers') {
+    return isNumber(value.displays) && isNumber(value.controllers)
+      ? { type: 'peers', displays: value.displays, controllers: value.controllers }
+      : null;
+  }
+  if (value?.type === 'input') {
+    const event = parseInputEvent(value.event);
+    return event && { type: 'input', event };
+  }
+  return null;
+};
+
+// --- CONNECTION ---
+
+// Reconnects until closed, so a relay restart or a phone waking from sleep recovers on its own
+export const createRemoteLink = ({ url, room, role, onMessage, onStatus }: RemoteLinkOptions): RemoteLink => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    onStatus('connecting');
+    const target = new URL(url);
+    target.searchParams.set('room', room);
+    target.searchParams.set('role', role);
+    socket = new WebSocket(target);
+
+    socket.onopen = () => onStatus('open');
+    socket.onmessage = (e) => {
+      if (typeof e.data !== 'string') return;
+      const message = parseRemoteMessage(e.data);
+      if (message) onMessage(message);
+      else console.warn("Ignoring malformed remote message");
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus('closed');
+      retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    // Dropped while disconnected: a stale gesture is worse than a missing one
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      onStatus('closed');
+    },
+  };
+};
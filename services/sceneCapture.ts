@@ -0,0 +1,134 @@
+import { festiveFont, messages } from '../utils/i18n.ts';
+
+// ==========================================
+// GREETING CARD CAPTURE
+// ==========================================
+// Turns the rendered WebGL canvas into shareable files: a still PNG card with
+// optional greeting text, or a short WebM clip recorded from the canvas stream.
+
+export interface CardSize {
+  id: string;
+  // null keeps the on-screen size
+  width: number | null;
+  height: number | null;
+}
+
+export const CARD_SIZES: CardSize[] = [
+  { id: 'screen', width: null, height: null },
+  { id: 'landscape', width: 1920, height: 1080 },
+  { id: 'portrait', width: 1080, height: 1920 },
+  { id: 'square', width: 2048, height: 2048 },
+];
+
+export interface SnapshotOptions {
+  width: number | null;
+  height: number | null;
+  overlayText: string;
+}
+
+// Implemented inside the <Canvas>, where the renderer and composer live
+export interface SceneCaptureHandle {
+  snapshot: (options: SnapshotOptions) => Promise<Blob>;
+  getCanvas: () => HTMLCanvasElement;
+}
+
+const drawOverlayText = async (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  const fontSize = Math.round(Math.min(width, height) * 0.08);
+  const font = `${fontSize}px ${festiveFont()}`;
+  // The web font may not have been used by the DOM yet
+  await document.fonts?.load(font, text).catch(() => undefined);
+
+  ctx.save();
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  const x = width / 2;
+  const y = height - fontSize * 0.8;
+
+  const gradient = ctx.createLinearGradient(0, y - fontSize, 0, y);
+  gradient.addColorStop(0, '#fff3c4');
+  gradient.addColorStop(1, '#D4AF37');
+  ctx.shadowColor = 'rgba(255, 215, 0, 0.8)';
+  ctx.shadowBlur = fontSize * 0.4;
+  ctx.fillStyle = gradient;
+  ctx.fillText(text, x, y, width * 0.9);
+  ctx.restore();
+};
+
+// Cover-fits the rendered frame into the card and stamps the greeting on top
+export const composeCard = async (
+  source: CanvasImageSource & { width: number; height: number },
+  width: number,
+  height: number,
+  overlayText: string
+): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const scale = Math.max(width / source.width, height / source.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(source, (source.width - sw) / 2, (source.height - sh) / 2, sw, sh, 0, 0, width, height);
+
+  if (overlayText.trim()) await drawOverlayText(ctx, overlayText.trim(), width, height);
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png') =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(messages().card.encodeFailed))), type);
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the download a moment to start before freeing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const cardFilename = (extension: string) => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `christmas-card-${stamp}.${extension}`;
+};
+
+const RECORDER_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && RECORDER_TYPES.some(t => MediaRecorder.isTypeSupported(t));
+
+// Records whatever the canvas draws for `durationMs`
+export const recordCanvas = (canvas: HTMLCanvasElement, durationMs: number, fps = 30): Promise<Blob> => {
+  const mimeType = typeof MediaRecorder !== 'undefined' ? RECORDER_TYPES.find(t => MediaRecorder.isTypeSupported(t)) : undefined;
+  if (!mimeType || !canvas.captureStream) {
+    return Promise.reject(new Error(messages().card.recordingUnsupported));
+  }
+
+  return new Promise((resolve, reject) => {
+    const stream = canvas.captureStream(fps);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(t => t.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = (e) => {
+      console.warn('Recording failed', e);
+      stream.getTracks().forEach(t => t.stop());
+      reject(new Error(messages().card.recordFailed));
+    };
+
+    recorder.start(250);
+    setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, durationMs);
+  });
+};
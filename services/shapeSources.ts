@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+import { festiveFont, format, messages } from '../utils/i18n.ts';
+import { createPointCloudLayout, normalizePoints, ShapeDefinition } from '../utils/shapeLayouts.ts';
+
+// ==========================================
+// CUSTOM SHAPE SOURCES
+// ==========================================
+// Builds point-cloud shapes from text, an image silhouette or a glTF model.
+// Failures reject with a message that can be shown to the user as-is.
+
+const RASTER_SIZE = 320;
+const MESH_POINTS = 8000;
+const FLAT_DEPTH = 0.4; // Thickness given to text and silhouettes, in scene units
+
+let customId = 0;
+const nextId = (kind: string) => `${kind}-${++customId}`;
+
+// Draws a source scaled down to at most RASTER_SIZE px on its longest side
+const rasterize = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, RASTER_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Collects the "ink" pixels as points in the xy plane (y up); the layout gives them depth
+const samplePixels = (image: ImageData, isInk: (data: Uint8ClampedArray, i: number) => boolean) => {
+  const { width, height, data } = image;
+  const points: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isInk(data, (y * width + x) * 4)) points.push(x, height - y, 0);
+    }
+  }
+  return new Float32Array(points);
+};
+
+const toShape = (kind: string, label: string, icon: string, points: Float32Array, depth = 0): ShapeDefinition => {
+  if (points.length === 0) throw new Error(messages().shapes.noOutline);
+  return { id: nextId(kind), label, icon, layout: createPointCloudLayout(normalizePoints(points), depth) };
+};
+
+const shortLabel = (name: string) => (name.length > 6 ? `${name.slice(0, 6)}…` : name);
+
+// --- TEXT ---
+
+export const createTextShape = async (text: string): Promise<ShapeDefinition> => {
+  const label = text.trim();
+  if (!label) throw new Error(messages().shapes.emptyText);
+
+  const font = `120px ${festiveFont()}`;
+  await document.fonts?.load(font, label).catch(() => undefined);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = font;
+  canvas.width = Math.min(4096, Math.ceil(ctx.measureText(label).width) + 40);
+  canvas.height = 160;
+  // Resizing resets the context state
+  ctx.font = font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#fff';
+  ctx.fillText(label, canvas.width / 2, canvas.height / 2);
+
+  const image = rasterize(canvas, canvas.width, canvas.height);
+  return toShape('text', shortLabel(label), '🔤', samplePixels(image, (px, i) => px[i + 3] > 128), FLAT_DEPTH);
+};
+
+// --- IMAGE SILHOUETTE ---
+
+export const createImageShape = async (file: File): Promise<ShapeDefinition> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (e) {
+    console.warn(`Could not decode ${file.name}`, e);
+    throw new Error(format(messages().shapes.imageUnreadable, { name: file.name }));
+  }
+  const image = rasterize(bitmap, bitmap.width, bitmap.height);
+  bitmap.close();
+
+  // Transparent PNGs use their alpha; opaque images are split from the background by the corner color
+  const { data } = image;
+  const hasAlpha = data.some((v, i) => i % 4 === 3 && v < 128);
+  const [r, g, b] = data;
+  const isInk = hasAlpha
+    ? (px: Uint8ClampedArray, i: number) => px[i + 3] >= 128
+    : (px: Uint8ClampedArray, i: number) => Math.abs(px[i] - r) + Math.abs(px[i + 1] - g) + Math.abs(px[i + 2] - b) > 90;
+
+  return toShape('image', shortLabel(file.name.replace(/\.[^.]+$/, '')), '🖼', samplePixels(image, isInk), FLAT_DEPTH);
+};
+
+// --- GLTF MODEL ---
+
+// Surface area of the mesh as placed in the model, scale included
+const worldArea = (mesh: THREE.Mesh) => {
+  const position = mesh.geometry.getAttribute('position');
+  const index = mesh.geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const triangle = new THREE.Triangle();
+  const vertex = (i: number, out: THREE.Vector3) =>
+    out.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld);
+  let area = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    vertex(i, triangle.a);
+    vertex(i + 1, triangle.b);
+    vertex(i + 2, triangle.c);
+    area += triangle.getArea();
+  }
+  return area;
+};
+
+export const createModelShape = async (file: File): Promise<ShapeDefinition> => {
+  const url = URL.createObjectURL(file);
+  let root: THREE.Object3D;
+  try {
+    root = (await new GLTFLoader().loadAsync(url)).scene;
+  } catch (e) {
+    console.warn(`Could not load model ${file.name}`, e);
+    throw new Error(format(messages().shapes.modelUnreadable, { name: file.name }));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  root.updateMatrixWorld(true);
+  const meshes: THREE.Mesh[] = [];
+  root.traverse(o => {
+    if ((o as THREE.Mesh).isMesh) meshes.push(o as THREE.Mesh);
+  });
+
+  // Share the samples between meshes by surface area
+  const samplers = meshes.map(mesh => ({ mesh, sampler: new MeshSurfaceSampler(mesh).build(), area: worldArea(mesh) }));
+  const totalArea = samplers.reduce((sum, s) => sum + s.area, 0);
+
+  const points: number[] = [];
+  const p = new THREE.Vector3();
+  for (const { mesh, sampler, area } of samplers) {
+    const count = totalArea > 0 ? Math.round((area / totalArea) * MESH_POINTS) : 0;
+    for (let i = 0; i < count; i++) {
+      sampler.sample(p);
+      p.applyMatrix4(mesh.matrixWorld);
+      points.push(p.x, p.y, p.z);
+    }
+  }
+
+  return toShape('model', shortLabel(file.name.replace(/\.[^.]+$/, '')), '🧊', new Float32Array(points));
+};
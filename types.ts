@@ -1,7 +1,9 @@
 export enum AppMode {
   TREE = 'TREE',       // Fist: Gather into a tree
   SCATTER = 'SCATTER', // Open Palm: Explode/float
-  INSPECT = 'INSPECT'  // Pinch/Grab: Look at a photo
+  INSPECT = 'INSPECT', // Pinch/Grab: Look at a photo
+  MOSAIC = 'MOSAIC',   // Particles rebuild the photo as pixel art, then it fades in
+  DECORATE = 'DECORATE' // The tree stands while the visitor hangs ornaments on it
 }
 
 export type ParticleType = 'SPHERE' | 'CUBE' | 'PHOTO';
@@ -17,8 +19,61 @@ export interface ParticleData {
   rotationSpeed: [number, number, number];
 }
 
+export type BuiltInGesture =
+  | 'FIST' | 'OPEN' | 'PINCH' | 'POINT' | 'THUMBS_UP' | 'NONE'      // Static poses
+  | 'SWIPE_LEFT' | 'SWIPE_RIGHT' | 'CIRCLE' | 'WAVE' | 'SHAKE'       // One-hand motions
+  | 'SPREAD' | 'SQUEEZE';                                            // Two-hand motions
+
+// Custom gestures can be registered at runtime, so any string id is accepted
+export type GestureType = BuiltInGesture | (string & {});
+
+// Single-frame classification result, before temporal smoothing
+export interface GestureReading {
+  gesture: GestureType;
+  confidence: number; // 0-1
+}
+
 export interface HandGestureState {
   isHandDetected: boolean;
-  gesture: 'FIST' | 'OPEN' | 'PINCH' | 'NONE';
+  gesture: GestureType;
+  confidence: number; // 0-1, smoothed confidence of the committed gesture
   handPosition: { x: number; y: number }; // Normalized 0-1
+  motion: GestureType | null; // One-shot dynamic gesture fired on this frame
+  handCount: number;
+  handSpread: number | null; // Normalized distance between both palms, when two hands are tracked
+  handSize: number | null; // Palm size (wrist to middle knuckle) of the first hand, grows as it nears the camera
+}
+
+export type ActionName = 'setMode' | 'nextPhoto' | 'prevPhoto' | 'toggleMusic' | 'snapshot' | 'cycleShape' | 'shakeTree' | 'undoOrnament';
+
+// A named action with its parameters, as bound to a gesture or key
+export interface GestureBinding {
+  action: ActionName;
+  mode?: AppMode; // Only for 'setMode'
+}
+
+export type InputSource = 'hand' | 'keyboard' | 'pointer' | 'touch' | 'remote'; // 'remote': forwarded from a paired phone
+
+// Everything an input provider can tell the app, independent of the device it came from
+export type InputEvent =
+  | { source: InputSource; type: 'gesture'; state: HandGestureState }
+  | { source: InputSource; type: 'action'; binding: GestureBinding }
+  | { source: InputSource; type: 'cursor'; position: { x: number; y: number } } // Normalized 0-1
+  | { source: InputSource; type: 'zoom'; factor: number }                       // Relative multiplier
+  | { source: InputSource; type: 'selectPhoto'; index: number };
+
+export type InputListener = (event: InputEvent) => void;
+
+// A photo as used by the scene: persisted metadata plus a live object URL
+export interface PhotoItem {
+  id: string;
+  url: string;      // Full resolution (downscaled to the texture budget), only loaded when inspected
+  thumbUrl: string; // Square thumbnail packed into the tree atlas
+  width: number;
+  height: number;
+  name: string;
+  caption: string;
+  date: number | null; // Shown under the inspected photo; defaults to the EXIF capture date
+  dateAdded: number; // epoch ms
+  capturedAt: number | null;
 }
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode, GestureBinding, GestureType } from '../types.ts';
+import { BINDING_PRESETS, BindingMap, routeGesture } from './bindings.ts';
+import { GESTURE_FORCES } from './handField.ts';
+
+const [defaults, leftHanded] = BINDING_PRESETS.map(preset => preset.bindings);
+
+// The mode after `gesture` is routed the way the app's gesture handler does it
+const modeAfter = (bindings: BindingMap, mode: AppMode, gesture: GestureType, photoHovered = false) => {
+  const binding: GestureBinding | null = routeGesture(bindings, gesture, { mode, photoHovered });
+  return binding?.action === 'setMode' && binding.mode ? binding.mode : mode;
+};
+
+describe('routeGesture', () => {
+  it.each([['default', defaults], ['leftHanded', leftHanded]] as const)('lets a pinch swirl the scattered particles with the %s bindings', (_id, bindings) => {
+    expect(modeAfter(bindings, AppMode.SCATTER, 'PINCH')).toBe(AppMode.SCATTER);
+    expect(GESTURE_FORCES.PINCH).toBe('swirl');
+  });
+
+  it('still inspects with a pinch on a photo, or from the tree', () => {
+    expect(modeAfter(defaults, AppMode.SCATTER, 'PINCH', true)).toBe(AppMode.INSPECT);
+    expect(modeAfter(defaults, AppMode.TREE, 'PINCH')).toBe(AppMode.INSPECT);
+  });
+
+  it('shakes a standing tree without breaking it up', () => {
+    // The pose the shake is made with commits first
+    expect(modeAfter(defaults, AppMode.TREE, 'FIST')).toBe(AppMode.TREE);
+    expect(routeGesture(defaults, 'SHAKE', { mode: AppMode.TREE, photoHovered: false })).toEqual({ action: 'shakeTree' });
+  });
+
+  it('keeps the poses that do not drive the field', () => {
+    expect(modeAfter(defaults, AppMode.SCATTER, 'FIST')).toBe(AppMode.TREE);
+    expect(routeGesture(defaults, 'SWIPE_LEFT', { mode: AppMode.SCATTER, photoHovered: false })).toEqual({ action: 'nextPhoto' });
+  });
+
+  it('keeps the tree standing while decorating, poses and motions alike', () => {
+    const kids = BINDING_PRESETS.find(preset => preset.id === 'kids')!.bindings;
+    const decorating = { mode: AppMode.DECORATE, photoHovered: false };
+    expect(routeGesture(defaults, 'CIRCLE', decorating)).toBeNull();
+    expect(routeGesture(defaults, 'OPEN', decorating)).toBeNull();
+    expect(routeGesture(kids, 'WAVE', decorating)).toBeNull();
+    // The way back out, and what leaves the tree alone
+    expect(modeAfter(defaults, AppMode.DECORATE, 'FIST')).toBe(AppMode.TREE);
+    expect(routeGesture(defaults, 'SHAKE', decorating)).toEqual({ action: 'shakeTree' });
+    expect(routeGesture(defaults, 'SWIPE_LEFT', decorating)).toEqual({ action: 'nextPhoto' });
+  });
+});
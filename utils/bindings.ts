@@ -0,0 +1,145 @@
+import { ActionName, AppMode, BuiltInGesture, GestureBinding, GestureType } from '../types.ts';
+import { GESTURE_FORCES } from './handField.ts';
+
+// ==========================================
+// GESTURE → ACTION BINDINGS
+// ==========================================
+
+// Gesture id → bound action (null = explicitly unbound)
+export type BindingMap = Record<string, GestureBinding | null>;
+
+// Everything a gesture can be bound to, in the order the settings panel lists them.
+// Labels live in the locale catalogs (bindings.actions), keyed the same way.
+export const ACTION_CATALOG: { key: string; binding: GestureBinding }[] = [
+  { key: 'setMode:TREE', binding: { action: 'setMode', mode: AppMode.TREE } },
+  { key: 'setMode:SCATTER', binding: { action: 'setMode', mode: AppMode.SCATTER } },
+  { key: 'setMode:INSPECT', binding: { action: 'setMode', mode: AppMode.INSPECT } },
+  { key: 'setMode:MOSAIC', binding: { action: 'setMode', mode: AppMode.MOSAIC } },
+  { key: 'setMode:DECORATE', binding: { action: 'setMode', mode: AppMode.DECORATE } },
+  { key: 'nextPhoto', binding: { action: 'nextPhoto' } },
+  { key: 'prevPhoto', binding: { action: 'prevPhoto' } },
+  { key: 'toggleMusic', binding: { action: 'toggleMusic' } },
+  { key: 'snapshot', binding: { action: 'snapshot' } },
+  { key: 'cycleShape', binding: { action: 'cycleShape' } },
+  { key: 'shakeTree', binding: { action: 'shakeTree' } },
+  { key: 'undoOrnament', binding: { action: 'undoOrnament' } },
+];
+
+export const bindingKey = (binding: GestureBinding | null) =>
+  binding ? (binding.mode ? `${binding.action}:${binding.mode}` : binding.action) : '';
+
+export const findAction = (key: string) => ACTION_CATALOG.find(a => a.key === key);
+
+// Gestures that can be bound, with the icons shown in the UI
+export const BINDABLE_GESTURES: { id: BuiltInGesture; icon: string }[] = [
+  { id: 'FIST', icon: '✊' },
+  { id: 'OPEN', icon: '✋' },
+  { id: 'PINCH', icon: '🤏' },
+  { id: 'POINT', icon: '☝️' },
+  { id: 'THUMBS_UP', icon: '👍' },
+  { id: 'SWIPE_LEFT', icon: '👈' },
+  { id: 'SWIPE_RIGHT', icon: '👉' },
+  { id: 'CIRCLE', icon: '🔄' },
+  { id: 'WAVE', icon: '👋' },
+  { id: 'SHAKE', icon: '🤜' },
+  { id: 'SPREAD', icon: '🙌' },
+  { id: 'SQUEEZE', icon: '🤲' },
+];
+
+const DEFAULT_BINDINGS: BindingMap = {
+  FIST: { action: 'setMode', mode: AppMode.TREE },
+  OPEN: { action: 'setMode', mode: AppMode.SCATTER },
+  PINCH: { action: 'setMode', mode: AppMode.INSPECT },
+  THUMBS_UP: { action: 'setMode', mode: AppMode.MOSAIC },
+  SWIPE_LEFT: { action: 'nextPhoto' },
+  SWIPE_RIGHT: { action: 'prevPhoto' },
+  CIRCLE: { action: 'cycleShape' },
+  // Its fist is bound to TREE, so shaking a standing tree leaves it standing
+  SHAKE: { action: 'shakeTree' },
+};
+
+export const BINDING_PRESETS: { id: string; bindings: BindingMap }[] = [
+  { id: 'default', bindings: DEFAULT_BINDINGS },
+  {
+    // Swipes mirrored so the natural sweep of the left hand moves forward
+    id: 'leftHanded',
+    bindings: {
+      ...DEFAULT_BINDINGS,
+      SWIPE_LEFT: { action: 'prevPhoto' },
+      SWIPE_RIGHT: { action: 'nextPhoto' },
+    },
+  },
+  {
+    // Big, forgiving gestures: small hands rarely manage a clean pinch or fist
+    id: 'kids',
+    bindings: {
+      THUMBS_UP: { action: 'setMode', mode: AppMode.TREE },
+      WAVE: { action: 'setMode', mode: AppMode.SCATTER },
+      OPEN: { action: 'setMode', mode: AppMode.SCATTER },
+      POINT: { action: 'setMode', mode: AppMode.INSPECT },
+      SWIPE_LEFT: { action: 'nextPhoto' },
+      SWIPE_RIGHT: { action: 'prevPhoto' },
+    },
+  },
+];
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'magic-tree:gesture-bindings';
+
+const isValidBinding = (value: any): value is GestureBinding | null =>
+  value === null || (
+    typeof value === 'object' &&
+    ACTION_CATALOG.some(a => a.binding.action === value.action) &&
+    (value.action !== 'setMode' || Object.values(AppMode).includes(value.mode))
+  );
+
+export const loadBindings = (): BindingMap => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_BINDINGS;
+    const parsed = JSON.parse(raw);
+    const result: BindingMap = {};
+    for (const [gesture, binding] of Object.entries(parsed)) {
+      if (isValidBinding(binding)) result[gesture] = binding;
+    }
+    return result;
+  } catch (e) {
+    console.warn("Could not load gesture bindings, using defaults", e);
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (bindings: BindingMap) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn("Could not save gesture bindings", e);
+  }
+};
+
+export const getBinding = (bindings: BindingMap, gesture: GestureType): GestureBinding | null =>
+  bindings[gesture] ?? null;
+
+// --- ROUTING ---
+
+export interface RouteContext {
+  mode: AppMode;
+  photoHovered: boolean; // The cursor is over a photo
+}
+
+// Pulls the tree out from under the ornaments: any other mode than the tree, or another shape
+const leavesTree = (binding: GestureBinding) =>
+  binding.action === 'cycleShape' ||
+  (binding.action === 'setMode' && binding.mode !== AppMode.TREE && binding.mode !== AppMode.DECORATE);
+
+// The binding a committed pose or a recognized motion runs right now, if any.
+// In SCATTER the poses that drive the force field act on the particles
+// instead, unless they are aimed at a photo (a pinch there still inspects it).
+// While decorating, only bindings that keep the tree standing run.
+export const routeGesture = (bindings: BindingMap, gesture: GestureType, context: RouteContext): GestureBinding | null => {
+  if (context.mode === AppMode.SCATTER && GESTURE_FORCES[gesture] && !context.photoHovered) return null;
+  const binding = getBinding(bindings, gesture);
+  if (context.mode === AppMode.DECORATE && binding && leavesTree(binding)) return null;
+  return binding;
+};
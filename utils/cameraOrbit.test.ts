@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { createOrbitController, DEFAULT_ORBIT, OrbitController, OrbitFrame, OrbitSteer } from './cameraOrbit.ts';
+
+const FREE: OrbitFrame = { distance: 38, centered: false };
+const CENTERED: OrbitFrame = { distance: 38, centered: true };
+
+// Steps the controller at 60 fps and returns the last pose
+const run = (orbit: OrbitController, seconds: number, steer: OrbitSteer | null, frame = FREE) => {
+  let pose = orbit.update(steer, frame, 1 / 60);
+  for (let i = 1; i < seconds * 60; i++) pose = orbit.update(steer, frame, 1 / 60);
+  return { ...pose };
+};
+
+const hand = (x: number, y: number, size: number | null = 0.2): OrbitSteer => ({ x, y, size });
+
+describe('createOrbitController', () => {
+  it('holds the camera still on a held frame, wherever the hand goes', () => {
+    const orbit = createOrbitController();
+    run(orbit, 1, hand(0.5, 0.5, 0.2));
+    const before = run(orbit, 3, hand(0.6, 0.5, 0.2));
+    const HELD: OrbitFrame = { ...FREE, held: true };
+    // Reaching far left with a bigger palm, as when pinching at the palette
+    for (const held of [run(orbit, 3, hand(0.05, 0.5, 0.3), HELD), run(orbit, 3, null, HELD)]) {
+      expect(held.azimuth).toBeCloseTo(before.azimuth, 4);
+      expect(held.elevation).toBeCloseTo(before.elevation, 4);
+      expect(held.distance).toBeCloseTo(before.distance, 4);
+    }
+  });
+
+  it('picks up the hand where the camera already is', () => {
+    const orbit = createOrbitController();
+    const idle = run(orbit, 3, null);
+    // Far off-center, but nothing has moved since it was picked up
+    const held = run(orbit, 1, hand(0.9, 0.1));
+    expect(held.azimuth).toBeCloseTo(idle.azimuth, 2);
+    expect(held.elevation).toBeCloseTo(idle.elevation, 2);
+    expect(held.distance).toBeCloseTo(idle.distance, 5);
+  });
+
+  it('turns the front of the tree the way the hand moves', () => {
+    const orbit = createOrbitController();
+    run(orbit, 1, hand(0.5, 0.5));
+    const pose = run(orbit, 3, hand(0.6, 0.6));
+    // Hand right: camera swings left (negative azimuth); hand down: camera rises
+    expect(pose.azimuth).toBeCloseTo(-0.1 * DEFAULT_ORBIT.yawRange, 2);
+    expect(pose.elevation).toBeCloseTo(DEFAULT_ORBIT.restElevation + 0.1 * DEFAULT_ORBIT.pitchRange, 2);
+  });
+
+  it('zooms in as the palm grows', () => {
+    const orbit = createOrbitController();
+    run(orbit, 1, hand(0.5, 0.5, 0.2));
+    expect(run(orbit, 3, hand(0.5, 0.5, 0.25)).distance).toBeCloseTo(38 * 0.8, 1);
+    expect(run(orbit, 3, hand(0.5, 0.5, 0.16)).distance).toBeCloseTo(38 * 1.25, 1);
+  });
+
+  it('keeps every pose inside the limits', () => {
+    const step = fc.record({
+      steer: fc.option(fc.record({ x: fc.double({ min: 0, max: 1, noNaN: true }), y: fc.double({ min: 0, max: 1, noNaN: true }), size: fc.option(fc.double({ min: 0.01, max: 1, noNaN: true })) })),
+      distance: fc.double({ min: 10, max: 80, noNaN: true }),
+      centered: fc.boolean(),
+    });
+    fc.assert(fc.property(fc.array(step, { minLength: 1, maxLength: 60 }), (steps) => {
+      const orbit = createOrbitController();
+      for (const { steer, distance, centered } of steps) {
+        const pose = orbit.update(steer, { distance, centered }, 1 / 30);
+        expect(pose.elevation).toBeGreaterThanOrEqual(DEFAULT_ORBIT.minElevation - 1e-9);
+        expect(pose.elevation).toBeLessThanOrEqual(DEFAULT_ORBIT.maxElevation + 1e-9);
+        expect(pose.distance).toBeGreaterThanOrEqual(DEFAULT_ORBIT.minDistance - 1e-9);
+        expect(pose.distance).toBeLessThanOrEqual(DEFAULT_ORBIT.maxDistance + 1e-9);
+      }
+    }));
+  });
+
+  it('damps sudden hand jumps', () => {
+    const orbit = createOrbitController();
+    run(orbit, 1, hand(0.5, 0.5));
+    const pose = orbit.update(hand(0.9, 0.5), FREE, 1 / 60);
+    expect(Math.abs(pose.azimuth)).toBeLessThan(0.1 * 0.4 * DEFAULT_ORBIT.yawRange);
+  });
+
+  it('eases back into the auto-rotate once the hand is lost', () => {
+    const orbit = createOrbitController();
+    run(orbit, 1, hand(0.5, 0.5));
+    const steered = run(orbit, 2, hand(0.5, 0.9));
+
+    // Spins up gradually rather than jumping to full speed
+    const first = orbit.update(null, FREE, 1 / 60).azimuth - steered.azimuth;
+    expect(Math.abs(first)).toBeLessThan(Math.abs(DEFAULT_ORBIT.autoRotateSpeed) / 60);
+
+    const before = run(orbit, 3, null);
+    const after = run(orbit, 1, null);
+    expect(after.azimuth - before.azimuth).toBeCloseTo(DEFAULT_ORBIT.autoRotateSpeed, 2);
+    expect(after.elevation).toBeCloseTo(DEFAULT_ORBIT.restElevation, 2);
+  });
+
+  it('holds the front view while centered, with only a small peek', () => {
+    const orbit = createOrbitController();
+    run(orbit, 20, null); // Auto-rotated part of the way round
+    expect(run(orbit, 3, null, CENTERED).azimuth % (Math.PI * 2)).toBeCloseTo(0, 2);
+
+    orbit.update(hand(0.5, 0.5), CENTERED, 1 / 60);
+    const peek = run(orbit, 3, hand(0, 0.5), CENTERED);
+    expect(peek.azimuth).toBeCloseTo(DEFAULT_ORBIT.centeredYaw, 2);
+  });
+});
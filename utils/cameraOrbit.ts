@@ -0,0 +1,136 @@
+// ==========================================
+// CAMERA ORBIT
+// ==========================================
+// Turns a steering point (hand or drag position, normalized 0-1) into a camera
+// pose around the tree. Steering is relative to where it was picked up, so the
+// camera never jumps when a hand appears; once it is released the camera eases
+// back to its resting height and spins up into the idle auto-rotate. A held
+// frame keeps the camera where it is, for when the hand is busy aiming.
+
+export interface OrbitOptions {
+  yawRange: number;         // Azimuth swept by moving across the whole frame (rad)
+  pitchRange: number;       // Elevation swept by moving down the whole frame (rad)
+  minElevation: number;
+  maxElevation: number;
+  restElevation: number;    // Height the camera settles back to when released
+  minDistance: number;
+  maxDistance: number;
+  minDepth: number;         // Hand-depth multiplier on the distance, hand pulled back...
+  maxDepth: number;         // ...and pushed toward the camera (inverted: smaller is closer)
+  centeredYaw: number;      // How far the camera may peek around an inspected photo (rad)
+  autoRotateSpeed: number;  // rad/s once released
+  handoffSeconds: number;   // How long the auto-rotate takes to spin back up
+  damping: number;          // Per-second rate the pose closes on its target
+}
+
+export const DEFAULT_ORBIT: OrbitOptions = {
+  yawRange: Math.PI * 1.5,
+  pitchRange: 1.2,
+  minElevation: -0.35,
+  maxElevation: 0.9,
+  restElevation: Math.atan2(2, 38), // The Canvas' starting position, 2 up at 38 away
+  minDistance: 16,
+  maxDistance: 70,
+  minDepth: 0.6,
+  maxDepth: 1.6,
+  centeredYaw: 0.35,
+  autoRotateSpeed: -0.1, // The same way the tree used to spin
+  handoffSeconds: 1.5,
+  damping: 4,
+};
+
+export interface OrbitSteer {
+  x: number;
+  y: number;
+  size: number | null; // Palm size, when a hand (rather than a pointer) is steering
+}
+
+export interface OrbitFrame {
+  distance: number;    // Distance asked for by the zoom controls
+  centered: boolean;   // Hold the front view (inspecting a photo) instead of orbiting freely
+  held?: boolean;      // Neither steer nor auto-rotate (decorating)
+}
+
+export interface OrbitPose {
+  azimuth: number;     // Around the trunk, 0 looks at the tree from +z
+  elevation: number;
+  distance: number;
+}
+
+export interface OrbitController {
+  update: (steer: OrbitSteer | null, frame: OrbitFrame, delta: number) => OrbitPose;
+  reset: () => void;
+}
+
+const FULL_TURN = Math.PI * 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const createOrbitController = (options: Partial<OrbitOptions> = {}): OrbitController => {
+  const opts = { ...DEFAULT_ORBIT, ...options };
+
+  const pose: OrbitPose = { azimuth: 0, elevation: opts.restElevation, distance: 0 };
+  let azimuth = 0;
+  let elevation = opts.restElevation;
+  let depth = 1;
+  let spin = 0; // 0-1 share of the auto-rotate speed
+  let anchor: { x: number; y: number; size: number | null; azimuth: number; elevation: number } | null = null;
+  let wasCentered = false;
+
+  const reset = () => {
+    pose.azimuth = azimuth = 0;
+    pose.elevation = elevation = opts.restElevation;
+    pose.distance = 0;
+    depth = 1;
+    spin = 0;
+    anchor = null;
+    wasCentered = false;
+  };
+
+  const update = (steer: OrbitSteer | null, frame: OrbitFrame, delta: number): OrbitPose => {
+    // Re-anchor whenever the rules change, so switching modes mid-gesture doesn't jump
+    if (!steer || frame.held || frame.centered !== wasCentered) anchor = null;
+    wasCentered = frame.centered;
+
+    if (frame.held) {
+      // Finish easing to the last target and stay there
+      spin = 0;
+    } else if (steer) {
+      anchor ??= { x: steer.x, y: steer.y, size: steer.size, azimuth: pose.azimuth, elevation: pose.elevation };
+      // Tracking can start before the palm is measured
+      anchor.size ??= steer.size;
+      spin = 0;
+
+      // Grab-and-turn: the front of the tree follows the hand
+      const yaw = -(steer.x - anchor.x) * opts.yawRange;
+      const pitch = (steer.y - anchor.y) * opts.pitchRange;
+      if (frame.centered) {
+        azimuth = Math.round(pose.azimuth / FULL_TURN) * FULL_TURN + clamp(yaw, -opts.centeredYaw, opts.centeredYaw);
+      } else {
+        azimuth = anchor.azimuth + yaw;
+      }
+      elevation = clamp(anchor.elevation + pitch, opts.minElevation, opts.maxElevation);
+      // A bigger palm means a closer hand, which pulls the camera in
+      if (anchor.size && steer.size) depth = clamp(anchor.size / steer.size, opts.minDepth, opts.maxDepth);
+    } else {
+      if (frame.centered) {
+        spin = 0;
+        azimuth = Math.round(pose.azimuth / FULL_TURN) * FULL_TURN;
+      } else {
+        spin = Math.min(1, spin + delta / opts.handoffSeconds);
+        azimuth += opts.autoRotateSpeed * spin * delta;
+      }
+      elevation = opts.restElevation;
+      depth = 1;
+    }
+
+    const distance = clamp(frame.distance * depth, opts.minDistance, opts.maxDistance);
+    const approach = 1 - Math.exp(-opts.damping * delta);
+    pose.azimuth += (azimuth - pose.azimuth) * approach;
+    pose.elevation += (elevation - pose.elevation) * approach;
+    pose.distance = pose.distance === 0 ? distance : pose.distance + (distance - pose.distance) * approach;
+    return pose;
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,93 @@
+// ==========================================
+// MINIMAL JPEG / EXIF READER
+// ==========================================
+// Reads only what the upload pipeline needs: orientation and capture date.
+// Anything unparseable yields defaults instead of throwing.
+
+export interface ImageMeta {
+  orientation: number;       // EXIF orientation 1-8 (1 = upright)
+  capturedAt: number | null; // DateTimeOriginal as epoch ms (local time), if present
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// "2023:12:25 18:30:00" → epoch ms
+const parseExifDate = (value: string): number | null => {
+  const m = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m.map(Number);
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const readTiff = (view: DataView, tiffStart: number, meta: ImageMeta) => {
+  const little = view.getUint16(tiffStart) === 0x4949; // "II"
+  const u16 = (o: number) => view.getUint16(tiffStart + o, little);
+  const u32 = (o: number) => view.getUint32(tiffStart + o, little);
+
+  const readAscii = (entry: number) => {
+    const count = u32(entry + 4);
+    const offset = count > 4 ? u32(entry + 8) : entry + 8;
+    let out = '';
+    for (let i = 0; i < count - 1; i++) out += String.fromCharCode(view.getUint8(tiffStart + offset + i));
+    return out;
+  };
+
+  const readIfd = (ifdOffset: number, onEntry: (tag: number, entry: number) => void) => {
+    const entries = u16(ifdOffset);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      onEntry(u16(entry), entry);
+    }
+  };
+
+  let exifIfd: number | null = null;
+  let fallbackDate: number | null = null;
+
+  readIfd(u32(4), (tag, entry) => {
+    if (tag === TAG_ORIENTATION) meta.orientation = u16(entry + 8);
+    if (tag === TAG_EXIF_IFD) exifIfd = u32(entry + 8);
+    if (tag === TAG_DATETIME) fallbackDate = parseExifDate(readAscii(entry));
+  });
+
+  if (exifIfd !== null) {
+    readIfd(exifIfd, (tag, entry) => {
+      if (tag === TAG_DATETIME_ORIGINAL) meta.capturedAt = parseExifDate(readAscii(entry));
+    });
+  }
+  meta.capturedAt = meta.capturedAt ?? fallbackDate;
+};
+
+const isSofMarker = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+export const readImageMeta = (buffer: ArrayBuffer): ImageMeta => {
+  const meta: ImageMeta = { orientation: 1, capturedAt: null };
+  const view = new DataView(buffer);
+
+  try {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return meta; // Not a JPEG
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xff) break;
+      const marker = view.getUint8(offset + 1);
+      const length = view.getUint16(offset + 2);
+
+      if (marker === 0xe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        readTiff(view, offset + 10, meta);
+      } else if (isSofMarker(marker)) {
+        break; // Image data follows; nothing else of interest
+      }
+      offset += 2 + length;
+    }
+  } catch (e) {
+    // Truncated or malformed segment: keep whatever was read so far
+  }
+
+  if (meta.orientation < 1 || meta.orientation > 8) meta.orientation = 1;
+  return meta;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../types.ts';
+import { createGestureStabilizer, RawHandFrame } from './gestureStabilizer.ts';
+
+const frame = (gesture: GestureType, confidence: number): RawHandFrame => ({
+  reading: { gesture, confidence },
+  handPosition: { x: 0.5, y: 0.5 },
+  motion: null,
+  handCount: 1,
+  handSpread: null,
+  handSize: 0.2,
+});
+
+describe('createGestureStabilizer', () => {
+  // Feeds one reading every 50 ms from `from` up to and including `to`
+  const hold = (stabilizer: ReturnType<typeof createGestureStabilizer>, reading: RawHandFrame, from: number, to: number) => {
+    let state = stabilizer.update(reading, from);
+    for (let t = from + 50; t <= to; t += 50) state = stabilizer.update(reading, t);
+    return state.gesture;
+  };
+
+  it('commits a gesture once it has been held for the dwell time', () => {
+    const stabilizer = createGestureStabilizer({ dwellMs: 250 });
+    expect(hold(stabilizer, frame('OPEN', 0.9), 0, 200)).toBe('NONE');
+    expect(hold(stabilizer, frame('OPEN', 0.9), 250, 250)).toBe('OPEN');
+  });
+
+  it('starts the dwell over after a run of weak readings', () => {
+    const stabilizer = createGestureStabilizer({ dwellMs: 250 });
+    hold(stabilizer, frame('OPEN', 0.9), 0, 0);
+    // A half-open hand, read with little confidence
+    hold(stabilizer, frame('OPEN', 0.5), 50, 200);
+    expect(hold(stabilizer, frame('OPEN', 0.9), 250, 250)).toBe('NONE');
+    expect(hold(stabilizer, frame('OPEN', 0.9), 300, 500)).toBe('OPEN');
+  });
+
+  it('starts the dwell over when another weak gesture interrupts it', () => {
+    const stabilizer = createGestureStabilizer({ dwellMs: 250 });
+    hold(stabilizer, frame('OPEN', 0.9), 0, 0);
+    hold(stabilizer, frame('FIST', 0.5), 50, 200);
+    expect(hold(stabilizer, frame('OPEN', 0.9), 250, 250)).toBe('NONE');
+  });
+
+  it('keeps the committed gesture through readings above the exit confidence', () => {
+    const stabilizer = createGestureStabilizer({ dwellMs: 250 });
+    hold(stabilizer, frame('FIST', 0.9), 0, 250);
+    expect(hold(stabilizer, frame('FIST', 0.5), 300, 1000)).toBe('FIST');
+  });
+});
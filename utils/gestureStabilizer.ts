@@ -0,0 +1,124 @@
+import { GestureReading, GestureType, HandGestureState } from '../types.ts';
+
+// ==========================================
+// GESTURE STABILIZER
+// ==========================================
+// Sits between the per-frame classifier and the app. A new gesture is only
+// committed after it has been seen continuously for `dwellMs`, and short
+// tracking dropouts are bridged instead of being reported as "no hand".
+
+export interface GestureSmoothingOptions {
+  dwellMs: number;          // How long a new gesture must persist before it is committed
+  enterConfidence: number;  // Readings below this cannot start (or continue) a switch
+  exitConfidence: number;   // Readings of the committed gesture above this keep it alive
+  lostHandGraceMs: number;  // Hand-missing frames tolerated before reporting the hand as lost
+  confidenceSmoothing: number; // EMA factor (0-1) applied to the reported confidence
+}
+
+export const DEFAULT_GESTURE_SMOOTHING: GestureSmoothingOptions = {
+  dwellMs: 250,
+  enterConfidence: 0.7,
+  exitConfidence: 0.4,
+  lostHandGraceMs: 400,
+  confidenceSmoothing: 0.3,
+};
+
+export interface RawHandFrame {
+  reading: GestureReading;
+  handPosition: { x: number; y: number };
+  motion: GestureReading | null;
+  handCount: number;
+  handSpread: number | null;
+  handSize: number;
+}
+
+export interface GestureStabilizer {
+  update: (frame: RawHandFrame | null, timeMs: number) => HandGestureState;
+  reset: () => void;
+}
+
+const LOST_STATE: HandGestureState = {
+  isHandDetected: false,
+  gesture: 'NONE',
+  confidence: 0,
+  handPosition: { x: 0.5, y: 0.5 },
+  motion: null,
+  handCount: 0,
+  handSpread: null,
+  handSize: null,
+};
+
+export const createGestureStabilizer = (options: Partial<GestureSmoothingOptions> = {}): GestureStabilizer => {
+  const opts = { ...DEFAULT_GESTURE_SMOOTHING, ...options };
+
+  let committed: GestureType = 'NONE';
+  let committedConfidence = 0;
+  let candidate: GestureType | null = null;
+  let candidateSince = 0;
+  let lastSeenAt: number | null = null;
+  let lastState: HandGestureState = LOST_STATE;
+
+  const reset = () => {
+    committed = 'NONE';
+    committedConfidence = 0;
+    candidate = null;
+    candidateSince = 0;
+    lastSeenAt = null;
+    lastState = LOST_STATE;
+  };
+
+  const update = (frame: RawHandFrame | null, timeMs: number): HandGestureState => {
+    // 1. Hand missing: bridge short dropouts with the last known state
+    if (!frame) {
+      if (lastSeenAt !== null && timeMs - lastSeenAt <= opts.lostHandGraceMs) {
+        // Motions are one-shot events and must not repeat while bridging
+        return { ...lastState, motion: null };
+      }
+      reset();
+      return LOST_STATE;
+    }
+
+    lastSeenAt = timeMs;
+    const { gesture, confidence } = frame.reading;
+
+    // Motions are reported immediately; the pose held while moving is transient
+    if (frame.motion) candidate = null;
+
+    // 2. Hysteresis: the committed gesture only needs exitConfidence to stay,
+    //    any other gesture needs enterConfidence to be considered at all
+    if (gesture === committed) {
+      candidate = null;
+      if (confidence >= opts.exitConfidence) {
+        committedConfidence += (confidence - committedConfidence) * opts.confidenceSmoothing;
+      }
+    } else if (!frame.motion && confidence >= opts.enterConfidence) {
+      if (candidate !== gesture) {
+        candidate = gesture;
+        candidateSince = timeMs;
+      }
+      // 3. Dwell: commit once the candidate has been held long enough
+      if (timeMs - candidateSince >= opts.dwellMs) {
+        committed = gesture;
+        committedConfidence = confidence;
+        candidate = null;
+      }
+    } else {
+      // A weak reading breaks the run; the dwell starts over from the next strong one
+      candidate = null;
+    }
+
+    lastState = {
+      isHandDetected: true,
+      gesture: committed,
+      confidence: committedConfidence,
+      handPosition: frame.handPosition,
+      motion: frame.motion ? frame.motion.gesture : null,
+      handCount: frame.handCount,
+      handSpread: frame.handSpread,
+      handSize: frame.handSize,
+    };
+    return lastState;
+  };
+
+  return { update, reset };
+};
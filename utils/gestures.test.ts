@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../types.ts';
+import {
+  classifyPose, createHandTracker, createMotionRecognizer, extractHandFeatures, HandFeatures, Landmark
+} from './gestures.ts';
+
+// Landmark sets in MediaPipe's format (normalized image coordinates, y down),
+// one file per pose plus the edge cases next to each threshold
+interface HandFixture {
+  gesture: GestureType;
+  note: string;
+  landmarks: Landmark[];
+}
+
+const fixtures = Object.entries(import.meta.glob<HandFixture>('./__fixtures__/hands/*.json', { eager: true, import: 'default' }))
+  .map(([path, fixture]) => ({ name: path.split('/').pop()!.replace('.json', ''), ...fixture }));
+
+const fixture = (name: string) => fixtures.find(f => f.name === name)!;
+
+const moved = (landmarks: Landmark[], dx: number, dy = 0): HandFeatures =>
+  extractHandFeatures(landmarks.map(p => ({ x: p.x + dx, y: p.y + dy, z: p.z })));
+
+describe('classifyPose', () => {
+  it('has a fixture for every built-in pose', () => {
+    const covered = new Set(fixtures.map(f => f.gesture));
+    for (const pose of ['FIST', 'OPEN', 'PINCH', 'POINT', 'THUMBS_UP', 'NONE']) expect(covered).toContain(pose);
+  });
+
+  it.each(fixtures.map(f => [f.name, f] as const))('%s', (_name, { gesture, landmarks }) => {
+    const reading = classifyPose(extractHandFeatures(landmarks));
+    expect(reading.gesture).toBe(gesture);
+    expect(reading.confidence).toBeGreaterThanOrEqual(0);
+    expect(reading.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('is less sure of a loose pinch than of touching tips', () => {
+    const tight = classifyPose(extractHandFeatures(fixture('pinch').landmarks));
+    const loose = classifyPose(extractHandFeatures(fixture('pinch-loose').landmarks));
+    expect(loose.confidence).toBeLessThan(tight.confidence);
+    expect(loose.confidence).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('ignores where the hand is in the frame', () => {
+    const { landmarks, gesture } = fixture('point');
+    expect(classifyPose(moved(landmarks, -0.3, -0.2)).gesture).toBe(gesture);
+  });
+});
+
+describe('extractHandFeatures', () => {
+  it('mirrors x so the palm moves the way the user does', () => {
+    const { landmarks } = fixture('open');
+    const features = extractHandFeatures(landmarks);
+    expect(features.palm.x).toBeCloseTo(1 - (landmarks[0].x + landmarks[9].x) / 2);
+    expect(moved(landmarks, 0.1).palm.x).toBeCloseTo(features.palm.x - 0.1);
+  });
+});
+
+describe('createMotionRecognizer', () => {
+  // Feeds frames 50 ms apart and returns the first gesture recognized
+  const play = (frames: HandFeatures[][], pose: GestureType) => {
+    const recognizer = createMotionRecognizer();
+    for (let i = 0; i < frames.length; i++) {
+      const reading = recognizer.update(frames[i], pose, i * 50);
+      if (reading) return reading.gesture;
+    }
+    return null;
+  };
+
+  const steps = (count: number, at: (t: number) => HandFeatures[]) =>
+    Array.from({ length: count }, (_, i) => at(i / (count - 1)));
+
+  it('recognizes a pointing swipe in the direction the user moves', () => {
+    const { landmarks } = fixture('point');
+    // Image x runs opposite to the user's left/right
+    expect(play(steps(8, t => [moved(landmarks, -0.4 * t)]), 'POINT')).toBe('SWIPE_RIGHT');
+    expect(play(steps(8, t => [moved(landmarks, 0.4 * t - 0.2)]), 'POINT')).toBe('SWIPE_LEFT');
+  });
+
+  it('needs the pointing pose for a swipe', () => {
+    const { landmarks } = fixture('open');
+    expect(play(steps(8, t => [moved(landmarks, -0.4 * t)]), 'OPEN')).toBeNull();
+  });
+
+  it('recognizes a wave of the open hand', () => {
+    const { landmarks } = fixture('open');
+    expect(play(steps(20, t => [moved(landmarks, Math.sin(t * Math.PI * 4) * 0.1)]), 'OPEN')).toBe('WAVE');
+  });
+
+  it('tells a shaken fist from a wave', () => {
+    const { landmarks } = fixture('fist');
+    expect(play(steps(20, t => [moved(landmarks, Math.sin(t * Math.PI * 4) * 0.1)]), 'FIST')).toBe('SHAKE');
+  });
+
+  it('recognizes two hands moving apart and together', () => {
+    const left = fixture('open-left').landmarks;
+    const right = fixture('open').landmarks;
+    const pair = (gap: number) => [moved(right, gap / 2), moved(left, -gap / 2)];
+    expect(play(steps(8, t => pair(0.3 * t)), 'OPEN')).toBe('SPREAD');
+    expect(play(steps(8, t => pair(0.3 * (1 - t))), 'OPEN')).toBe('SQUEEZE');
+  });
+
+  it('stays quiet for a hand holding still', () => {
+    const { landmarks } = fixture('point');
+    expect(play(steps(30, () => [extractHandFeatures(landmarks)]), 'POINT')).toBeNull();
+  });
+});
+
+describe('createHandTracker', () => {
+  const pointing = fixture('point').landmarks;
+  // A second hand below the middle of the swipe, so the gap between them ends where it started
+  const other = moved(pointing, -0.2, 0.35);
+  // MediaPipe's order for frame i: the other hand comes first from frame 4 on
+  const detected = (i: number, primary: HandFeatures) => (i < 4 ? [primary, other] : [other, primary]);
+
+  it('keeps the primary hand first when the detector swaps them', () => {
+    const tracker = createHandTracker();
+    const primary = extractHandFeatures(pointing);
+    for (let i = 0; i < 8; i++) expect(tracker.order(detected(i, primary))[0]).toBe(primary);
+  });
+
+  it('keeps a swipe together, and a still pair quiet, across a swap', () => {
+    const play = (frame: (i: number) => HandFeatures[], count: number) => {
+      const tracker = createHandTracker();
+      const recognizer = createMotionRecognizer();
+      for (let i = 0; i < count; i++) {
+        const hands = tracker.order(frame(i));
+        const reading = recognizer.update(hands, classifyPose(hands[0]).gesture, i * 50);
+        if (reading) return reading.gesture;
+      }
+      return null;
+    };
+    expect(play(i => detected(i, moved(pointing, -0.4 * i / 7)), 8)).toBe('SWIPE_RIGHT');
+    const still = extractHandFeatures(pointing);
+    expect(play(i => (i % 10 < 5 ? [still, other] : [other, still]), 30)).toBeNull();
+  });
+});
@@ -0,0 +1,301 @@
+import { GestureReading, GestureType } from '../types.ts';
+
+// ==========================================
+// GESTURE REGISTRY
+// ==========================================
+// Static poses are declared as finger states over the 21 MediaPipe landmarks,
+// dynamic gestures as matchers over a short history of hand samples.
+// Rules are evaluated in registration order, so earlier rules win.
+
+export interface Landmark { x: number; y: number; z: number; }
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export type FingerState = 'extended' | 'curled';
+
+export interface HandFeatures {
+  landmarks: Landmark[];
+  palm: { x: number; y: number };      // Mirrored (user's point of view), normalized 0-1
+  indexTip: { x: number; y: number };  // Mirrored, normalized 0-1
+  fingerRatios: Record<FingerName, number>;
+  pinchDistance: number;
+  palmSize: number;                    // Wrist to middle-finger MCP
+}
+
+export interface PoseRule {
+  id: GestureType;
+  fingers: Partial<Record<FingerName, FingerState>>;
+  // Extra constraint beyond finger states; returns a 0-1 confidence, or null when it fails
+  when?: (hand: HandFeatures) => number | null;
+}
+
+export interface MotionSample {
+  t: number;
+  hands: HandFeatures[];
+  pose: GestureType; // Raw (unsmoothed) pose of the primary hand
+}
+
+export interface MotionRule {
+  id: GestureType;
+  hands: 1 | 2;
+  windowMs: number;
+  poses?: GestureType[]; // Pose the primary hand must hold for the whole motion
+  match: (samples: MotionSample[]) => number | null;
+}
+
+const FINGERS: Record<FingerName, [number, number]> = {
+  thumb: [4, 2],   // [tip, mcp]
+  index: [8, 5],
+  middle: [12, 9],
+  ring: [16, 13],
+  pinky: [20, 17],
+};
+
+const EXTENSION_RATIO = 1.5; // Tip must be this much further from the wrist than the MCP
+const PINCH_THRESHOLD = 0.05;
+
+// Maps a signed margin to a 0.5-1 certainty: 0.5 right at the threshold, 1 once clearly past it
+const marginToConfidence = (margin: number, range: number) =>
+  0.5 + 0.5 * Math.min(Math.abs(margin) / range, 1);
+
+const dist2D = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const extractHandFeatures = (landmarks: Landmark[]): HandFeatures => {
+  const wrist = landmarks[0];
+  const ratio = ([tip, mcp]: [number, number]) =>
+    dist2D(landmarks[tip], wrist) / Math.max(dist2D(landmarks[mcp], wrist), 1e-6);
+
+  return {
+    landmarks,
+    palm: {
+      x: 1 - (landmarks[0].x + landmarks[9].x) / 2,
+      y: (landmarks[0].y + landmarks[9].y) / 2,
+    },
+    indexTip: { x: 1 - landmarks[8].x, y: landmarks[8].y },
+    fingerRatios: {
+      thumb: ratio(FINGERS.thumb),
+      index: ratio(FINGERS.index),
+      middle: ratio(FINGERS.middle),
+      ring: ratio(FINGERS.ring),
+      pinky: ratio(FINGERS.pinky),
+    },
+    pinchDistance: dist2D(landmarks[8], landmarks[4]),
+    palmSize: dist2D(landmarks[0], landmarks[9]),
+  };
+};
+
+// --- STATIC POSES ---
+
+const poseRules: PoseRule[] = [
+  {
+    id: 'PINCH',
+    fingers: {},
+    when: (h) => h.pinchDistance < PINCH_THRESHOLD
+      ? marginToConfidence(PINCH_THRESHOLD - h.pinchDistance, PINCH_THRESHOLD * 0.6)
+      : null,
+  },
+  {
+    id: 'THUMBS_UP',
+    fingers: { thumb: 'extended', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' },
+    // Thumb tip clearly above the wrist (image y grows downwards)
+    when: (h) => {
+      const rise = (h.landmarks[0].y - h.landmarks[4].y) / Math.max(h.palmSize, 1e-6);
+      return rise > 0.8 ? marginToConfidence(rise - 0.8, 0.6) : null;
+    },
+  },
+  {
+    id: 'POINT',
+    fingers: { index: 'extended', middle: 'curled', ring: 'curled', pinky: 'curled' },
+  },
+  {
+    id: 'OPEN',
+    fingers: { thumb: 'extended', index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended' },
+  },
+  {
+    id: 'FIST',
+    fingers: { thumb: 'curled', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' },
+  },
+];
+
+export const registerPoseGesture = (rule: PoseRule, index: number = poseRules.length) => {
+  poseRules.splice(index, 0, rule);
+};
+
+const matchPose = (rule: PoseRule, hand: HandFeatures): number | null => {
+  let confidence = 1;
+  for (const [finger, state] of Object.entries(rule.fingers) as [FingerName, FingerState][]) {
+    const margin = hand.fingerRatios[finger] - EXTENSION_RATIO;
+    if ((state === 'extended') !== (margin > 0)) return null;
+    confidence = Math.min(confidence, marginToConfidence(margin, 0.5));
+  }
+  if (rule.when) {
+    const extra = rule.when(hand);
+    if (extra === null) return null;
+    confidence = Math.min(confidence, extra);
+  }
+  return confidence;
+};
+
+export const classifyPose = (hand: HandFeatures): GestureReading => {
+  for (const rule of poseRules) {
+    const confidence = matchPose(rule, hand);
+    if (confidence !== null) return { gesture: rule.id, confidence };
+  }
+  // No pose matched: report how clearly the fingers sit in *some* state
+  const certainty = Math.min(
+    ...Object.values(hand.fingerRatios).map(r => marginToConfidence(r - EXTENSION_RATIO, 0.5))
+  );
+  return { gesture: 'NONE', confidence: certainty };
+};
+
+// --- DYNAMIC GESTURES ---
+
+const swipe = (direction: 1 | -1) => (samples: MotionSample[]) => {
+  if (samples.length < 4) return null;
+  const first = samples[0].hands[0].palm;
+  const last = samples[samples.length - 1].hands[0].palm;
+  const dx = (last.x - first.x) * direction;
+  const dy = Math.abs(last.y - first.y);
+  if (dx < 0.25 || dy > dx * 0.5) return null;
+  return marginToConfidence(dx - 0.25, 0.25);
+};
+
+const circle = (samples: MotionSample[]) => {
+  if (samples.length < 10) return null;
+  const points = samples.map(s => s.hands[0].indexTip);
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const radius = points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / points.length;
+  if (radius < 0.04) return null;
+
+  let sweep = 0;
+  for (let i = 1; i < points.length; i++) {
+    let d = Math.atan2(points[i].y - cy, points[i].x - cx) - Math.atan2(points[i - 1].y - cy, points[i - 1].x - cx);
+    if (d > Math.PI) d -= Math.PI * 2;
+    if (d < -Math.PI) d += Math.PI * 2;
+    sweep += d;
+  }
+  const turns = Math.abs(sweep) / (Math.PI * 2);
+  return turns > 0.85 ? marginToConfidence(turns - 0.85, 0.3) : null;
+};
+
+// Side to side and back, at least three times
+const wave = (samples: MotionSample[]) => {
+  if (samples.length < 8) return null;
+  let reversals = 0;
+  let direction = 0;
+  let extreme = samples[0].hands[0].palm.x;
+  for (const s of samples) {
+    const x = s.hands[0].palm.x;
+    const move = x - extreme;
+    if (Math.abs(move) < 0.04) continue;
+    const dir = Math.sign(move);
+    if (direction !== 0 && dir !== direction) reversals++;
+    direction = dir;
+    extreme = x;
+  }
+  return reversals >= 3 ? marginToConfidence(reversals - 3, 2) : null;
+};
+
+const spread = (direction: 1 | -1) => (samples: MotionSample[]) => {
+  if (samples.length < 4) return null;
+  const gap = (s: MotionSample) => dist2D(s.hands[0].palm, s.hands[1].palm);
+  const delta = (gap(samples[samples.length - 1]) - gap(samples[0])) * direction;
+  return delta > 0.15 ? marginToConfidence(delta - 0.15, 0.15) : null;
+};
+
+const motionRules: MotionRule[] = [
+  { id: 'SWIPE_LEFT', hands: 1, windowMs: 500, poses: ['POINT'], match: swipe(-1) },
+  { id: 'SWIPE_RIGHT', hands: 1, windowMs: 500, poses: ['POINT'], match: swipe(1) },
+  { id: 'CIRCLE', hands: 1, windowMs: 1500, poses: ['POINT'], match: circle },
+  { id: 'WAVE', hands: 1, windowMs: 1200, poses: ['OPEN'], match: wave },
+  // The same movement with a fist, like grabbing the trunk and shaking it
+  { id: 'SHAKE', hands: 1, windowMs: 1200, poses: ['FIST'], match: wave },
+  { id: 'SPREAD', hands: 2, windowMs: 600, match: spread(1) },
+  { id: 'SQUEEZE', hands: 2, windowMs: 600, match: spread(-1) },
+];
+
+export const registerMotionGesture = (rule: MotionRule, index: number = motionRules.length) => {
+  motionRules.splice(index, 0, rule);
+};
+
+export interface MotionRecognizer {
+  update: (hands: HandFeatures[], pose: GestureType, timeMs: number) => GestureReading | null;
+  reset: () => void;
+}
+
+export const createMotionRecognizer = ({ historyMs = 1500, cooldownMs = 600 } = {}): MotionRecognizer => {
+  let samples: MotionSample[] = [];
+  let cooldownUntil = 0;
+
+  const reset = () => {
+    samples = [];
+  };
+
+  const update = (hands: HandFeatures[], pose: GestureType, timeMs: number): GestureReading | null => {
+    if (hands.length === 0) {
+      reset();
+      return null;
+    }
+
+    samples.push({ t: timeMs, hands, pose });
+    while (samples.length > 0 && timeMs - samples[0].t > historyMs) samples.shift();
+    if (timeMs < cooldownUntil) return null;
+
+    for (const rule of motionRules) {
+      // Only the most recent contiguous run that satisfies the rule's preconditions counts
+      const window: MotionSample[] = [];
+      for (let i = samples.length - 1; i >= 0; i--) {
+        const s = samples[i];
+        if (timeMs - s.t > rule.windowMs) break;
+        if (s.hands.length < rule.hands) break;
+        if (rule.poses && !rule.poses.includes(s.pose)) break;
+        window.unshift(s);
+      }
+
+      const confidence = rule.match(window);
+      if (confidence !== null) {
+        // Start over so one movement fires once
+        reset();
+        cooldownUntil = timeMs + cooldownMs;
+        return { gesture: rule.id, confidence };
+      }
+    }
+    return null;
+  };
+
+  return { update, reset };
+};
+
+// --- HAND TRACKING ---
+// MediaPipe does not keep the hands in the same order from frame to frame, so
+// with two in view the primary (cursor, camera, motions) could jump between
+// them. The tracker keeps each hand in the slot it held on the previous frame.
+
+export interface HandTracker {
+  order: (hands: HandFeatures[]) => HandFeatures[];
+  reset: () => void;
+}
+
+export const createHandTracker = (): HandTracker => {
+  let previous: { x: number; y: number }[] = [];
+
+  const reset = () => {
+    previous = [];
+  };
+
+  // How far the hands moved if they kept these slots
+  const drift = (hands: HandFeatures[]) =>
+    hands.reduce((sum, hand, i) => (i < previous.length ? sum + dist2D(hand.palm, previous[i]) : sum), 0);
+
+  const order = (hands: HandFeatures[]): HandFeatures[] => {
+    let ordered = hands;
+    if (hands.length === 2 && previous.length > 0) {
+      const swapped = [hands[1], hands[0]];
+      if (drift(swapped) < drift(hands)) ordered = swapped;
+    }
+    previous = ordered.map(hand => hand.palm);
+    return ordered;
+  };
+
+  return { order, reset };
+};
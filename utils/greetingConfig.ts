@@ -0,0 +1,140 @@
+import { format, messages } from './i18n.ts';
+import { hashSeed } from './random.ts';
+import { Ornament, validateOrnaments } from './ornaments.ts';
+import { Messages } from '../locales/zh-CN.ts';
+
+// ==========================================
+// GREETING CONFIG
+// ==========================================
+// Who the gift is for and what it says. The base config is baked in at build
+// time from greeting.config.json (or the file named by GREETING_CONFIG); a
+// `?greeting=` URL parameter can override any field at runtime, so one build
+// can be shared with many people.
+
+export interface PresetPhoto {
+  url: string;
+  caption?: string;
+}
+
+export type GreetingTextField = keyof Messages['greeting'];
+export type GreetingTexts = Record<GreetingTextField, string>;
+
+export interface GreetingConfig extends Partial<GreetingTexts> {
+  recipient: string;
+  // A bundled theme id; the visitor's own choice wins once they pick one
+  theme?: string;
+  photos: PresetPhoto[];
+  // A bundled track id or an audio file URL
+  music?: string;
+  // Seeds the particle and photo layout; see layoutSeed
+  seed?: number;
+  // Ornaments hung on the tree, as saved from DECORATE; the visitor's own decorating wins
+  decoration?: Ornament[];
+}
+
+// Texts left out come from the visitor's language (the `greeting` catalog section)
+export const DEFAULT_GREETING: GreetingConfig = {
+  recipient: '粥粥',
+  photos: [],
+};
+
+const TEXT_FIELDS = ['recipient', 'pageTitle', 'title', 'subtitle', 'landingTitle', 'landingText'] as const;
+
+// Keeps the well-formed fields of a partial config and reports the rest
+export const parseGreetingConfig = (value: unknown): Partial<GreetingConfig> => {
+  const errors = messages().greetingConfig;
+  const invalid = (field: string) => new Error(format(errors.invalidField, { field }));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(errors.notObject);
+  const input = value as Record<string, unknown>;
+  const config: Partial<GreetingConfig> = {};
+
+  for (const field of TEXT_FIELDS) {
+    if (input[field] === undefined) continue;
+    if (typeof input[field] !== 'string') throw invalid(field);
+    config[field] = input[field] as string;
+  }
+  for (const field of ['theme', 'music'] as const) {
+    if (input[field] === undefined) continue;
+    if (typeof input[field] !== 'string') throw invalid(field);
+    config[field] = input[field] as string;
+  }
+  if (input.seed !== undefined) {
+    if (!Number.isSafeInteger(input.seed)) throw invalid('seed');
+    config.seed = input.seed as number;
+  }
+  if (input.decoration !== undefined) {
+    try {
+      config.decoration = validateOrnaments(input.decoration);
+    } catch {
+      throw invalid('decoration');
+    }
+  }
+  if (input.photos !== undefined) {
+    if (!Array.isArray(input.photos)) throw invalid('photos');
+    config.photos = input.photos.map((photo: any): PresetPhoto => {
+      if (typeof photo === 'string') return { url: photo };
+      if (typeof photo?.url !== 'string') throw invalid('photos');
+      return typeof photo.caption === 'string' ? { url: photo.url, caption: photo.caption } : { url: photo.url };
+    });
+  }
+  return config;
+};
+
+// --- URL PARAMETER ---
+
+export const GREETING_PARAM = 'greeting';
+
+// Unicode-safe base64url, short enough to paste into a chat message
+export const encodeGreetingConfig = (config: Partial<GreetingConfig>) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(config));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeGreetingConfig = (encoded: string): Partial<GreetingConfig> => {
+  let json: string;
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    json = new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+  } catch {
+    throw new Error(messages().greetingConfig.undecodable);
+  }
+  try {
+    return parseGreetingConfig(JSON.parse(json));
+  } catch (e: any) {
+    throw e instanceof SyntaxError ? new Error(messages().greetingConfig.undecodable) : e;
+  }
+};
+
+// Build-time config, then the URL override; a broken link falls back instead of blanking the gift
+export const resolveGreetingConfig = (base: unknown, search: string): GreetingConfig => {
+  let config: GreetingConfig = DEFAULT_GREETING;
+  try {
+    config = { ...config, ...parseGreetingConfig(base) };
+  } catch (e) {
+    console.warn("Ignoring invalid greeting.config.json", e);
+  }
+  const encoded = new URLSearchParams(search).get(GREETING_PARAM);
+  if (encoded) {
+    try {
+      config = { ...config, ...decodeGreetingConfig(encoded) };
+    } catch (e) {
+      console.warn("Ignoring invalid greeting URL parameter", e);
+    }
+  }
+  return config;
+};
+
+// Without an explicit seed the recipient's name picks the layout, so everyone
+// opening the same card sees the same tree
+export const layoutSeed = (config: GreetingConfig) => config.seed ?? hashSeed(config.recipient);
+
+// Every greeting text with the recipient filled in, falling back to the locale's wording
+export const greetingTexts = (config: GreetingConfig, defaults: Messages['greeting']): GreetingTexts => {
+  const texts = {} as GreetingTexts;
+  for (const field of Object.keys(defaults) as GreetingTextField[]) {
+    texts[field] = (config[field] ?? defaults[field]).replace(/\{name\}/g, config.recipient);
+  }
+  return texts;
+};
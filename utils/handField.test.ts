@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import * as THREE from 'three';
+import { createHandField, HAND_FIELD_SHAPE, HandField, HandFieldTarget, handOffset, stepHandField } from './handField.ts';
+
+// Looking down -z through the origin, like the camera at rest
+const target = (force: HandFieldTarget['force']): HandFieldTarget => ({
+  force,
+  point: new THREE.Vector3(0, 0, 0),
+  axis: new THREE.Vector3(0, 0, -1),
+});
+
+// Steps the field at 60 fps
+const hold = (field: HandField, seconds: number, next: HandFieldTarget | null) => {
+  for (let i = 0; i < seconds * 60; i++) stepHandField(field, next, 1 / 60);
+  return field;
+};
+
+const offsetAt = (field: HandField, x: number, y: number, z = 0) =>
+  handOffset(field, new THREE.Vector3(x, y, z), new THREE.Vector3());
+
+const coordinate = fc.double({ min: -20, max: 20, noNaN: true });
+
+describe('stepHandField', () => {
+  it('springs to full strength while held and back to rest when released', () => {
+    const field = hold(createHandField(), 2, target('repel'));
+    expect(field.strength).toBeCloseTo(1, 2);
+
+    let lowest = Infinity;
+    for (let i = 0; i < 120; i++) {
+      stepHandField(field, null, 1 / 60);
+      lowest = Math.min(lowest, field.strength);
+    }
+    // Overshoots once, but only a little
+    expect(lowest).toBeLessThan(0);
+    expect(lowest).toBeGreaterThan(-0.3);
+    expect(Math.abs(field.strength)).toBeLessThan(0.02);
+  });
+
+  it('winds the swirl only while pinching, from the start each time', () => {
+    const field = hold(createHandField(), 1, target('swirl'));
+    expect(field.strength).toBeCloseTo(-1, 1);
+    expect(field.phase).toBeGreaterThan(0);
+
+    hold(field, 0.5, target('repel'));
+    expect(field.phase).toBe(0);
+  });
+
+  it('stays where the hand let go', () => {
+    const moved = { ...target('repel'), point: new THREE.Vector3(5, 2, 0) };
+    const field = hold(createHandField(), 2, moved);
+    hold(field, 2, null);
+    expect(field.point.distanceTo(moved.point)).toBeLessThan(0.01);
+  });
+});
+
+describe('handOffset', () => {
+  it('leaves everything alone at rest', () => {
+    fc.assert(fc.property(coordinate, coordinate, coordinate, (x, y, z) => {
+      expect(offsetAt(createHandField(), x, y, z).length()).toBe(0);
+    }));
+  });
+
+  it('only reaches as far as the radius around the ray', () => {
+    const field = hold(createHandField(), 1, target('repel'));
+    fc.assert(fc.property(coordinate, coordinate, coordinate, (x, y, z) => {
+      fc.pre(Math.hypot(x, y) >= HAND_FIELD_SHAPE.radius);
+      expect(offsetAt(field, x, y, z).length()).toBe(0);
+    }));
+  });
+
+  it('pushes particles straight out from the ray for an open palm', () => {
+    const field = hold(createHandField(), 2, target('repel'));
+    const offset = offsetAt(field, 2, 0, -8);
+    expect(offset.x).toBeGreaterThan(0);
+    expect(offset.y).toBeCloseTo(0);
+    // Along the ray nothing changes: depth is not the hand's to push
+    expect(offset.z).toBeCloseTo(0);
+    // Stronger near the ray
+    expect(offsetAt(field, 1, 0).length()).toBeGreaterThan(offsetAt(field, 5, 0).length());
+  });
+
+  it('draws particles in and around the ray for a pinch', () => {
+    const field = hold(createHandField(), 1, target('swirl'));
+    const around = fc.double({ min: 0, max: Math.PI * 2, noNaN: true });
+    const inside = fc.double({ min: 0.1, max: HAND_FIELD_SHAPE.radius * 0.9, noNaN: true });
+    fc.assert(fc.property(around, inside, (angle, before) => {
+      const x = Math.cos(angle) * before;
+      const y = Math.sin(angle) * before;
+      const offset = offsetAt(field, x, y);
+      expect(offset.z).toBeCloseTo(0);
+      expect(Math.hypot(x + offset.x, y + offset.y)).toBeLessThan(before);
+    }));
+    // Turned, not just pulled straight in
+    const offset = offsetAt(field, 2, 0);
+    expect(Math.abs(offset.y)).toBeGreaterThan(0.01);
+  });
+});
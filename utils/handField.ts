@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { GestureType } from '../types.ts';
+
+// ==========================================
+// HAND FORCE FIELD
+// ==========================================
+// In SCATTER the hand cursor becomes a force acting on a cylinder around the
+// ray from the camera through the cursor: an open palm shoves particles out
+// of it, a pinch winds them around it and draws them in. The strength is a
+// damped spring, so when the hand lets go everything springs back (with a
+// little overshoot) to its scatter position.
+// handOffset() below mirrors HAND_FIELD in particleMaterials.ts, which moves
+// the GPU particles; keep the two in step.
+
+export type HandForce = 'repel' | 'swirl';
+
+export const GESTURE_FORCES: Partial<Record<GestureType, HandForce>> = {
+  OPEN: 'repel',
+  PINCH: 'swirl',
+};
+
+// The field's shape, fixed so the shader can bake it in
+export const HAND_FIELD_SHAPE = {
+  radius: 7,    // Reach around the cursor ray, in scene units
+  push: 0.6,    // Repel displacement on the ray, as a share of the radius
+  pull: 0.6,    // How far (0-1) the swirl draws particles in on the ray
+};
+
+export interface HandFieldOptions {
+  swirlSpeed: number;   // rad/s the swirl winds at the center
+  follow: number;       // Per-second rate the field catches up with the cursor
+  stiffness: number;    // Spring constant of the strength
+  damping: number;      // Per-second velocity decay of the strength spring
+}
+
+export const DEFAULT_HAND_FIELD: HandFieldOptions = {
+  swirlSpeed: 2.5,
+  follow: 8,
+  stiffness: 60,
+  damping: 8, // Slightly underdamped: particles overshoot once on the way back
+};
+
+export interface HandField {
+  point: THREE.Vector3;  // A point on the cursor ray, in tree-group coordinates
+  axis: THREE.Vector3;   // The ray's direction (unit length)
+  strength: number;      // >0 repels, <0 swirls; springs to ±1 while held, 0 when released
+  velocity: number;
+  phase: number;         // How far the current swirl has wound
+}
+
+export interface HandFieldTarget {
+  force: HandForce;
+  point: THREE.Vector3;
+  axis: THREE.Vector3;
+}
+
+export const createHandField = (): HandField => ({
+  point: new THREE.Vector3(),
+  axis: new THREE.Vector3(0, 0, -1),
+  strength: 0,
+  velocity: 0,
+  phase: 0,
+});
+
+export const stepHandField = (
+  field: HandField,
+  target: HandFieldTarget | null,
+  delta: number,
+  options: Partial<HandFieldOptions> = {}
+) => {
+  const opts = { ...DEFAULT_HAND_FIELD, ...options };
+  const goal = !target ? 0 : target.force === 'repel' ? 1 : -1;
+
+  field.velocity += (goal - field.strength) * opts.stiffness * delta;
+  field.velocity *= Math.exp(-opts.damping * delta);
+  field.strength += field.velocity * delta;
+
+  // A released field stays where it was, so particles spring back in place
+  if (target) {
+    const t = Math.min(1, delta * opts.follow);
+    field.point.lerp(target.point, t);
+    field.axis.lerp(target.axis, t).normalize();
+  }
+
+  // The winding restarts with every pinch; the angle grows with it, and so does the shear
+  if (field.strength < 0) field.phase += delta * opts.swirlSpeed * -field.strength;
+  else field.phase = 0;
+};
+
+const scratch = { d: new THREE.Vector3(), radial: new THREE.Vector3(), wound: new THREE.Vector3() };
+
+// Writes the displacement the field applies at `position` into `out`
+export const handOffset = (field: HandField, position: THREE.Vector3, out: THREE.Vector3) => {
+  const { radius, push, pull } = HAND_FIELD_SHAPE;
+  const { d, radial, wound } = scratch;
+  d.subVectors(position, field.point);
+  radial.copy(d).addScaledVector(field.axis, -d.dot(field.axis));
+  const dist = radial.length();
+  const falloff = 1 - THREE.MathUtils.smoothstep(dist, 0, radius);
+  out.set(0, 0, 0);
+  if (falloff <= 0) return out;
+
+  // Open palm: outward, strongest on the ray
+  const repel = Math.max(field.strength, 0);
+  if (dist > 1e-4) out.copy(radial).multiplyScalar((falloff * radius * push * repel) / dist);
+
+  // Pinch: wind around the ray (inner particles faster) while drawing in
+  const swirl = Math.max(-field.strength, 0);
+  const angle = field.phase * falloff;
+  wound.crossVectors(field.axis, radial).multiplyScalar(Math.sin(angle)).addScaledVector(radial, Math.cos(angle));
+  wound.multiplyScalar(1 - pull * falloff).sub(radial);
+  return out.addScaledVector(wound, swirl);
+};
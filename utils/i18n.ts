@@ -0,0 +1,75 @@
+import { Messages, zhCN } from '../locales/zh-CN.ts';
+import { en } from '../locales/en.ts';
+import { ja } from '../locales/ja.ts';
+
+// ==========================================
+// INTERNATIONALIZATION
+// ==========================================
+// UI text lives in the locales/ catalogs. React code reads it through
+// useI18n(); services that throw user-facing errors read the active catalog
+// with messages(), which the provider keeps in sync.
+
+export type Locale = 'zh-CN' | 'en' | 'ja';
+
+export const CATALOGS: Record<Locale, Messages> = { 'zh-CN': zhCN, en, ja };
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+
+// Display fonts per locale. Zcool KuaiLe only covers Chinese and Latin, so
+// Japanese gets a rounded kana font first and English the festive Latin one;
+// the recipient's name may be in any script, hence the fallbacks.
+export const FESTIVE_FONTS: Record<Locale, string> = {
+  'zh-CN': '"Zcool KuaiLe", "Mountains of Christmas", cursive',
+  en: '"Mountains of Christmas", "Zcool KuaiLe", cursive',
+  ja: '"Yusei Magic", "Zcool KuaiLe", sans-serif',
+};
+
+// First supported entry of navigator.languages; any Chinese variant maps to zh-CN
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'zh') return 'zh-CN';
+    if (base === 'ja') return 'ja';
+    if (base === 'en') return 'en';
+  }
+  return 'en';
+};
+
+// Fills "{key}" placeholders; unknown ones are left visible so mistakes show up
+export const format = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+
+// --- ACTIVE CATALOG (for non-React code) ---
+
+let active: Locale = 'zh-CN';
+
+export const setActiveLocale = (locale: Locale) => {
+  active = locale;
+};
+
+export const messages = () => CATALOGS[active];
+
+// For text drawn onto canvases (cards, text shapes)
+export const festiveFont = () => FESTIVE_FONTS[active];
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'magic-tree:locale';
+
+// Only an explicit choice is saved, so the browser language keeps working otherwise
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && LOCALES.includes(saved as Locale)) return saved as Locale;
+  } catch (e) {
+    console.warn("Could not load language, detecting", e);
+  }
+  return detectLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.warn("Could not save language", e);
+  }
+};
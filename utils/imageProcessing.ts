@@ -0,0 +1,118 @@
+import { readImageMeta } from './exif.ts';
+
+// ==========================================
+// IMAGE PROCESSING
+// ==========================================
+// Shared by the image worker and the main-thread fallback: decode, upright by
+// EXIF orientation, downscale to the texture budget and cut a square thumbnail.
+
+export interface ImageProcessingOptions {
+  maxSize: number;   // Longest edge of the stored full-resolution image
+  thumbSize: number; // Edge of the square thumbnail used in the tree atlas
+  quality: number;   // JPEG quality 0-1
+}
+
+export interface ProcessedImage {
+  full: Blob;
+  thumb: Blob;
+  width: number;
+  height: number;
+  capturedAt: number | null;
+}
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const canvasToBlob = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Canvas encoding failed"))), type, quality);
+  });
+};
+
+// Canvas transforms for EXIF orientations 2-8, for a source of size w × h
+const orientationTransform = (orientation: number, w: number, h: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, w, 0];
+    case 3: return [-1, 0, 0, -1, w, h];
+    case 4: return [1, 0, 0, -1, 0, h];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, h, 0];
+    case 7: return [0, -1, -1, 0, h, w];
+    case 8: return [0, -1, 1, 0, 0, w];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+// 16 × 8 grey JPEG tagged with EXIF orientation 6 (rotate 90°)
+const ORIENTATION_PROBE = '/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wBDAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAALCAAIABABAREA/8QAFAAAAQAAAAAAAAAAAAAAAAAAAP/EABQQAAEAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AAP/Z';
+
+let appliesExif: Promise<boolean> | null = null;
+
+// Whether createImageBitmap uprights images by their EXIF orientation itself.
+// Asked once: the probe comes back 8 × 16 if it does, whatever the photos' shapes.
+const browserAppliesExif = () => {
+  appliesExif ??= createImageBitmap(
+    new Blob([Uint8Array.from(atob(ORIENTATION_PROBE), c => c.charCodeAt(0))], { type: 'image/jpeg' }),
+    { imageOrientation: 'from-image' }
+  )
+    .then((bitmap) => {
+      const upright = bitmap.height > bitmap.width;
+      bitmap.close();
+      return upright;
+    })
+    .catch((e) => {
+      // No way to tell; every current browser honors EXIF, so assume this one does
+      console.warn("EXIF orientation probe failed, trusting the browser", e);
+      return true;
+    });
+  return appliesExif;
+};
+
+export const processImage = async (blob: Blob, options: ImageProcessingOptions): Promise<ProcessedImage> => {
+  const meta = readImageMeta(await blob.slice(0, 256 * 1024).arrayBuffer());
+  // Throws for formats the browser cannot decode (e.g. HEIC outside Safari)
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+  // Modern browsers already upright the bitmap; older ones leave it to us
+  const orientation = (await browserAppliesExif()) ? 1 : meta.orientation;
+  const swap = orientation >= 5;
+  const uprightW = swap ? bitmap.height : bitmap.width;
+  const uprightH = swap ? bitmap.width : bitmap.height;
+
+  const scale = Math.min(1, options.maxSize / Math.max(uprightW, uprightH));
+  const width = Math.max(1, Math.round(uprightW * scale));
+  const height = Math.max(1, Math.round(uprightH * scale));
+
+  const full = createCanvas(width, height);
+  const ctx = full.getContext('2d') as CanvasRenderingContext2D;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.transform(...orientationTransform(orientation, bitmap.width, bitmap.height));
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  // Square, center-cropped thumbnail (same "cover" framing the photo planes use)
+  const edge = Math.min(width, height);
+  const thumb = createCanvas(options.thumbSize, options.thumbSize);
+  const tctx = thumb.getContext('2d') as CanvasRenderingContext2D;
+  tctx.imageSmoothingQuality = 'high';
+  tctx.drawImage(full as CanvasImageSource, (width - edge) / 2, (height - edge) / 2, edge, edge, 0, 0, options.thumbSize, options.thumbSize);
+
+  // Keep transparency for PNG stickers, everything else becomes JPEG
+  const type = blob.type === 'image/png' ? 'image/png' : 'image/jpeg';
+  return {
+    full: await canvasToBlob(full, type, options.quality),
+    thumb: await canvasToBlob(thumb, type, options.quality),
+    width,
+    height,
+    capturedAt: meta.capturedAt,
+  };
+};
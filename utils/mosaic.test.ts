@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { createMosaicGrid, easeInstanceColors, MOSAIC_POSITION, MOSAIC_SIZE, mosaicCellSize, mosaicColors, mosaicPositions } from './mosaic.ts';
+import { createRandom } from './random.ts';
+
+const seed = fc.integer({ min: 0, max: 0xffffffff });
+const total = fc.integer({ min: 1, max: 5000 });
+
+describe('createMosaicGrid', () => {
+  it('fills every cell, whatever the particle count', () => {
+    fc.assert(fc.property(seed, total, (s, count) => {
+      const grid = createMosaicGrid(count, createRandom(s));
+      expect(grid.side * grid.side).toBeLessThanOrEqual(count);
+      expect((grid.side + 1) ** 2).toBeGreaterThan(count);
+      expect(new Set(grid.cells).size).toBe(grid.side * grid.side);
+      for (const cell of grid.cells) expect(cell).toBeLessThan(grid.side * grid.side);
+    }), { numRuns: 50 });
+  });
+
+  it('spreads a later group of particles over the whole picture', () => {
+    // The last 10% of the slots (like the ribbons after the foliage) reach all four quadrants
+    const grid = createMosaicGrid(2500, createRandom(1));
+    const quadrants = new Set(Array.from(grid.cells.slice(2250), cell => {
+      const col = cell % grid.side;
+      const row = Math.floor(cell / grid.side);
+      return `${col < grid.side / 2}:${row < grid.side / 2}`;
+    }));
+    expect(quadrants.size).toBe(4);
+  });
+
+  it('repeats exactly for the same seed', () => {
+    expect(createMosaicGrid(1000, createRandom(7, 'mosaic'))).toEqual(createMosaicGrid(1000, createRandom(7, 'mosaic')));
+  });
+});
+
+describe('mosaicPositions', () => {
+  it('lays the particles flat inside the mosaic square', () => {
+    fc.assert(fc.property(seed, total, (s, count) => {
+      const grid = createMosaicGrid(count, createRandom(s));
+      const positions = mosaicPositions(grid, 0, count);
+      const half = MOSAIC_SIZE / 2 - mosaicCellSize(grid) / 2 + 1e-6;
+      for (let i = 0; i < positions.length; i += 3) {
+        expect(Math.abs(positions[i] - MOSAIC_POSITION.x)).toBeLessThanOrEqual(half);
+        expect(Math.abs(positions[i + 1] - MOSAIC_POSITION.y)).toBeLessThanOrEqual(half);
+        expect(positions[i + 2]).toBe(MOSAIC_POSITION.z);
+      }
+    }), { numRuns: 20 });
+  });
+
+  it('puts the first row of pixels at the top', () => {
+    const grid = { side: 2, cells: new Uint32Array([0, 1, 2, 3]) };
+    const [, topY, , , , , , bottomY] = mosaicPositions(grid, 0, 4);
+    expect(topY).toBeGreaterThan(bottomY);
+  });
+});
+
+describe('mosaicColors', () => {
+  it('gives each particle the color of its cell', () => {
+    // 2 × 2 picture: red, green / blue, white
+    const pixels = [255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255];
+    const grid = { side: 2, cells: new Uint32Array([3, 0, 2, 1]) };
+    const colors = mosaicColors(grid, pixels, 1, 3);
+    expect(colors.length).toBe(9);
+    // Slot 1 → red cell, slot 2 → blue cell, slot 3 → green cell, all lifted into HDR
+    expect(colors[0]).toBeGreaterThan(1);
+    expect(colors[1]).toBe(0);
+    expect(colors[5]).toBeGreaterThan(1);
+    expect(colors[7]).toBeGreaterThan(1);
+    expect(colors[6]).toBe(0);
+  });
+});
+
+describe('easeInstanceColors', () => {
+  const palette = new Float32Array([0.2, 0.4, 0.6]);
+  const photo = new Float32Array([1, 0, 0]);
+
+  it('settles on the palette without a mosaic, and on the photo once lined up', () => {
+    const shown = new Float32Array(3);
+    for (let i = 0; i < 200; i++) easeInstanceColors(shown, palette, null, 1, 0.1);
+    Array.from(shown).forEach((value, i) => expect(value).toBeCloseTo(palette[i], 3));
+
+    for (let i = 0; i < 200; i++) easeInstanceColors(shown, palette, photo, 1, 0.1);
+    Array.from(shown).forEach((value, i) => expect(value).toBeCloseTo(photo[i], 3));
+  });
+
+  it('reports a change only while the colors are still moving', () => {
+    const shown = palette.slice();
+    expect(easeInstanceColors(shown, palette, photo, 0, 0.1)).toBe(false);
+    expect(easeInstanceColors(shown, palette, photo, 0.5, 0.1)).toBe(true);
+  });
+});
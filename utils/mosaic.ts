@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import { Random } from './random.ts';
+
+// ==========================================
+// PHOTO MOSAIC
+// ==========================================
+// In MOSAIC the foliage and ribbon instances line up in one flat square grid
+// in front of the tree and take on the inspected photo's colors, a glowing
+// pixel-art copy of it, before the real image fades in on top.
+
+export const MOSAIC_POSITION = new THREE.Vector3(0, 0, 10); // Grid center, in tree-group coordinates
+export const MOSAIC_SIZE = 12; // Edge length of the grid (and of the photo that fades in)
+const MOSAIC_GLOW = 1.8; // Lifts the brighter pixels over the bloom threshold
+
+export interface MosaicGrid {
+  side: number;        // Cells per edge
+  cells: Uint32Array;  // Particle slot → cell index, row-major from the top left
+}
+
+// Every cell gets a particle: the grid is as big as the particles can fill, and
+// the leftovers double up on random cells. Slots are shuffled so each particle
+// group (foliage first, then ribbons) is spread over the whole picture.
+export const createMosaicGrid = (total: number, random: Random): MosaicGrid => {
+  const side = Math.max(1, Math.floor(Math.sqrt(total)));
+  const order = Array.from({ length: side * side }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const cells = new Uint32Array(total);
+  for (let i = 0; i < total; i++) cells[i] = i < order.length ? order[i] : order[Math.floor(random() * order.length)];
+  return { side, cells };
+};
+
+export const mosaicCellSize = (grid: MosaicGrid) => MOSAIC_SIZE / grid.side;
+
+// Grid positions for `count` particles starting at slot `first`
+export const mosaicPositions = (grid: MosaicGrid, first: number, count: number) => {
+  const positions = new Float32Array(count * 3);
+  const cell = mosaicCellSize(grid);
+  for (let i = 0; i < count; i++) {
+    const index = grid.cells[first + i];
+    const col = index % grid.side;
+    const row = Math.floor(index / grid.side);
+    positions[i * 3] = MOSAIC_POSITION.x + (col + 0.5) * cell - MOSAIC_SIZE / 2;
+    positions[i * 3 + 1] = MOSAIC_POSITION.y + MOSAIC_SIZE / 2 - (row + 0.5) * cell;
+    positions[i * 3 + 2] = MOSAIC_POSITION.z;
+  }
+  return positions;
+};
+
+// RGBA pixels of a side × side picture → glowing linear colors for `count` particles from slot `first`
+export const mosaicColors = (grid: MosaicGrid, pixels: ArrayLike<number>, first: number, count: number) => {
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+  for (let i = 0; i < count; i++) {
+    const p = grid.cells[first + i] * 4;
+    color.setRGB(pixels[p] / 255, pixels[p + 1] / 255, pixels[p + 2] / 255, THREE.SRGBColorSpace);
+    color.multiplyScalar(MOSAIC_GLOW).toArray(colors, i * 3);
+  }
+  return colors;
+};
+
+// Eases the instance colors on screen toward the theme palette, or toward the
+// mosaic by `blend`. Returns whether anything visibly changed (and needs an upload).
+export const easeInstanceColors = (
+  shown: Float32Array,
+  palette: Float32Array,
+  mosaic: Float32Array | null,
+  blend: number,
+  t: number
+) => {
+  let changed = false;
+  for (let i = 0; i < shown.length; i++) {
+    const target = mosaic ? palette[i] + (mosaic[i] - palette[i]) * blend : palette[i];
+    const step = (target - shown[i]) * t;
+    if (Math.abs(step) > 1e-4) changed = true;
+    shown[i] += step;
+  }
+  return changed;
+};
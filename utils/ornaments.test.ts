@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import * as THREE from 'three';
+import { messages } from './i18n.ts';
+import { TREE_HEIGHT, TREE_RADIUS } from './shapeLayouts.ts';
+import {
+  commitDecoration, createHistory, createOrnament, dropOnTree, MAX_ORNAMENTS, nearestTreeSurfacePoint,
+  Ornament, ornamentPhoto, parseDecoration, serializeDecoration, UNDO_LIMIT, undoDecoration
+} from './ornaments.ts';
+
+const coordinate = fc.double({ min: -30, max: 30, noNaN: true });
+const point = fc.tuple(coordinate, coordinate, coordinate).map(([x, y, z]) => new THREE.Vector3(x, y, z));
+
+// Radius of the cone at height y
+const shell = (y: number) => (TREE_HEIGHT / 2 - y) * (TREE_RADIUS / TREE_HEIGHT);
+
+describe('nearestTreeSurfacePoint', () => {
+  it('always lands on the side of the cone, below the star', () => {
+    fc.assert(fc.property(point, (p) => {
+      const out = nearestTreeSurfacePoint(p, new THREE.Vector3());
+      expect(Math.hypot(out.x, out.z)).toBeCloseTo(shell(out.y), 5);
+      expect(out.y).toBeLessThan(TREE_HEIGHT / 2);
+      expect(out.y).toBeGreaterThanOrEqual(-TREE_HEIGHT / 2 - 1e-6);
+    }));
+  });
+
+  it('leaves points already on the surface where they are', () => {
+    const on = new THREE.Vector3(shell(0), 0, 0);
+    expect(nearestTreeSurfacePoint(on, new THREE.Vector3()).distanceTo(on)).toBeLessThan(1e-6);
+  });
+});
+
+describe('dropOnTree', () => {
+  it('hangs the ornament just outside the first side of the tree the ray meets', () => {
+    // From the front, straight at the trunk at half height
+    const ray = new THREE.Ray(new THREE.Vector3(0, 0, 40), new THREE.Vector3(0, 0, -1));
+    const out = dropOnTree(ray, new THREE.Vector3());
+    expect(out.y).toBeCloseTo(0, 5);
+    expect(out.x).toBeCloseTo(0, 5);
+    expect(out.z).toBeGreaterThan(shell(0));
+    expect(out.z).toBeLessThan(shell(0) + 0.5);
+  });
+
+  it('drops a ray that misses the tree on the side facing it', () => {
+    // Passes far to the right of the tree
+    const ray = new THREE.Ray(new THREE.Vector3(20, 0, 40), new THREE.Vector3(0, 0, -1));
+    const out = dropOnTree(ray, new THREE.Vector3());
+    expect(out.x).toBeGreaterThan(shell(0));
+    expect(out.z).toBeCloseTo(0, 5);
+  });
+
+  it('never hangs an ornament inside or far from the tree', () => {
+    const direction = point.filter(p => p.lengthSq() > 1e-6).map(p => p.normalize());
+    fc.assert(fc.property(point, direction, (origin, dir) => {
+      const out = dropOnTree(new THREE.Ray(origin, dir), new THREE.Vector3());
+      const r = Math.hypot(out.x, out.z);
+      expect(r).toBeGreaterThan(shell(out.y));
+      expect(r).toBeLessThan(shell(out.y) + 0.5);
+    }));
+  });
+});
+
+describe('decoration history', () => {
+  const ornament = (i: number) => createOrnament('bauble', new THREE.Vector3(i, 0, 0), i, null);
+
+  it('undoes placements one at a time, back to the start', () => {
+    let history = createHistory();
+    for (let i = 0; i < 3; i++) history = commitDecoration(history, [...history.present, ornament(i)]);
+    expect(history.present).toHaveLength(3);
+    history = undoDecoration(history);
+    expect(history.present.map(o => o.position[0])).toEqual([0, 1]);
+    history = undoDecoration(undoDecoration(history));
+    expect(history.present).toEqual([]);
+    // Nothing left to undo
+    expect(undoDecoration(history)).toBe(history);
+  });
+
+  it('remembers only the last steps', () => {
+    let history = createHistory();
+    for (let i = 0; i < UNDO_LIMIT + 10; i++) history = commitDecoration(history, [...history.present, ornament(i)]);
+    expect(history.past).toHaveLength(UNDO_LIMIT);
+  });
+
+  it('takes turns through the colors of a kind, and only keeps a photo for photo ornaments', () => {
+    const at = new THREE.Vector3();
+    expect(createOrnament('bell', at, 0, null).color).not.toBe(createOrnament('bell', at, 1, null).color);
+    expect(createOrnament('photo', at, 0, { id: 'b', index: 2 })).toMatchObject({ photoId: 'b', photo: 2 });
+    expect(createOrnament('light', at, 0, { id: 'b', index: 2 }).photo).toBeUndefined();
+  });
+});
+
+describe('ornamentPhoto', () => {
+  const [a, b, c] = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+  const hung = createOrnament('photo', new THREE.Vector3(), 0, { id: 'b', index: 1 });
+
+  it('keeps showing the same photo when the library is reordered', () => {
+    expect(ornamentPhoto(hung, [a, b, c])).toBe(b);
+    expect(ornamentPhoto(hung, [b, c, a])).toBe(b);
+    expect(ornamentPhoto(hung, [c, a, b])).toBe(b);
+  });
+
+  it('falls back to the position for photos it does not know, as in a shared decoration', () => {
+    expect(ornamentPhoto({ ...hung, photoId: 'elsewhere' }, [c, a])).toBe(a);
+    expect(ornamentPhoto({ ...hung, photoId: undefined, photo: 4 }, [a, b, c])).toBe(b);
+    expect(ornamentPhoto(hung, [])).toBeNull();
+  });
+});
+
+describe('decoration JSON', () => {
+  const ornaments: Ornament[] = [
+    { kind: 'bauble', position: [1, 2, 3], color: '#d42426' },
+    { kind: 'photo', position: [-3, 0, 4], color: '#ffd700', photoId: 'beach', photo: 1 },
+  ];
+
+  it('reads back what it saved', () => {
+    expect(parseDecoration(serializeDecoration(ornaments))).toEqual(ornaments);
+  });
+
+  it('rejects files it cannot use, naming the bad ornament', () => {
+    const file = (value: unknown) => JSON.stringify({ version: 1, ornaments: value });
+    expect(() => parseDecoration('not json')).toThrow(messages().decorate.notJson);
+    expect(() => parseDecoration(JSON.stringify({ version: 99, ornaments }))).toThrow(messages().decorate.badVersion);
+    expect(() => parseDecoration(file([{ ...ornaments[0], kind: 'pinecone' }]))).toThrow(/ornaments\[0\]/);
+    expect(() => parseDecoration(file([ornaments[0], { ...ornaments[0], position: [1, 2] }]))).toThrow(/ornaments\[1\]/);
+    expect(() => parseDecoration(file([{ ...ornaments[0], color: 'red' }]))).toThrow(/ornaments\[0\]/);
+    expect(() => parseDecoration(file([{ ...ornaments[0], photo: 1 }]))).toThrow(/ornaments\[0\]/);
+    expect(() => parseDecoration(file([{ ...ornaments[1], photoId: 7 }]))).toThrow(/ornaments\[0\]/);
+    expect(() => parseDecoration(file(Array(MAX_ORNAMENTS + 1).fill(ornaments[0])))).toThrow(/ornaments/);
+  });
+});
@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import { format, messages } from './i18n.ts';
+import { TREE_HEIGHT, TREE_RADIUS } from './shapeLayouts.ts';
+
+// ==========================================
+// ORNAMENTS
+// ==========================================
+// In DECORATE the visitor hangs their own ornaments on the tree. Each one is
+// dropped onto the cone's surface under the cursor (or the nearest point of it,
+// when the cursor misses the tree) and kept in tree-group coordinates, so a
+// decoration saved as JSON hangs the same way on any screen.
+
+export type OrnamentKind = 'bauble' | 'bell' | 'candyCane' | 'light' | 'photo';
+
+// The palette, in the order it is shown. Placed ornaments take turns through their kind's colors.
+export const ORNAMENT_KINDS: { kind: OrnamentKind; icon: string; colors: string[] }[] = [
+  { kind: 'bauble', icon: '🔴', colors: ['#d42426', '#ffd700', '#2f6fe0', '#c0c0c0'] },
+  { kind: 'bell', icon: '🔔', colors: ['#ffd700', '#e6b422'] },
+  { kind: 'candyCane', icon: '🍬', colors: ['#ff2a2a', '#2fbf5f'] },
+  { kind: 'light', icon: '💡', colors: ['#ffdd88', '#ff5555', '#55ff88', '#66aaff'] },
+  { kind: 'photo', icon: '🖼️', colors: ['#ffd700'] }, // Frame color
+];
+
+export const MAX_ORNAMENTS = 200;
+export const UNDO_LIMIT = 50;
+
+export interface Ornament {
+  kind: OrnamentKind;
+  position: [number, number, number]; // Tree-group coordinates, just outside the foliage
+  color: string;
+  // 'photo' only. The id follows the photo through reorders; the position in the
+  // list is the fallback for a shared config, whose preset photos get new ids on
+  // every device
+  photoId?: string;
+  photo?: number;
+}
+
+// --- PLACEMENT ---
+
+const TOP = TREE_HEIGHT / 2;
+const SLOPE = TREE_RADIUS / TREE_HEIGHT; // Radius lost per unit of height
+const HANG_OFFSET = 0.3; // How far outside the foliage ornaments hang
+const MIN_DROP = 0.05;   // Share of the height kept free below the star
+
+// Nearest point on the cone's side to `point`, worked out in the vertical half-plane through it
+export const nearestTreeSurfacePoint = (point: THREE.Vector3, out: THREE.Vector3) => {
+  const r = Math.hypot(point.x, point.z);
+  // Apex (0, TOP) to the base rim (TREE_RADIUS, -TOP)
+  const t = THREE.MathUtils.clamp(
+    (r * TREE_RADIUS - (point.y - TOP) * TREE_HEIGHT) / (TREE_RADIUS ** 2 + TREE_HEIGHT ** 2),
+    MIN_DROP,
+    1
+  );
+  const angle = Math.atan2(point.z, point.x);
+  return out.set(Math.cos(angle) * TREE_RADIUS * t, TOP - TREE_HEIGHT * t, Math.sin(angle) * TREE_RADIUS * t);
+};
+
+// First hit of the ray on the cone's side, if any
+const intersectTree = (ray: THREE.Ray, out: THREE.Vector3) => {
+  const { origin: o, direction: d } = ray;
+  const k2 = SLOPE * SLOPE;
+  const u0 = TOP - o.y;
+  // x² + z² = (SLOPE · (TOP - y))² along the ray
+  const a = d.x * d.x + d.z * d.z - k2 * d.y * d.y;
+  const b = 2 * (o.x * d.x + o.z * d.z + k2 * u0 * d.y);
+  const c = o.x * o.x + o.z * o.z - k2 * u0 * u0;
+  let roots: number[];
+  if (Math.abs(a) < 1e-9) {
+    roots = Math.abs(b) < 1e-9 ? [] : [-c / b];
+  } else {
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return null;
+    const s = Math.sqrt(disc);
+    roots = [(-b - s) / (2 * a), (-b + s) / (2 * a)].sort((x, y) => x - y);
+  }
+  for (const t of roots) {
+    if (t < 0) continue;
+    ray.at(t, out);
+    // The mirrored cone above the apex solves the same equation
+    if (out.y <= TOP && out.y >= -TOP) return out;
+  }
+  return null;
+};
+
+// Where an ornament dropped along `ray` (in tree-group coordinates) hangs.
+// A ray that misses the tree drops it at the surface nearest the ray's closest
+// approach to the trunk, on the side facing the ray's origin.
+export const dropOnTree = (ray: THREE.Ray, out: THREE.Vector3) => {
+  if (!intersectTree(ray, out)) {
+    const { origin: o, direction: d } = ray;
+    const flat = d.x * d.x + d.z * d.z;
+    ray.at(flat > 1e-9 ? Math.max(0, -(o.x * d.x + o.z * d.z) / flat) : 0, out);
+    // Right on the trunk any side would do; take the one facing the ray's origin
+    if (Math.hypot(out.x, out.z) < 1e-3) out.set(o.x, out.y, o.z);
+  }
+  // Also keeps ornaments clear of the star
+  nearestTreeSurfacePoint(out, out);
+  const r = Math.hypot(out.x, out.z);
+  return out.set(out.x * (r + HANG_OFFSET) / r, out.y, out.z * (r + HANG_OFFSET) / r);
+};
+
+// The `index`-th ornament placed gets the next color of its kind
+export const ornamentColor = (kind: OrnamentKind, index: number) => {
+  const { colors } = ORNAMENT_KINDS.find(k => k.kind === kind)!;
+  return colors[index % colors.length];
+};
+
+export const createOrnament = (
+  kind: OrnamentKind, position: THREE.Vector3, index: number, photo: { id: string; index: number } | null
+): Ornament => {
+  const ornament: Ornament = { kind, position: position.toArray() as [number, number, number], color: ornamentColor(kind, index) };
+  if (kind === 'photo' && photo !== null) {
+    ornament.photoId = photo.id;
+    ornament.photo = photo.index;
+  }
+  return ornament;
+};
+
+// The photo framed by a photo ornament, or null when there is none to show
+export const ornamentPhoto = <T extends { id: string }>(ornament: Ornament, photos: T[]): T | null => {
+  if (photos.length === 0) return null;
+  const byId = ornament.photoId !== undefined ? photos.find(p => p.id === ornament.photoId) : undefined;
+  if (byId) return byId;
+  return ornament.photo !== undefined ? photos[ornament.photo % photos.length] : null;
+};
+
+// --- UNDO ---
+
+export interface DecorationHistory {
+  present: Ornament[];
+  past: Ornament[][]; // Oldest first
+}
+
+export const createHistory = (present: Ornament[] = []): DecorationHistory => ({ present, past: [] });
+
+export const commitDecoration = (history: DecorationHistory, next: Ornament[]): DecorationHistory => ({
+  present: next,
+  past: [...history.past, history.present].slice(-UNDO_LIMIT),
+});
+
+export const undoDecoration = (history: DecorationHistory): DecorationHistory =>
+  history.past.length === 0
+    ? history
+    : { present: history.past[history.past.length - 1], past: history.past.slice(0, -1) };
+
+// --- JSON IMPORT / EXPORT ---
+
+export const DECORATION_FORMAT_VERSION = 1;
+
+export const serializeDecoration = (ornaments: Ornament[]) =>
+  JSON.stringify({ version: DECORATION_FORMAT_VERSION, ornaments }, null, 2);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const KINDS = ORNAMENT_KINDS.map(k => k.kind) as string[];
+// Generous bounds around the tree, so a hand-edited file can't hang ornaments out of sight
+const REACH = 50;
+
+// Throws a user-facing message naming the first bad ornament
+export const validateOrnaments = (value: unknown): Ornament[] => {
+  const fail = (field: string): never => { throw new Error(format(messages().decorate.invalidField, { field })); };
+  if (!Array.isArray(value)) fail('ornaments');
+  if ((value as unknown[]).length > MAX_ORNAMENTS) fail('ornaments');
+  return (value as any[]).map((item, i): Ornament => {
+    const field = `ornaments[${i}]`;
+    if (!item || typeof item !== 'object' || !KINDS.includes(item.kind)) fail(field);
+    const { position } = item;
+    if (!Array.isArray(position) || position.length !== 3 || !position.every((v: unknown) => Number.isFinite(v) && Math.abs(v as number) <= REACH)) fail(field);
+    if (!HEX_COLOR.test(item.color)) fail(field);
+    const ornament: Ornament = { kind: item.kind, position: [position[0], position[1], position[2]], color: item.color };
+    if (item.photoId !== undefined) {
+      if (item.kind !== 'photo' || typeof item.photoId !== 'string') fail(field);
+      ornament.photoId = item.photoId;
+    }
+    if (item.photo !== undefined) {
+      if (item.kind !== 'photo' || !Number.isSafeInteger(item.photo) || item.photo < 0) fail(field);
+      ornament.photo = item.photo;
+    }
+    return ornament;
+  });
+};
+
+export const parseDecoration = (json: string): Ornament[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(messages().decorate.notJson);
+  }
+  if (parsed?.version !== DECORATION_FORMAT_VERSION) throw new Error(messages().decorate.badVersion);
+  return validateOrnaments(parsed.ornaments);
+};
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'magic-tree:decoration';
+
+// `fallback` (a shared config's decoration) applies until the visitor decorates themselves
+export const loadDecoration = (fallback: Ornament[] = []): Ornament[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseDecoration(raw) : fallback;
+  } catch (e) {
+    console.warn("Could not load decoration, using the default", e);
+    return fallback;
+  }
+};
+
+export const saveDecoration = (ornaments: Ornament[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeDecoration(ornaments));
+  } catch (e) {
+    console.warn("Could not save decoration", e);
+  }
+};
@@ -0,0 +1,284 @@
+import * as THREE from 'three';
+import { AppMode } from '../types.ts';
+import { HAND_FIELD_SHAPE, HandField } from './handField.ts';
+
+// ==========================================
+// GPU PARTICLE MORPHING
+// ==========================================
+// Every particle's shape and scatter positions live in per-instance attributes;
+// the vertex shader blends between them, so a mode change costs a handful of
+// uniform updates per frame instead of a matrix upload per particle. Switching
+// shapes keeps the previous layout in aShapeFrom and blends toward aShapeTo.
+
+export interface MorphUniforms {
+  uTime: THREE.IUniform<number>;
+  uMorph: THREE.IUniform<number>;   // 0 = tree, 1 = scattered
+  uSpread: THREE.IUniform<number>;  // Scatter radius multiplier (INSPECT pushes particles back)
+  uBob: THREE.IUniform<number>;     // Floating amplitude while scattered
+  uShapeBlend: THREE.IUniform<number>; // 0 = previous shape, 1 = current shape
+  uFlowFrom: THREE.IUniform<number>;   // 1 when that shape's ribbons follow the spiral
+  uFlowTo: THREE.IUniform<number>;
+  uFlowPhase: THREE.IUniform<number>;  // How far the ribbons have travelled along the spiral
+  uMosaic: THREE.IUniform<number>;     // 0 = tree/scatter, 1 = lined up in the photo mosaic
+  uMosaicCell: THREE.IUniform<number>; // Mosaic cell edge, which sizes the particles there
+  uHandPoint: THREE.IUniform<THREE.Vector3>; // Hand force field, see utils/handField.ts
+  uHandAxis: THREE.IUniform<THREE.Vector3>;
+  uHandForce: THREE.IUniform<number>;
+  uHandPhase: THREE.IUniform<number>;
+}
+
+export const createMorphUniforms = (): MorphUniforms => ({
+  uTime: { value: 0 },
+  uMorph: { value: 0 },
+  uSpread: { value: 1 },
+  uBob: { value: 0 },
+  uShapeBlend: { value: 1 },
+  uFlowFrom: { value: 1 },
+  uFlowTo: { value: 1 },
+  uFlowPhase: { value: 0 },
+  uMosaic: { value: 0 },
+  uMosaicCell: { value: 0.1 },
+  uHandPoint: { value: new THREE.Vector3() },
+  uHandAxis: { value: new THREE.Vector3(0, 0, -1) },
+  uHandForce: { value: 0 },
+  uHandPhase: { value: 0 },
+});
+
+// Eases the uniforms toward the mode's targets with the same damping the CPU loop used
+export const stepMorph = (
+  uniforms: MorphUniforms,
+  mode: AppMode,
+  time: number,
+  delta: number,
+  rate: number,
+  inspectSpread = 2
+) => {
+  const t = Math.min(1, delta * rate);
+  uniforms.uTime.value = time;
+  // Decorating needs the tree standing
+  const assembled = mode === AppMode.TREE || mode === AppMode.DECORATE;
+  uniforms.uMorph.value = THREE.MathUtils.lerp(uniforms.uMorph.value, assembled ? 0 : 1, t);
+  uniforms.uSpread.value = THREE.MathUtils.lerp(uniforms.uSpread.value, mode === AppMode.INSPECT ? inspectSpread : 1, t);
+  uniforms.uBob.value = THREE.MathUtils.lerp(uniforms.uBob.value, mode === AppMode.SCATTER ? 1 : 0, t);
+  uniforms.uMosaic.value = THREE.MathUtils.lerp(uniforms.uMosaic.value, mode === AppMode.MOSAIC ? 1 : 0, t);
+  uniforms.uShapeBlend.value = THREE.MathUtils.lerp(uniforms.uShapeBlend.value, 1, t);
+};
+
+// Ribbon flow is integrated rather than derived from time so its speed can change smoothly
+export const advanceFlow = (uniforms: MorphUniforms, delta: number, speed: number) => {
+  uniforms.uFlowPhase.value += delta * speed;
+};
+
+// Copies the shared hand field into this material's uniforms
+export const applyHandField = (uniforms: MorphUniforms, field: HandField) => {
+  uniforms.uHandPoint.value.copy(field.point);
+  uniforms.uHandAxis.value.copy(field.axis);
+  uniforms.uHandForce.value = field.strength;
+  uniforms.uHandPhase.value = field.phase;
+};
+
+// Starts a shape transition: freezes the on-screen blend into `from`, then targets `to`
+export const beginShapeTransition = (
+  uniforms: MorphUniforms,
+  from: Float32Array,
+  to: Float32Array,
+  next: Float32Array,
+  nextFlows: boolean
+) => {
+  const blend = uniforms.uShapeBlend.value;
+  for (let i = 0; i < from.length; i++) from[i] += (to[i] - from[i]) * blend;
+  to.set(next);
+  uniforms.uFlowFrom.value = blend < 0.5 ? uniforms.uFlowFrom.value : uniforms.uFlowTo.value;
+  uniforms.uFlowTo.value = nextFlows ? 1 : 0;
+  uniforms.uShapeBlend.value = 0;
+};
+
+const UNIFORM_DECLARATIONS = `
+uniform float uTime;
+uniform float uMorph;
+uniform float uSpread;
+uniform float uBob;
+uniform float uShapeBlend;
+uniform float uFlowFrom;
+uniform float uFlowTo;
+uniform float uFlowPhase;
+uniform float uMosaic;
+uniform float uMosaicCell;
+uniform vec3 uHandPoint;
+uniform vec3 uHandAxis;
+uniform float uHandForce;
+uniform float uHandPhase;
+`;
+
+const ROTATIONS = `
+vec3 rotateX(vec3 p, float a) {
+  float c = cos(a), s = sin(a);
+  return vec3(p.x, c * p.y - s * p.z, s * p.y + c * p.z);
+}
+vec3 rotateY(vec3 p, float a) {
+  float c = cos(a), s = sin(a);
+  return vec3(c * p.x + s * p.z, p.y, -s * p.x + c * p.z);
+}
+`;
+
+const glslFloat = (value: number) => value.toFixed(3);
+
+// GPU twin of handOffset() in utils/handField.ts
+const HAND_FIELD = `
+vec3 handOffset(vec3 p) {
+  const float radius = ${glslFloat(HAND_FIELD_SHAPE.radius)};
+  vec3 d = p - uHandPoint;
+  vec3 radial = d - uHandAxis * dot(d, uHandAxis);
+  float dist = length(radial);
+  float falloff = 1.0 - smoothstep(0.0, radius, dist);
+  if (falloff <= 0.0) return vec3(0.0);
+
+  vec3 offset = dist > 1e-4
+    ? radial * (falloff * radius * ${glslFloat(HAND_FIELD_SHAPE.push)} * max(uHandForce, 0.0) / dist)
+    : vec3(0.0);
+
+  float angle = uHandPhase * falloff;
+  vec3 wound = cross(uHandAxis, radial) * sin(angle) + radial * cos(angle);
+  wound = wound * (1.0 - ${glslFloat(HAND_FIELD_SHAPE.pull)} * falloff) - radial;
+  return offset + wound * max(-uHandForce, 0.0);
+}
+`;
+
+// Extends an unlit material so instancing colors, fog and tone mapping keep working
+const createParticleMaterial = (uniforms: object, cacheKey: string, header: string, vertex: string, color: THREE.ColorRepresentation = 0xffffff) => {
+  const material = new THREE.MeshBasicMaterial({ color, toneMapped: false });
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${header}`)
+      .replace('#include <begin_vertex>', vertex);
+  };
+  // All particle materials share a class, so tell three.js they compile differently
+  material.customProgramCacheKey = () => cacheKey;
+  // The compiled program is out of reach, so keep the live values where tests can read them
+  material.userData.uniforms = uniforms;
+  return material;
+};
+
+const createMorphMaterial = (uniforms: MorphUniforms, cacheKey: string, header: string, vertex: string) =>
+  createParticleMaterial(uniforms, cacheKey, `${UNIFORM_DECLARATIONS}${HAND_FIELD}${header}`, vertex);
+
+export const createFoliageMaterial = (uniforms: MorphUniforms) => createMorphMaterial(uniforms, 'foliage', `
+attribute vec3 aShapeFrom;
+attribute vec3 aShapeTo;
+attribute vec3 aScatterPos;
+attribute vec3 aMosaicPos;
+attribute float aPhase;
+attribute float aScale;
+`, `
+vec3 treePos = mix(aShapeFrom, aShapeTo, uShapeBlend);
+treePos.x += sin(uTime * 0.5 + treePos.y) * 0.05;
+vec3 scatterPos = aScatterPos * uSpread;
+scatterPos.y += sin(uTime * 0.5 + aPhase) * 0.5 * uBob;
+scatterPos += handOffset(scatterPos);
+// In the mosaic every particle becomes one evenly sized pixel
+float size = mix(aScale, uMosaicCell * 0.6, uMosaic);
+vec3 transformed = position * size + mix(mix(treePos, scatterPos, uMorph), aMosaicPos, uMosaic);
+`);
+
+export const createRibbonMaterial = (uniforms: MorphUniforms) => createMorphMaterial(uniforms, 'ribbon', `
+attribute vec3 aSpiral;      // angle, radius, height
+attribute vec3 aShapeFrom;
+attribute vec3 aShapeTo;
+attribute vec3 aScatterPos;
+attribute vec3 aMosaicPos;
+attribute float aPhase;
+attribute float aTrail;
+${ROTATIONS}
+`, `
+// On the tree each segment flows along the spiral, stretched along its tangent
+float angle = aSpiral.x - uFlowPhase;
+vec3 spiralVertex = rotateY(position * vec3(0.1, 0.1, aTrail), -angle)
+  + vec3(cos(angle) * aSpiral.y, aSpiral.z, sin(angle) * aSpiral.y);
+
+// Other shapes place the segments like any other particle
+vec3 segment = position * 0.12;
+vec3 fromVertex = uFlowFrom > 0.5 ? spiralVertex : segment + aShapeFrom;
+vec3 toVertex = uFlowTo > 0.5 ? spiralVertex : segment + aShapeTo;
+vec3 treeVertex = mix(fromVertex, toVertex, uShapeBlend);
+
+// Scattered segments tumble in place, carried whole by the hand field
+vec3 scatterCenter = aScatterPos * uSpread + vec3(0.0, sin(uTime + aPhase) * uBob, 0.0);
+vec3 scatterVertex = rotateX(rotateY(position * 0.1, uTime * 0.3), uTime * 0.5)
+  + scatterCenter + handOffset(scatterCenter);
+
+// Square pixels in the mosaic
+vec3 mosaicVertex = position * uMosaicCell * 0.9 + aMosaicPos;
+
+vec3 transformed = mix(mix(treeVertex, scatterVertex, uMorph), mosaicVertex, uMosaic);
+`);
+
+// ==========================================
+// SNOW
+// ==========================================
+// Driven by the weather state in utils/weather.ts. Falling flakes wrap around
+// inside the snow box as the wind carries them; cover flakes sit on the tree
+// until a burst throws them off.
+
+export interface SnowUniforms {
+  uTime: THREE.IUniform<number>;
+  uDrift: THREE.IUniform<THREE.Vector3>;  // How far the wind has carried the snowfall
+  uBox: THREE.IUniform<THREE.Vector3>;
+  uDensity: THREE.IUniform<number>;       // Share of the flakes still falling, eased for the on/off toggle
+  uDepth: THREE.IUniform<number>;         // Settled depth: cover flakes with a lower aReveal show
+  uBurst: THREE.IUniform<number>;         // Depth thrown off by the last burst
+  uBurstAge: THREE.IUniform<number>;
+}
+
+export const createSnowUniforms = (box: THREE.Vector3): SnowUniforms => ({
+  uTime: { value: 0 },
+  uDrift: { value: new THREE.Vector3() },
+  uBox: { value: box.clone() },
+  uDensity: { value: 0 },
+  uDepth: { value: 0 },
+  uBurst: { value: 0 },
+  uBurstAge: { value: 0 },
+});
+
+const SNOW_DECLARATIONS = `
+uniform float uTime;
+uniform vec3 uDrift;
+uniform vec3 uBox;
+uniform float uDensity;
+uniform float uDepth;
+uniform float uBurst;
+uniform float uBurstAge;
+`;
+
+// Kept under the bloom threshold, so the snow doesn't outshine the lights
+const SNOW_COLOR = new THREE.Color(0.85, 0.9, 1.0);
+
+export const createSnowfallMaterial = (uniforms: SnowUniforms) => createParticleMaterial(uniforms, 'snowfall', `${SNOW_DECLARATIONS}
+attribute vec3 aStart;
+attribute float aSpeed;
+attribute float aPhase;
+attribute float aShow;
+`, `
+vec3 flake = aStart + uDrift;
+flake.y -= uTime * aSpeed;
+flake.xz += vec2(sin(uTime * 0.8 + aPhase), cos(uTime * 0.6 + aPhase)) * 0.5;
+// Wrapped back into the box, so the snow never runs out
+flake = mod(flake + uBox * 0.5, uBox) - uBox * 0.5;
+float shown = step(aShow, uDensity);
+vec3 transformed = position * (0.04 + aSpeed * 0.02) * shown + flake;
+`, SNOW_COLOR);
+
+export const createSnowCoverMaterial = (uniforms: SnowUniforms) => createParticleMaterial(uniforms, 'snowCover', `${SNOW_DECLARATIONS}
+attribute vec3 aCover;
+attribute vec3 aNormal;
+attribute float aReveal;
+attribute float aSize;
+`, `
+// Settled flakes grow in place as the depth passes their threshold
+float grown = smoothstep(aReveal, aReveal + 0.02, uDepth);
+// Thrown flakes fly out along the branches, fall and shrink away
+float t = min(uBurstAge, 2.0);
+float thrown = step(aReveal, uBurst) * (1.0 - smoothstep(0.8, 1.6, t)) * (1.0 - grown);
+vec3 flight = aNormal * t * (3.0 + aReveal * 5.0) + vec3(0.0, -4.9 * t * t, 0.0);
+vec3 transformed = position * aSize * max(grown, thrown) + aCover + flight * (1.0 - grown);
+`, SNOW_COLOR);
@@ -0,0 +1,80 @@
+// ==========================================
+// RENDER QUALITY TIERS
+// ==========================================
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+export type QualitySetting = QualityTier | 'auto';
+
+export interface QualityPreset {
+  foliage: number;
+  ribbons: number;
+  stars: number;
+  sparkles: number;
+  snow: number; // Falling flakes, and as many again settled on the tree
+  dpr: [number, number];
+  multisampling: number;
+  bloomLevels: number;
+  vignette: boolean;
+  shadows: boolean;
+}
+
+// Lowest first, so stepping up/down is an index change
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_PRESETS: Record<QualityTier, QualityPreset> = {
+  low: {
+    foliage: 2000, ribbons: 800, stars: 1000, sparkles: 150, snow: 600,
+    dpr: [0.75, 1], multisampling: 0, bloomLevels: 4, vignette: false, shadows: false,
+  },
+  medium: {
+    foliage: 4000, ribbons: 1400, stars: 2000, sparkles: 300, snow: 1200,
+    dpr: [1, 1.5], multisampling: 0, bloomLevels: 6, vignette: true, shadows: false,
+  },
+  high: {
+    foliage: 6000, ribbons: 2000, stars: 3000, sparkles: 600, snow: 2000,
+    dpr: [1, 2], multisampling: 4, bloomLevels: 8, vignette: true, shadows: true,
+  },
+  ultra: {
+    foliage: 10000, ribbons: 3000, stars: 5000, sparkles: 1000, snow: 3500,
+    dpr: [1.5, 2.5], multisampling: 8, bloomLevels: 9, vignette: true, shadows: true,
+  },
+};
+
+// Automatic scaling never climbs into ultra on its own
+export const AUTO_MAX_TIER: QualityTier = 'high';
+
+export const stepTier = (tier: QualityTier, direction: 1 | -1, max: QualityTier = 'ultra'): QualityTier => {
+  const index = QUALITY_TIERS.indexOf(tier) + direction;
+  const maxIndex = QUALITY_TIERS.indexOf(max);
+  return QUALITY_TIERS[Math.max(0, Math.min(maxIndex, index))];
+};
+
+// Starting point for auto mode, before any frame times have been measured
+export const guessInitialTier = (): QualityTier => {
+  const cores = navigator.hardwareConcurrency ?? 4;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+  const mobile = /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
+  if (cores <= 4 || memory <= 2) return 'low';
+  if (mobile) return 'medium';
+  return 'high';
+};
+
+const STORAGE_KEY = 'magic-tree:quality';
+
+export const loadQualitySetting = (): QualitySetting => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw && (raw === 'auto' || Object.hasOwn(QUALITY_PRESETS, raw)) ? (raw as QualitySetting) : 'auto';
+  } catch (e) {
+    console.warn("Could not load quality setting, using auto", e);
+    return 'auto';
+  }
+};
+
+export const saveQualitySetting = (setting: QualitySetting) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, setting);
+  } catch (e) {
+    console.warn("Could not save quality setting", e);
+  }
+};
@@ -0,0 +1,32 @@
+// ==========================================
+// SEEDED RANDOMNESS
+// ==========================================
+// Scene layouts draw from seeded generators instead of Math.random(), so the
+// same seed (from the greeting config) builds the same tree on every reload,
+// on every device, and across React re-renders.
+
+// Returns a float in [0, 1), like Math.random
+export type Random = () => number;
+
+// FNV-1a, to turn a stream name (or any text) into a 32-bit seed
+export const hashSeed = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny and fast, plenty for scattering particles. Each named
+// stream is independent, so e.g. adding a photo never reshuffles the foliage.
+export const createRandom = (seed: number, stream = ''): Random => {
+  let state = (seed ^ hashSeed(stream)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
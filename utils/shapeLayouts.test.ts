@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { BUILT_IN_SHAPES, createPointCloudLayout, fillLayout, getRibbonSpiral, getScatterPos, getTreeData, TREE_HEIGHT, TREE_RADIUS } from './shapeLayouts.ts';
+import { createRandom } from './random.ts';
+
+const seed = fc.integer({ min: 0, max: 0xffffffff });
+// A particle index together with the count it belongs to
+const slot = fc.integer({ min: 1, max: 20000 }).chain(total => fc.tuple(fc.nat({ max: total - 1 }), fc.constant(total)));
+
+const coneRadiusAt = (y: number) => ((TREE_HEIGHT / 2) - y) * (TREE_RADIUS / TREE_HEIGHT);
+
+describe('getTreeData', () => {
+  it('stays inside the cone', () => {
+    fc.assert(fc.property(seed, slot, (s, [index, total]) => {
+      const { pos, radiusAtHeight, yPercent } = getTreeData(index, total, createRandom(s));
+      expect(pos.y).toBeGreaterThanOrEqual(-TREE_HEIGHT / 2);
+      expect(pos.y).toBeLessThan(TREE_HEIGHT / 2);
+      expect(yPercent).toBeGreaterThanOrEqual(0);
+      expect(yPercent).toBeLessThan(1);
+      expect(radiusAtHeight).toBeCloseTo(coneRadiusAt(pos.y));
+      expect(Math.hypot(pos.x, pos.z)).toBeLessThanOrEqual(radiusAtHeight + 1e-9);
+    }));
+  });
+
+  it('fills the cone bottom to top in index order', () => {
+    fc.assert(fc.property(seed, slot, (s, [index, total]) => {
+      fc.pre(index + 1 < total);
+      const random = createRandom(s);
+      expect(getTreeData(index + 1, total, random).pos.y).toBeGreaterThan(getTreeData(index, total, random).pos.y);
+    }));
+  });
+});
+
+describe('getRibbonSpiral', () => {
+  it('wraps just outside the foliage', () => {
+    fc.assert(fc.property(seed, slot, (s, [index, total]) => {
+      const [, radius, y] = getRibbonSpiral(index, total, createRandom(s));
+      expect(Math.abs(y)).toBeLessThanOrEqual(TREE_HEIGHT / 2);
+      expect(radius).toBeCloseTo(coneRadiusAt(y) + 0.6);
+    }));
+  });
+
+  it('runs two strands half a turn apart', () => {
+    // Neighbouring particles sit at almost the same height on opposite strands
+    const [a] = getRibbonSpiral(1000, 2000, () => 0.5);
+    const [b] = getRibbonSpiral(1001, 2000, () => 0.5);
+    const gap = (((b - a) % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+    expect(gap).toBeCloseTo(Math.PI, 1);
+  });
+});
+
+describe('getScatterPos', () => {
+  it('stays inside the scatter box', () => {
+    fc.assert(fc.property(seed, (s) => {
+      const [x, y, z] = getScatterPos(createRandom(s));
+      expect(Math.abs(x)).toBeLessThanOrEqual(25);
+      expect(Math.abs(y)).toBeLessThanOrEqual(20);
+      expect(Math.abs(z)).toBeLessThanOrEqual(15);
+    }));
+  });
+});
+
+describe('built-in layouts', () => {
+  it.each(BUILT_IN_SHAPES.map(shape => [shape.id, shape] as const))('%s fits the tree framing', (_id, shape) => {
+    fc.assert(fc.property(seed, (s) => {
+      const points = fillLayout(shape.layout, 500, createRandom(s));
+      for (let i = 0; i < points.length; i += 3) {
+        expect(Math.abs(points[i])).toBeLessThanOrEqual(12);
+        expect(Math.abs(points[i + 1])).toBeLessThanOrEqual(10);
+        expect(Math.abs(points[i + 2])).toBeLessThanOrEqual(10);
+      }
+    }), { numRuns: 20 });
+  });
+
+  it('repeats exactly for the same seed and stream', () => {
+    fc.assert(fc.property(seed, (s) => {
+      for (const shape of BUILT_IN_SHAPES) {
+        const first = fillLayout(shape.layout, 200, createRandom(s, 'foliage'));
+        const again = fillLayout(shape.layout, 200, createRandom(s, 'foliage'));
+        expect(again).toEqual(first);
+      }
+    }), { numRuns: 20 });
+  });
+
+  it('differs between streams of one seed', () => {
+    const tree = BUILT_IN_SHAPES[0];
+    expect(fillLayout(tree.layout, 200, createRandom(1, 'foliage'))).not.toEqual(fillLayout(tree.layout, 200, createRandom(1, 'ribbons')));
+  });
+});
+
+describe('createPointCloudLayout', () => {
+  // A flat line of samples, like text drawn in the xy plane
+  const line = new Float32Array([0, 0, 0, 1, 0, 0, 2, 0, 0, 3, 0, 0]);
+
+  it('gives flat clouds their depth from the seed', () => {
+    fc.assert(fc.property(seed, (s) => {
+      const layout = createPointCloudLayout(line, 0.4);
+      const points = fillLayout(layout, 100, createRandom(s));
+      expect(fillLayout(layout, 100, createRandom(s))).toEqual(points);
+      for (let i = 2; i < points.length; i += 3) expect(Math.abs(points[i])).toBeLessThanOrEqual(0.2 + 0.075);
+    }), { numRuns: 20 });
+    expect(fillLayout(createPointCloudLayout(line, 0.4), 100, createRandom(1)).some((v, i) => i % 3 === 2 && Math.abs(v) > 0.1)).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import * as THREE from 'three';
+import { Random } from './random.ts';
+
+// ==========================================
+// SHAPE LAYOUTS
+// ==========================================
+// A layout maps particle `index` of `total` to the point it occupies when the
+// particles assemble. Every built-in fits roughly the tree's 18-unit-tall box
+// centered on the origin, so the camera framing works for all of them.
+// Layouts draw only from `random`, so a seeded generator reproduces them exactly.
+
+export type ShapeLayout = (index: number, total: number, random: Random) => [number, number, number];
+
+export interface ShapeDefinition {
+  id: string;
+  label: string;
+  icon: string;
+  layout: ShapeLayout;
+  // The ribbons run along their own animated spiral instead of the layout
+  spiralRibbons?: boolean;
+}
+
+export const TREE_HEIGHT = 18;
+export const TREE_RADIUS = 7.5;
+
+// Helper to generate tree cone position
+export const getTreeData = (index: number, total: number, random: Random) => {
+  const y = (index / total) * TREE_HEIGHT - (TREE_HEIGHT / 2);
+  const yPercent = (y + TREE_HEIGHT/2) / TREE_HEIGHT;
+  const radiusAtHeight = ((TREE_HEIGHT / 2) - y) * (TREE_RADIUS / TREE_HEIGHT);
+
+  // Dense cone
+  const r = radiusAtHeight * Math.pow(random(), 0.4);
+  const angle = index * 2.39996; // Golden angle
+  const x = Math.cos(angle) * r;
+  const z = Math.sin(angle) * r;
+
+  return { pos: new THREE.Vector3(x, y, z), angle, r, radiusAtHeight, yPercent };
+};
+
+// Ribbon particle `index` of `total` as [angle, radius, y] on the tree's double
+// spiral, just outside the foliage; the ribbon shader turns it into a position.
+export const getRibbonSpiral = (index: number, total: number, random: Random): [number, number, number] => {
+  const y = (index / total) * TREE_HEIGHT - (TREE_HEIGHT / 2);
+  const radiusAtHeight = ((TREE_HEIGHT / 2) - y) * (TREE_RADIUS / TREE_HEIGHT) + 0.6;
+
+  // Even particles form the first strand, odd ones the second, half a turn apart
+  const strand = index % 2;
+  const spiralFreq = 6.0;
+  const angle = (y / TREE_HEIGHT) * Math.PI * 2 * spiralFreq + strand * Math.PI;
+  const spread = (random() - 0.5) * 1.5;
+
+  return [angle + spread * 0.1, radiusAtHeight, y];
+};
+
+// Where a particle drifts to in SCATTER: anywhere in a box around the scene
+export const getScatterPos = (random: Random): [number, number, number] => {
+  return [
+    (random() - 0.5) * 50, 
+    (random() - 0.5) * 40,
+    (random() - 0.5) * 30,
+  ];
+};
+
+// --- BUILT-IN LAYOUTS ---
+
+const treeLayout: ShapeLayout = (index, total, random) => getTreeData(index, total, random).pos.toArray() as [number, number, number];
+
+const heartLayout: ShapeLayout = (_index, _total, random) => {
+  const t = random() * Math.PI * 2;
+  // sqrt keeps the filled area evenly dense
+  const fill = Math.sqrt(random());
+  const x = 16 * Math.sin(t) ** 3;
+  const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+  const depth = (random() - 0.5) * 3 * (1 - fill * 0.7);
+  return [x * fill * 0.5, y * fill * 0.5 + 1.5, depth];
+};
+
+// Same distribution as Vector3.randomDirection, which can't take a generator
+const pointOnSphere = (radius: number, random: Random): THREE.Vector3 => {
+  const z = random() * 2 - 1;
+  const angle = random() * Math.PI * 2;
+  const ring = Math.sqrt(1 - z * z);
+  return new THREE.Vector3(Math.cos(angle) * ring, Math.sin(angle) * ring, z)
+    .multiplyScalar(radius * (0.85 + random() * 0.15));
+};
+
+// Body, torso and head, with particles shared out by surface area
+const SNOWMAN_BALLS = [
+  { y: -5, r: 4 },
+  { y: 1.5, r: 3 },
+  { y: 6.2, r: 2 },
+];
+const SNOWMAN_AREA = SNOWMAN_BALLS.reduce((sum, b) => sum + b.r ** 2, 0);
+
+const snowmanLayout: ShapeLayout = (index, total, random) => {
+  let share = (index / total) * SNOWMAN_AREA;
+  let ball = SNOWMAN_BALLS[SNOWMAN_BALLS.length - 1];
+  for (const b of SNOWMAN_BALLS) {
+    if (share < b.r ** 2) { ball = b; break; }
+    share -= b.r ** 2;
+  }
+  const p = pointOnSphere(ball.r, random);
+  return [p.x, p.y + ball.y, p.z];
+};
+
+const STAR_POINTS = 5;
+const STAR_OUTER = 9;
+const STAR_INNER = 3.8;
+
+const starLayout: ShapeLayout = (_index, _total, random) => {
+  // Pick one of the star's triangular wedges, then a uniform point inside it
+  const wedge = Math.floor(random() * STAR_POINTS * 2);
+  const corner = (k: number) => {
+    const a = Math.PI / 2 + (k * Math.PI) / STAR_POINTS;
+    const r = k % 2 === 0 ? STAR_OUTER : STAR_INNER;
+    return new THREE.Vector2(Math.cos(a) * r, Math.sin(a) * r);
+  };
+  let u = random();
+  let v = random();
+  if (u + v > 1) { u = 1 - u; v = 1 - v; }
+  const p = corner(wedge).multiplyScalar(u).add(corner(wedge + 1).multiplyScalar(v));
+  const thickness = 1.2 * (1 - p.length() / STAR_OUTER);
+  return [p.x, p.y, (random() - 0.5) * 2 * thickness];
+};
+
+const GALAXY_ARMS = 3;
+
+const galaxyLayout: ShapeLayout = (index, _total, random) => {
+  const arm = index % GALAXY_ARMS;
+  const radius = Math.pow(random(), 0.6) * 11;
+  const angle = radius * 0.45 + (arm * Math.PI * 2) / GALAXY_ARMS + (random() - 0.5) * (1.2 / (1 + radius * 0.3));
+  const thickness = (random() - 0.5) * 1.5 * Math.exp(-radius * 0.2);
+  // Tilted toward the camera so the arms read as a disc
+  const x = Math.cos(angle) * radius;
+  const y = Math.sin(angle) * radius;
+  return [x, y * 0.8 + thickness * 0.6, -y * 0.6 + thickness];
+};
+
+export const BUILT_IN_SHAPES: ShapeDefinition[] = [
+  { id: 'tree', label: '圣诞树', icon: '🎄', layout: treeLayout, spiralRibbons: true },
+  { id: 'heart', label: '爱心', icon: '❤️', layout: heartLayout },
+  { id: 'snowman', label: '雪人', icon: '⛄', layout: snowmanLayout },
+  { id: 'star', label: '星星', icon: '⭐', layout: starLayout },
+  { id: 'galaxy', label: '星系', icon: '🌌', layout: galaxyLayout },
+];
+
+// --- POINT CLOUD LAYOUTS ---
+
+// Scales a flat xyz list so it fits a box of the given size, centered on the origin
+export const normalizePoints = (points: Float32Array, width = 22, height = 18): Float32Array => {
+  const box = new THREE.Box3().setFromArray(points);
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = Math.min(width / (size.x || 1), height / (size.y || 1));
+  const result = new Float32Array(points.length);
+  for (let i = 0; i < points.length; i += 3) {
+    result[i] = (points[i] - center.x) * scale;
+    result[i + 1] = (points[i + 1] - center.y) * scale;
+    result[i + 2] = (points[i + 2] - center.z) * scale;
+  }
+  return result;
+};
+
+// Spreads the particles evenly over a sampled point cloud (text, silhouettes, meshes).
+// `depth` scatters the particles of a flat cloud through a slab that thick.
+export const createPointCloudLayout = (points: Float32Array, depth = 0): ShapeLayout => {
+  const count = points.length / 3;
+  return (index, total, random) => {
+    const i = Math.floor((index / total) * count) * 3;
+    // Particles sharing a sample point would stack exactly; nudge them apart
+    const jitter = () => (random() - 0.5) * 0.15;
+    return [points[i] + jitter(), points[i + 1] + jitter(), points[i + 2] + jitter() + (random() - 0.5) * depth];
+  };
+};
+
+// Fills a layout into a flat xyz array for the particle attributes
+export const fillLayout = (layout: ShapeLayout, total: number, random: Random, target = new Float32Array(total * 3)) => {
+  for (let i = 0; i < total; i++) target.set(layout(i, total, random), i * 3);
+  return target;
+};
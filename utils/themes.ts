@@ -0,0 +1,162 @@
+import { format, messages } from './i18n.ts';
+
+// ==========================================
+// THEMES
+// ==========================================
+// Everything color-related in the scene. Intensities multiply the base color
+// into HDR range, which is what makes the unlit particles bloom.
+
+export const ENVIRONMENT_PRESETS = ['apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'studio', 'sunset', 'warehouse'] as const;
+export type EnvironmentPreset = typeof ENVIRONMENT_PRESETS[number];
+
+export interface GlowColor {
+  color: string;
+  intensity: number;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  background: string;
+  environment: EnvironmentPreset;
+  foliage: { dark: string; mid: string; light: string; intensity: number };
+  // The two ribbon strands spiralling around the tree
+  ribbons: [GlowColor, GlowColor];
+  star: { core: GlowColor; halo: GlowColor; light: string };
+  frame: string;
+  lights: { ambient: string; spot: string; point: string };
+  sparkles: string;
+}
+
+export const CLASSIC_THEME: Theme = {
+  id: 'classic',
+  name: '经典圣诞',
+  background: '#000200',
+  environment: 'night',
+  foliage: { dark: '#0a4f1c', mid: '#2ec255', light: '#66ff99', intensity: 4 },
+  ribbons: [{ color: '#ff0000', intensity: 25 }, { color: '#ffaa00', intensity: 30 }],
+  star: { core: { color: '#ffffff', intensity: 100 }, halo: { color: '#ffda00', intensity: 50 }, light: '#ffeedd' },
+  frame: '#D4AF37',
+  lights: { ambient: '#ffffff', spot: '#ffecd1', point: '#ff5555' },
+  sparkles: '#fffbac',
+};
+
+export const BUILT_IN_THEMES: Theme[] = [
+  CLASSIC_THEME,
+  {
+    id: 'snowy',
+    name: '冰雪蓝白',
+    background: '#01040d',
+    environment: 'dawn',
+    foliage: { dark: '#1b3a66', mid: '#8fc9ff', light: '#e8f6ff', intensity: 3.5 },
+    ribbons: [{ color: '#ffffff', intensity: 20 }, { color: '#4db8ff', intensity: 25 }],
+    star: { core: { color: '#ffffff', intensity: 100 }, halo: { color: '#9ad8ff', intensity: 40 }, light: '#dff2ff' },
+    frame: '#c9d6e3',
+    lights: { ambient: '#e6f2ff', spot: '#dff2ff', point: '#5aa9ff' },
+    sparkles: '#ffffff',
+  },
+  {
+    id: 'springFestival',
+    name: '新春红金',
+    background: '#0d0100',
+    environment: 'sunset',
+    foliage: { dark: '#5c0000', mid: '#d41f1f', light: '#ff6b4a', intensity: 4 },
+    ribbons: [{ color: '#ffd000', intensity: 30 }, { color: '#ff8c00', intensity: 28 }],
+    star: { core: { color: '#fff4cc', intensity: 100 }, halo: { color: '#ffcc00', intensity: 60 }, light: '#ffe2a8' },
+    frame: '#e6b422',
+    lights: { ambient: '#ffffff', spot: '#ffe2a8', point: '#ff3300' },
+    sparkles: '#ffd966',
+  },
+  {
+    id: 'birthday',
+    name: '生日派对',
+    background: '#07000d',
+    environment: 'city',
+    foliage: { dark: '#4a1a6b', mid: '#ff6ec7', light: '#7df9ff', intensity: 3.5 },
+    ribbons: [{ color: '#ff3fa4', intensity: 22 }, { color: '#36e0ff', intensity: 22 }],
+    star: { core: { color: '#ffffff', intensity: 100 }, halo: { color: '#ff7af5', intensity: 45 }, light: '#ffe6fa' },
+    frame: '#ff9ad5',
+    lights: { ambient: '#ffffff', spot: '#ffe6fa', point: '#9b5cff' },
+    sparkles: '#fff0a8',
+  },
+];
+
+// --- JSON IMPORT / EXPORT ---
+
+export const THEME_FORMAT_VERSION = 1;
+
+export const serializeTheme = (theme: Theme) =>
+  JSON.stringify({ version: THEME_FORMAT_VERSION, theme }, null, 2);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isGlow = (value: any): value is GlowColor =>
+  value && HEX_COLOR.test(value.color) && typeof value.intensity === 'number' && value.intensity >= 0;
+
+// Throws a user-facing message describing the first problem found
+const validateTheme = (value: any): Theme => {
+  const fail = (field: string): never => { throw new Error(format(messages().themes.invalidField, { field })); };
+  if (!value || typeof value !== 'object') fail(messages().themes.missingTheme);
+  if (typeof value.name !== 'string' || !value.name.trim()) fail('name');
+  if (!HEX_COLOR.test(value.background)) fail('background');
+  if (!ENVIRONMENT_PRESETS.includes(value.environment)) fail('environment');
+  const { foliage, ribbons, star, lights } = value;
+  if (!foliage || ![foliage.dark, foliage.mid, foliage.light].every(c => HEX_COLOR.test(c)) || typeof foliage.intensity !== 'number') fail('foliage');
+  if (!Array.isArray(ribbons) || ribbons.length !== 2 || !ribbons.every(isGlow)) fail('ribbons');
+  if (!star || !isGlow(star.core) || !isGlow(star.halo) || !HEX_COLOR.test(star.light)) fail('star');
+  if (!HEX_COLOR.test(value.frame)) fail('frame');
+  if (!lights || ![lights.ambient, lights.spot, lights.point].every(c => HEX_COLOR.test(c))) fail('lights');
+  if (!HEX_COLOR.test(value.sparkles)) fail('sparkles');
+  return value as Theme;
+};
+
+export const parseTheme = (json: string): Theme => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(messages().themes.notJson);
+  }
+  if (parsed?.version !== THEME_FORMAT_VERSION) throw new Error(messages().themes.badVersion);
+  const theme = validateTheme(parsed.theme);
+  // Imported ids may collide with bundled ones; give every import its own
+  return { ...theme, id: `custom-${Date.now().toString(36)}` };
+};
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'magic-tree:themes';
+
+export interface ThemeSettings {
+  activeId: string;
+  custom: Theme[];
+}
+
+// `defaultId` applies until the visitor picks a theme themselves
+export const loadThemeSettings = (defaultId = CLASSIC_THEME.id): ThemeSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { activeId: defaultId, custom: [] };
+    const parsed = JSON.parse(raw);
+    const custom: Theme[] = [];
+    for (const theme of Array.isArray(parsed.custom) ? parsed.custom : []) {
+      try {
+        custom.push({ ...validateTheme(theme), id: String(theme.id) });
+      } catch (e) {
+        console.warn("Skipping invalid saved theme", e);
+      }
+    }
+    return { activeId: typeof parsed.activeId === 'string' ? parsed.activeId : defaultId, custom };
+  } catch (e) {
+    console.warn("Could not load themes, using default", e);
+    return { activeId: defaultId, custom: [] };
+  }
+};
+
+export const saveThemeSettings = (settings: ThemeSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save themes", e);
+  }
+};
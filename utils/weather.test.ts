@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import * as THREE from 'three';
+import { createRandom } from './random.ts';
+import { TREE_HEIGHT, TREE_RADIUS } from './shapeLayouts.ts';
+import { createSnowCover, createSnowfall, createWeather, shakeTree, shakeWobble, shedSnow, SNOW_BOX, stepWeather, WeatherInput, WeatherState } from './weather.ts';
+
+const seed = fc.integer({ min: 0, max: 0xffffffff });
+
+// Camera at rest, looking down -z
+const input = (overrides: Partial<WeatherInput> = {}): WeatherInput => ({
+  snowing: true,
+  settling: true,
+  hand: null,
+  right: new THREE.Vector3(1, 0, 0),
+  up: new THREE.Vector3(0, 1, 0),
+  ...overrides,
+});
+
+// Steps the weather at 60 fps
+const run = (state: WeatherState, seconds: number, next: WeatherInput) => {
+  for (let i = 0; i < seconds * 60; i++) stepWeather(state, next, 1 / 60);
+  return state;
+};
+
+describe('stepWeather', () => {
+  it('blows the snow the way the hand moves on screen, then calms down', () => {
+    const state = createWeather();
+    stepWeather(state, input({ hand: { x: 0.5, y: 0.5 } }), 1 / 60);
+    // Right and up on screen
+    stepWeather(state, input({ hand: { x: 0.6, y: 0.4 } }), 1 / 60);
+    expect(state.gust.x).toBeGreaterThan(0);
+    expect(state.gust.y).toBeGreaterThan(0);
+    expect(state.gust.z).toBe(0);
+
+    run(state, 5, input({ hand: { x: 0.6, y: 0.4 } }));
+    expect(state.gust.length()).toBeLessThan(0.1);
+  });
+
+  it('never gusts past the limit, however wildly the hand moves', () => {
+    const position = fc.record({ x: fc.double({ min: 0, max: 1, noNaN: true }), y: fc.double({ min: 0, max: 1, noNaN: true }) });
+    fc.assert(fc.property(fc.array(position, { minLength: 2, maxLength: 30 }), (path) => {
+      const state = createWeather();
+      for (const hand of path) stepWeather(state, input({ hand }), 1 / 60);
+      expect(state.gust.length()).toBeLessThanOrEqual(25 + 1e-6);
+    }));
+  });
+
+  it('settles snow only on a standing tree, and melts it once the snowfall stops', () => {
+    const scattered = run(createWeather(), 10, input({ settling: false }));
+    expect(scattered.depth).toBe(0);
+
+    const state = run(createWeather(), 20, input());
+    expect(state.depth).toBeCloseTo(0.5, 2);
+    run(state, 60, input());
+    expect(state.depth).toBe(1);
+
+    run(state, 10, input({ snowing: false }));
+    expect(state.depth).toBeCloseTo(0.5, 2);
+  });
+});
+
+describe('shedSnow', () => {
+  it('throws the settled snow off in one burst', () => {
+    const state = run(createWeather(), 20, input());
+    expect(shedSnow(state)).toBe(true);
+    expect(state.depth).toBe(0);
+    expect(state.burst).toBeCloseTo(0.5, 2);
+    expect(state.burstAge).toBe(0);
+    expect(state.shakeAge).toBe(Infinity);
+    // Nothing left to throw
+    expect(shedSnow(state)).toBe(false);
+  });
+
+  it('shaking rocks the tree even when it is bare', () => {
+    const state = createWeather();
+    expect(shakeTree(state)).toBe(false);
+    expect(state.shakeAge).toBe(0);
+    expect(Math.abs(shakeWobble(0.05))).toBeGreaterThan(0.01);
+    expect(Math.abs(shakeWobble(2))).toBeLessThan(0.001);
+  });
+});
+
+describe('createSnowCover', () => {
+  it('rests every flake on the outside of the cone, facing out and up', () => {
+    fc.assert(fc.property(seed, (s) => {
+      const { positions, normals, reveal } = createSnowCover(200, createRandom(s));
+      for (let i = 0; i < 200; i++) {
+        const [x, y, z] = positions.slice(i * 3, i * 3 + 3);
+        const shell = (TREE_HEIGHT / 2 - (y - 0.1)) * (TREE_RADIUS / TREE_HEIGHT);
+        const r = Math.hypot(x, z);
+        expect(r).toBeGreaterThanOrEqual(shell * 0.9);
+        expect(r).toBeLessThanOrEqual(shell + 0.1 + 1e-6);
+        expect(normals[i * 3 + 1]).toBeGreaterThan(0);
+        expect(normals[i * 3] * x + normals[i * 3 + 2] * z).toBeGreaterThanOrEqual(0);
+        expect(reveal[i]).toBeGreaterThanOrEqual(0);
+        expect(reveal[i]).toBeLessThan(1);
+      }
+    }), { numRuns: 20 });
+  });
+
+  it('puts more snow on the wide lower branches than near the top', () => {
+    const { positions } = createSnowCover(2000, createRandom(3));
+    const lowerHalf = Array.from({ length: 2000 }, (_, i) => positions[i * 3 + 1]).filter(y => y < 0).length;
+    // Three quarters of the cone's surface is below half height
+    expect(lowerHalf / 2000).toBeCloseTo(0.75, 1);
+  });
+});
+
+describe('createSnowfall', () => {
+  it('starts every flake inside the snow box', () => {
+    fc.assert(fc.property(seed, (s) => {
+      const { positions } = createSnowfall(100, createRandom(s));
+      for (let i = 0; i < positions.length; i += 3) {
+        expect(Math.abs(positions[i])).toBeLessThanOrEqual(SNOW_BOX.x / 2);
+        expect(Math.abs(positions[i + 1])).toBeLessThanOrEqual(SNOW_BOX.y / 2);
+        expect(Math.abs(positions[i + 2])).toBeLessThanOrEqual(SNOW_BOX.z / 2);
+      }
+    }), { numRuns: 20 });
+  });
+});
@@ -0,0 +1,170 @@
+import * as THREE from 'three';
+import { Random } from './random.ts';
+import { getTreeData, TREE_HEIGHT, TREE_RADIUS } from './shapeLayouts.ts';
+
+// ==========================================
+// WEATHER
+// ==========================================
+// Snow falls through a box around the scene, blown by a light breeze plus the
+// gusts a moving hand stirs up. While the particles stand as a tree, some of
+// it settles on the cone: a fixed set of cover flakes on its outer shell is
+// revealed one by one as the depth grows. Shaking the tree, or breaking it
+// up, throws the settled snow off in one burst.
+// The flakes themselves move on the GPU (SNOW in particleMaterials.ts); this
+// module only keeps the few numbers they are driven by.
+
+export const SNOW_BOX = new THREE.Vector3(70, 40, 70); // Flakes wrap around inside this, centered on the origin
+
+export interface WeatherOptions {
+  breeze: THREE.Vector3;  // Steady wind, in units/s
+  gust: number;           // Wind added per screen width of hand movement, in units/s
+  calm: number;           // Per-second decay of gusts
+  maxGust: number;        // Gusts never blow harder than this
+  settleSeconds: number;  // Snowfall time for a fully covered tree
+  meltSeconds: number;    // Without snowfall, the cover fades over this long
+}
+
+export const DEFAULT_WEATHER: WeatherOptions = {
+  breeze: new THREE.Vector3(0.6, 0, 0.2),
+  gust: 60,
+  calm: 1.2,
+  maxGust: 25,
+  settleSeconds: 40,
+  meltSeconds: 20,
+};
+
+export interface WeatherState {
+  gust: THREE.Vector3;   // Current hand-driven wind
+  drift: THREE.Vector3;  // How far the wind has carried the snow so far
+  depth: number;         // 0 = bare tree, 1 = every cover flake settled
+  burst: number;         // Depth thrown off by the last burst
+  burstAge: number;      // Seconds since that burst
+  shakeAge: number;      // Seconds since the tree was last shaken
+  lastHand: { x: number; y: number } | null;
+}
+
+export interface WeatherInput {
+  snowing: boolean;
+  settling: boolean;                      // Whether the particles stand as a tree snow can rest on
+  hand: { x: number; y: number } | null;  // Normalized cursor of a visible hand
+  right: THREE.Vector3;                   // Camera axes, so a gust follows the hand on screen
+  up: THREE.Vector3;
+}
+
+export const createWeather = (): WeatherState => ({
+  gust: new THREE.Vector3(),
+  drift: new THREE.Vector3(),
+  depth: 0,
+  burst: 0,
+  burstAge: Infinity,
+  shakeAge: Infinity,
+  lastHand: null,
+});
+
+export const stepWeather = (
+  state: WeatherState,
+  input: WeatherInput,
+  delta: number,
+  options: Partial<WeatherOptions> = {}
+) => {
+  const opts = { ...DEFAULT_WEATHER, ...options };
+
+  // Hand movement since the last frame kicks the wind along; screen y points down
+  if (input.hand && state.lastHand) {
+    state.gust
+      .addScaledVector(input.right, (input.hand.x - state.lastHand.x) * opts.gust)
+      .addScaledVector(input.up, -(input.hand.y - state.lastHand.y) * opts.gust)
+      .clampLength(0, opts.maxGust);
+  }
+  state.lastHand = input.hand;
+  state.gust.multiplyScalar(Math.exp(-opts.calm * delta));
+  state.drift.addScaledVector(opts.breeze, delta).addScaledVector(state.gust, delta);
+
+  if (input.snowing && input.settling) state.depth = Math.min(1, state.depth + delta / opts.settleSeconds);
+  else if (!input.snowing) state.depth = Math.max(0, state.depth - delta / opts.meltSeconds);
+
+  state.burstAge += delta;
+  state.shakeAge += delta;
+};
+
+// Throws the settled snow off the tree. Returns whether there was any to throw.
+export const shedSnow = (state: WeatherState) => {
+  if (state.depth <= 0) return false;
+  state.burst = state.depth;
+  state.burstAge = 0;
+  state.depth = 0;
+  return true;
+};
+
+export const shakeTree = (state: WeatherState) => {
+  state.shakeAge = 0;
+  return shedSnow(state);
+};
+
+// Sideways lean of the tree (radians) this long after a shake: a few quick, fading swings
+export const shakeWobble = (age: number) => Math.sin(age * 28) * 0.05 * Math.exp(-age * 4);
+
+// Where the settled snow goes: `count` flakes on the outer shell of the
+// getTreeData() cone, spread evenly over its surface. The flakes appear in
+// `reveal` order as the depth grows; `normal` is the way they fly off.
+export const createSnowCover = (count: number, random: Random) => {
+  const positions = new Float32Array(count * 3);
+  const normals = new Float32Array(count * 3);
+  const reveal = new Float32Array(count);
+  const sizes = new Float32Array(count);
+  // The cone's surface narrows linearly, so heights are drawn with a density falling the same way
+  const slope = TREE_RADIUS / TREE_HEIGHT;
+  const total = 10000;
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    const index = Math.floor(total * (1 - Math.sqrt(random())));
+    const { pos, angle, radiusAtHeight } = getTreeData(index, total, random);
+    const r = radiusAtHeight * (0.9 + random() * 0.1) + 0.1;
+    positions[i * 3] = Math.cos(angle) * r;
+    positions[i * 3 + 1] = pos.y + 0.1;
+    positions[i * 3 + 2] = Math.sin(angle) * r;
+    normal.set(Math.cos(angle), slope, Math.sin(angle)).normalize().toArray(normals, i * 3);
+    reveal[i] = random();
+    sizes[i] = 0.06 + random() * 0.06;
+  }
+  return { positions, normals, reveal, sizes };
+};
+
+// Falling flakes: a start point in SNOW_BOX, a fall speed and a random
+// threshold that decides which flakes still show as snowfall fades.
+export const createSnowfall = (count: number, random: Random) => {
+  const positions = new Float32Array(count * 3);
+  const speeds = new Float32Array(count);
+  const phases = new Float32Array(count);
+  const shows = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = (random() - 0.5) * SNOW_BOX.x;
+    positions[i * 3 + 1] = (random() - 0.5) * SNOW_BOX.y;
+    positions[i * 3 + 2] = (random() - 0.5) * SNOW_BOX.z;
+    speeds[i] = 1.2 + random() * 1.6;
+    phases[i] = random() * Math.PI * 2;
+    shows[i] = random();
+  }
+  return { positions, speeds, phases, shows };
+};
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'magic-tree:snow';
+
+export const loadSnowSetting = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== 'off';
+  } catch (e) {
+    console.warn("Could not load snow setting, snowing", e);
+    return true;
+  }
+};
+
+export const saveSnowSetting = (snowing: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, snowing ? 'on' : 'off');
+  } catch (e) {
+    console.warn("Could not save snow setting", e);
+  }
+};
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe wasm/ folder and hand_landmarker.task are served from
+  readonly VITE_MEDIAPIPE_BASE_URL?: string;
+  // WebSocket URL of scripts/remote-relay.mjs when it isn't proxied at /relay
+  readonly VITE_REMOTE_RELAY_URL?: string;
+}
+
+// Contents of greeting.config.json (or $GREETING_CONFIG), injected by vite.config.ts
+declare const __GREETING_CONFIG__: unknown;
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,23 +1,65 @@
+/// <reference types="vitest/config" />
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { zhCN } from './locales/zh-CN.ts';
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Each gift is built from its own greeting file: GREETING_CONFIG=gifts/alice.json npm run build
+    const greetingPath = path.resolve(__dirname, env.GREETING_CONFIG || 'greeting.config.json');
+    const greeting = JSON.parse(fs.readFileSync(greetingPath, 'utf-8'));
+    // Remote control relay (npm run relay), on the page's own origin so it
+    // shares its HTTPS certificate: phones only grant the camera over HTTPS
+    const proxy = { '/relay': { target: 'ws://localhost:8787', ws: true } };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          // The page title is visible before any script runs (tabs, link previews);
+          // the app switches it to the visitor's language once loaded
+          name: 'greeting-title',
+          transformIndexHtml: (html) => {
+            if (typeof greeting.recipient !== 'string') return html;
+            // Function replacers, so a `$&` in the name is not read as a pattern
+            const title = (greeting.pageTitle ?? zhCN.greeting.pageTitle).replace(/\{name\}/g, () => greeting.recipient);
+            return html.replace(/<title>.*<\/title>/, () => `<title>${escapeHtml(title)}</title>`);
+          },
+        },
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        __GREETING_CONFIG__: JSON.stringify(greeting),
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      test: {
+        // Pure logic runs in node; scene tests opt into jsdom per file
+        environment: 'node',
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules/**', 'dist/**'],
+        // Node would load the CommonJS builds, which pull in a second copy of three.js
+        alias: {
+          '@react-three/fiber': '@react-three/fiber/dist/react-three-fiber.esm.js',
+          '@react-three/test-renderer': '@react-three/test-renderer/dist/react-three-test-renderer.esm.js',
+        },
+        server: { deps: { inline: [/@react-three\//] } },
+      },
     };
 });
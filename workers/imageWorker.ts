@@ -0,0 +1,25 @@
+import { ImageProcessingOptions, ProcessedImage, processImage } from '../utils/imageProcessing.ts';
+
+// Decoding and resizing 12-megapixel photos off the main thread keeps the scene smooth
+
+export interface ImageWorkerRequest {
+  id: number;
+  blob: Blob;
+  options: ImageProcessingOptions;
+}
+
+export interface ImageWorkerResponse {
+  id: number;
+  result?: ProcessedImage;
+  error?: string; // Set instead of `result` when processing failed
+}
+
+self.onmessage = async (e: MessageEvent<ImageWorkerRequest>) => {
+  const { id, blob, options } = e.data;
+  try {
+    const result = await processImage(blob, options);
+    self.postMessage({ id, result } satisfies ImageWorkerResponse);
+  } catch (err: unknown) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) } satisfies ImageWorkerResponse);
+  }
+};